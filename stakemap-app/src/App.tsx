@@ -1,4 +1,5 @@
-import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { useEffect } from 'react';
+import { BrowserRouter, Routes, Route, Navigate, useLocation, useParams } from 'react-router-dom';
 import { AppLayout } from './components/layout/AppLayout';
 import { MapPage } from './pages/map/MapPage';
 import { CompanyList } from './pages/companies/CompanyList';
@@ -7,13 +8,40 @@ import { StakeholderList } from './pages/stakeholders/StakeholderList';
 import { StakeholderForm } from './pages/stakeholders/StakeholderForm';
 import { ArchivedStakeholders } from './pages/stakeholders/ArchivedStakeholders';
 import { AuditLog } from './pages/audit/AuditLog';
+import { DataQuality } from './pages/quality/DataQuality';
+import { SignIn } from './pages/auth/SignIn';
+import { DEFAULT_MAP_ID } from './lib/constants';
+import { useAuthStore } from './store/authStore';
+
+/** Remount the map page per map so filters and selection never leak between maps. */
+function MapRoute() {
+  const { id } = useParams();
+  return <MapPage key={id} mapId={id ?? DEFAULT_MAP_ID} />;
+}
+
+/** Send signed-out visitors to the sign-in page, remembering where they were headed. */
+function RequireAuth({ children }: { children: React.ReactNode }) {
+  const status = useAuthStore((s) => s.status);
+  const location = useLocation();
+  if (status === 'loading') return <div className="p-8 text-slate-500">Loading...</div>;
+  if (status === 'signedOut') {
+    return <Navigate to="/sign-in" replace state={{ from: location.pathname + location.search }} />;
+  }
+  return children;
+}
 
 function App() {
+  const initAuth = useAuthStore((s) => s.init);
+  useEffect(() => initAuth(), [initAuth]);
+
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<AppLayout />}>
-          <Route index element={<MapPage />} />
+        <Route path="/sign-in" element={<SignIn />} />
+        <Route path="/" element={<RequireAuth><AppLayout /></RequireAuth>}>
+          <Route index element={<Navigate to={`/maps/${DEFAULT_MAP_ID}`} replace />} />
+          <Route path="maps" element={<Navigate to={`/maps/${DEFAULT_MAP_ID}`} replace />} />
+          <Route path="maps/:id" element={<MapRoute />} />
           <Route path="companies" element={<CompanyList />} />
           <Route path="companies/new" element={<CompanyForm />} />
           <Route path="companies/:id/edit" element={<CompanyForm />} />
@@ -22,6 +50,7 @@ function App() {
           <Route path="stakeholders/archived" element={<ArchivedStakeholders />} />
           <Route path="stakeholders/:id/edit" element={<StakeholderForm />} />
           <Route path="audit" element={<AuditLog />} />
+          <Route path="data-quality" element={<DataQuality />} />
         </Route>
       </Routes>
     </BrowserRouter>
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { realtime, repo } from '../../lib/repository';
+import { REVERTIBLE_TABLES, actorLabel, fieldLabel, formatValue, relativeTime, shownUpdatedAt, withKnownActor } from '../../lib/audit';
+import type { AuditEntityType } from '../../lib/audit';
+import { useAuthStore, useCanEdit } from '../../store/authStore';
+import { RestoreButton } from './RestoreButton';
+import type { AuditEvent } from '../../types/database';
+
+const PAGE_SIZE = 10;
+
+const ACTION_LABEL: Record<string, string> = {
+  create: 'Created',
+  update: 'Updated',
+  archive: 'Archived',
+  restore: 'Restored',
+  delete: 'Deleted',
+  revert: 'Reverted',
+};
+
+const ACTION_DOT: Record<string, string> = {
+  create: 'bg-emerald-500',
+  update: 'bg-blue-500',
+  archive: 'bg-amber-500',
+  restore: 'bg-violet-500',
+  delete: 'bg-red-500',
+  revert: 'bg-slate-500',
+};
+
+interface Props {
+  entityType: AuditEntityType;
+  entityId: string;
+  title?: string;
+  /** Called after a version was restored, e.g. to refill a form. */
+  onRestored?: () => void;
+}
+
+/** Field-by-field change timeline of one entity, fetched a page at a time. */
+export function EntityHistory({ entityType, entityId, title = 'History', onRestored }: Props) {
+  const user = useAuthStore((s) => s.user);
+  const canRestore = useCanEdit() && entityType in REVERTIBLE_TABLES;
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    repo.audit.listForEntity(entityType, entityId, { limit: PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        setEvents(page);
+        setHasMore(page.length === PAGE_SIZE);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, entityId]);
+
+  // Changes made while the timeline is open go on top
+  useEffect(
+    () => realtime.subscribe(['audit_events'], (change) => {
+      if (change.table !== 'audit_events' || change.eventType !== 'INSERT' || !change.new) return;
+      const row = change.new;
+      if (row.entity_type !== entityType || row.entity_id !== entityId) return;
+      setEvents((prev) => (prev.some((e) => e.id === row.id) ? prev : [withKnownActor(row, prev, user), ...prev]));
+    }),
+    [entityType, entityId, user]
+  );
+
+  async function loadMore() {
+    const oldest = events[events.length - 1];
+    if (!oldest) return;
+    setLoadingMore(true);
+    try {
+      const page = await repo.audit.listForEntity(entityType, entityId, { before: oldest, limit: PAGE_SIZE });
+      setEvents((prev) => [...prev, ...page.filter((e) => !prev.some((p) => p.id === e.id))]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load history');
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  return (
+    <div className="mt-6">
+      <h3 className="mb-3 text-sm font-semibold text-slate-900">{title}</h3>
+
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+      {loading ? (
+        <p className="text-xs text-slate-400">Loading…</p>
+      ) : events.length === 0 ? (
+        <p className="text-xs text-slate-400">No changes recorded yet.</p>
+      ) : (
+        <ol className="space-y-3 border-l border-gray-200 pl-4">
+          {events.map((evt, i) => {
+            const changes = Object.entries(evt.diff_json?.changed ?? {});
+            const showFields = evt.action !== 'create' && evt.action !== 'delete';
+            // The newest version is the current one, unless it was a delete
+            const restorable = canRestore && (i > 0 || evt.action === 'delete');
+            return (
+              <li key={evt.id} className="relative">
+                <span className={`absolute -left-[21px] top-1.5 h-2 w-2 rounded-full ${ACTION_DOT[evt.action] ?? 'bg-gray-400'}`} />
+                <div className="flex flex-wrap items-baseline gap-x-1.5 text-xs">
+                  <span className="font-medium text-slate-700">{ACTION_LABEL[evt.action] ?? evt.action}</span>
+                  <span className="text-slate-400">by {actorLabel(evt)}</span>
+                  <span className="ml-auto text-slate-400" title={new Date(evt.changed_at).toLocaleString()}>
+                    {relativeTime(evt.changed_at)}
+                  </span>
+                  {restorable && <RestoreButton event={evt} expectedUpdatedAt={shownUpdatedAt(events, evt)} onRestored={onRestored} />}
+                </div>
+                {showFields && changes.length > 0 && (
+                  <ul className="mt-1 space-y-0.5">
+                    {changes.map(([column, change]) => (
+                      <li key={column} className="text-xs text-slate-500">
+                        <span className="font-medium text-slate-600">{fieldLabel(column)}:</span>{' '}
+                        <span className="text-slate-400 line-through">{formatValue(change.old)}</span>
+                        {' → '}
+                        <span className="text-slate-700">{formatValue(change.new)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {hasMore && !loading && (
+        <button onClick={loadMore} disabled={loadingMore} className="btn-secondary mt-3 py-1 text-xs disabled:opacity-50">
+          {loadingMore ? 'Loading…' : 'Show older changes'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { ConflictError } from '../../lib/repository';
+import { useGraphStore } from '../../store/graphStore';
+import type { AuditEvent } from '../../types/database';
+
+interface Props {
+  event: AuditEvent;
+  /** The entity's updated_at in the version on screen (see `shownUpdatedAt`) */
+  expectedUpdatedAt: string | null;
+  className?: string;
+  onRestored?: () => void;
+}
+
+/** Restores the entity to its version at `event`; asks before overwriting newer changes. */
+export function RestoreButton({ event, expectedUpdatedAt, className, onRestored }: Props) {
+  const revertToEvent = useGraphStore((s) => s.revertToEvent);
+  const [restoring, setRestoring] = useState(false);
+  const isDelete = event.action === 'delete';
+
+  async function handleRestore() {
+    const when = new Date(event.changed_at).toLocaleString();
+    const question = isDelete
+      ? `Bring back this deleted ${event.entity_type}?`
+      : `Restore this ${event.entity_type} to how it was after the change on ${when}?`;
+    if (!window.confirm(question)) return;
+    setRestoring(true);
+    try {
+      try {
+        await revertToEvent(event, { expectedUpdatedAt });
+      } catch (e) {
+        if (!(e instanceof ConflictError)) throw e;
+        if (!window.confirm(`${e.message}. Restore anyway and overwrite those changes?`)) return;
+        await revertToEvent(event, { expectedUpdatedAt, force: true });
+      }
+      onRestored?.();
+    } catch (e) {
+      window.alert(e instanceof Error ? e.message : 'Failed to restore');
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleRestore}
+      disabled={restoring}
+      className={className ?? 'text-xs font-medium text-emerald-600 hover:text-emerald-700 disabled:opacity-50'}
+    >
+      {restoring ? 'Restoring…' : isDelete ? 'Undo delete' : 'Restore'}
+    </button>
+  );
+}
@@ -1,10 +1,12 @@
-import { useState, useEffect, useRef, useCallback, useImperativeHandle, forwardRef } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo, useImperativeHandle, forwardRef } from 'react';
 import cytoscape, { type Core, type NodeSingular } from 'cytoscape';
-import { supabase } from '../../lib/supabase';
+import { useGraphStore } from '../../store/graphStore';
 import { DEFAULT_MAP_ID } from '../../lib/constants';
 import type { Stakeholder } from '../../types/database';
 import type { Relationship } from '../../types/database';
 import type { MapLayout } from '../../types/database';
+import type { OrgChart } from '../../lib/graph';
+import type { ExportEdge, ExportNode, ExportShape, LegendSection, MapScene } from '../../lib/mapExport';
 
 const SENTIMENT_COLORS: Record<string, string> = {
   ALLY: '#059669',
@@ -29,7 +31,7 @@ const RELATION_COLORS: Record<string, string> = {
   GATEKEEPER_FOR: '#f97316',  // orange — access control
 };
 
-const RELATION_LINE_STYLE: Record<string, string> = {
+const RELATION_LINE_STYLE: Record<string, cytoscape.Css.LineStyle> = {
   REPORTS_TO: 'solid',
   PEER_OF: 'dashed',
   BLOCKS: 'solid',
@@ -58,7 +60,22 @@ function buildCompanyColorMap(stakeholders: Stakeholder[]): Map<string, string>
   return map;
 }
 
-const SENIORITY_SHAPES: Record<string, string> = {
+/** One hue family per community, so neighbouring coalitions don't read as the same company */
+function communityColor(index: number): string {
+  return COMPANY_RING_COLORS[(index * 6 + Math.floor(index / 8)) % COMPANY_RING_COLORS.length];
+}
+
+/** "Community 2 · Acme, Globex +1": the companies a coalition spans, most members first */
+function communityLabel(index: number, companyNames: string[]): string {
+  const counts = new Map<string, number>();
+  for (const name of companyNames) counts.set(name, (counts.get(name) ?? 0) + 1);
+  const names = [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)!);
+  const shown = names.slice(0, 2).join(', ');
+  const more = names.length > 2 ? ` +${names.length - 2}` : '';
+  return `Community ${index + 1}${shown ? ` · ${shown}${more}` : ''}`;
+}
+
+const SENIORITY_SHAPES: Record<string, cytoscape.Css.NodeShape> = {
   C_LEVEL: 'star',
   VP: 'hexagon',
   DIRECTOR: 'pentagon',
@@ -66,12 +83,38 @@ const SENIORITY_SHAPES: Record<string, string> = {
   IC: 'triangle',
 };
 
+const SENIORITY_LABELS: Record<string, string> = {
+  C_LEVEL: 'C-Level', VP: 'VP', DIRECTOR: 'Director', MANAGER: 'Manager', IC: 'IC',
+};
+
 /** Scale node size by influence: 1→24px, 5→52px */
 function influenceSize(score: number | null): number {
   const s = Math.max(1, Math.min(5, score ?? 2));
   return 24 + (s - 1) * 7;
 }
 
+/** Node size from a metric score in [0, 1], spanning the same range as influence sizing */
+function scoreSize(score: number): number {
+  return 24 + score * 28;
+}
+
+/** Light-to-dark indigo ramp for a metric score in [0, 1] */
+function scoreColor(score: number): string {
+  const from = [224, 231, 255];
+  const to = [55, 48, 163];
+  const [r, g, b] = from.map((c, i) => Math.round(c + (to[i] - c) * Math.max(0, Math.min(1, score))));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/** Opponent red through neutral slate to ally green for a sentiment value in [−1, 1] */
+function sentimentValueColor(value: number): string {
+  const mid = [100, 116, 139];
+  const end = value < 0 ? [220, 38, 38] : [5, 150, 105];
+  const t = Math.min(1, Math.abs(value));
+  const [r, g, b] = mid.map((c, i) => Math.round(c + (end[i] - c) * t));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
 /** Compute convex hull points for a set of positions with padding */
 function convexHull(points: { x: number; y: number }[], padding: number): { x: number; y: number }[] {
   if (points.length < 2) return points;
@@ -104,13 +147,268 @@ function convexHull(points: { x: number; y: number }[], padding: number): { x: n
   });
 }
 
-export type LayoutName = 'cose' | 'breadthfirst' | 'circle';
+interface HullGroup {
+  positions: { x: number; y: number }[];
+  color: string;
+  name: string;
+}
+
+/** People grouped the way the hulls outline them: by community when given, by company otherwise */
+function hullGroups(
+  cy: Core,
+  stakeholders: Stakeholder[],
+  communities: Record<string, number> | null,
+  at: (node: NodeSingular) => { x: number; y: number }
+): HullGroup[] {
+  if (communities) {
+    // Group nodes by community, noting the companies each one spans
+    const members = new Map<number, { positions: { x: number; y: number }[]; companies: string[] }>();
+    cy.nodes('[stakeholder]').forEach((node) => {
+      const index = communities[node.id()];
+      if (index === undefined) return;
+      const d = node.data() as { company_name?: string };
+      if (!members.has(index)) members.set(index, { positions: [], companies: [] });
+      const group = members.get(index)!;
+      group.positions.push(at(node));
+      if (d.company_name) group.companies.push(d.company_name);
+    });
+    return [...members].map(([index, { positions, companies }]) => ({
+      positions,
+      color: communityColor(index),
+      name: communityLabel(index, companies),
+    }));
+  }
+  // Group nodes by company
+  const groups = new Map<string, HullGroup>();
+  const companyColorMap = buildCompanyColorMap(stakeholders);
+  cy.nodes('[stakeholder]').forEach((node) => {
+    const d = node.data() as { company_id?: string; company_name?: string; stakeholder: Stakeholder };
+    const cid = d.company_id;
+    if (!cid) return;
+    if (!groups.has(cid)) {
+      groups.set(cid, {
+        positions: [],
+        color: companyColorMap.get(cid) ?? '#94a3b8',
+        name: d.company_name ?? '',
+      });
+    }
+    groups.get(cid)!.positions.push(at(node));
+  });
+  return [...groups.values()];
+}
+
+/** Below this zoom, labels and arrows are hidden and edges drawn straight */
+const REDUCED_DETAIL_ZOOM = 0.6;
+/** Below this zoom, each company collapses into one aggregate node */
+const AGGREGATE_ZOOM = 0.3;
+/** Minimum time between two hull redraws, in ms */
+const HULL_REDRAW_INTERVAL = 50;
+/** From this many elements, edges are hidden and nodes drawn from a cached bitmap while panning or zooming */
+const LARGE_GRAPH_ELEMENTS = 2000;
+
+type DetailLevel = 'full' | 'reduced' | 'aggregate';
+
+function detailLevel(zoom: number, canAggregate: boolean): DetailLevel {
+  if (zoom < AGGREGATE_ZOOM && canAggregate) return 'aggregate';
+  return zoom < REDUCED_DETAIL_ZOOM ? 'reduced' : 'full';
+}
+
+/** Shows the elements of a detail level; aggregates move to the centre of their people. */
+function applyDetailLevel(cy: Core, level: DetailLevel) {
+  const aggregates = cy.elements('.aggregate');
+  cy.batch(() => {
+    const detailed = cy.elements().not(aggregates);
+    detailed.toggleClass('lod-reduced', level !== 'full');
+    detailed.toggleClass('lod-hidden', level === 'aggregate');
+    aggregates.toggleClass('lod-hidden', level !== 'aggregate');
+    if (level !== 'aggregate') return;
+    // Wherever people were last moved
+    const centres = new Map<string, { x: number; y: number; count: number }>();
+    cy.nodes('[stakeholder]').forEach((node) => {
+      const { x, y } = node.position();
+      const companyId = node.data('company_id') as string;
+      const centre = centres.get(companyId) ?? { x: 0, y: 0, count: 0 };
+      centres.set(companyId, { x: centre.x + x, y: centre.y + y, count: centre.count + 1 });
+    });
+    aggregates.nodes().forEach((node) => {
+      const centre = centres.get(node.data('company_aggregate') as string);
+      if (centre) node.position({ x: centre.x / centre.count, y: centre.y / centre.count });
+    });
+  });
+}
+
+/** Everything GraphCanvas draws, with styling resolved into each element's data so a change restyles only that element */
+interface CanvasElements {
+  nodes: cytoscape.ElementDefinition[];
+  edges: cytoscape.ElementDefinition[];
+  /** Nodes positioned by a saved layout or the org chart; the rest keep wherever they already are */
+  placed: Set<string>;
+}
+
+interface CanvasInput {
+  stakeholders: Stakeholder[];
+  relationships: Relationship[];
+  layoutFor: (stakeholderId: string) => MapLayout | undefined;
+  sizeScores: Record<string, number> | null;
+  colorScores: Record<string, number> | null;
+  sentimentOverlay: { values: Record<string, number>; seedIds: string[] } | null;
+  orgChart: OrgChart | null;
+}
+
+function buildElements({ stakeholders, relationships, layoutFor, sizeScores, colorScores, sentimentOverlay, orgChart }: CanvasInput): CanvasElements {
+  const companyColorMap = buildCompanyColorMap(stakeholders);
+  const seedIds = new Set(sentimentOverlay?.seedIds ?? []);
+  const placed = new Set<string>();
+  const R = 300;
+  const graphStakeholders = stakeholders.filter((s) => {
+    const companyName = s.companies?.name;
+    if (!companyName) return true;
+    if (s.full_name.trim().toLowerCase() === companyName.trim().toLowerCase()) return false;
+    return true;
+  });
+  const nodes: cytoscape.ElementDefinition[] = graphStakeholders.map((s, i) => {
+    const layout = layoutFor(s.id);
+    const saved = orgChart?.positions[s.id] ?? (layout ? { x: layout.x, y: layout.y } : null);
+    if (saved) placed.add(s.id);
+    const size = sizeScores ? scoreSize(sizeScores[s.id] ?? 0) : influenceSize(s.influence_score);
+    return {
+      group: 'nodes',
+      data: {
+        id: s.id,
+        label: s.full_name,
+        stakeholder: s,
+        company_id: s.company_id,
+        company_name: s.companies?.name,
+        color: sentimentOverlay && s.id in sentimentOverlay.values
+          ? sentimentValueColor(sentimentOverlay.values[s.id])
+          : colorScores ? scoreColor(colorScores[s.id] ?? 0) : SENTIMENT_COLORS[s.sentiment] || SENTIMENT_COLORS.UNKNOWN,
+        shape: (s.seniority_level && SENIORITY_SHAPES[s.seniority_level]) || 'ellipse',
+        // Influence-scaled sizing, or by the chosen metric
+        size,
+        border_color: companyColorMap.get(s.company_id) ?? '#94a3b8',
+        seed: seedIds.has(s.id),
+      },
+      position: saved ?? { x: R * Math.cos((2 * Math.PI * i) / graphStakeholders.length), y: R * Math.sin((2 * Math.PI * i) / graphStakeholders.length) },
+    };
+  });
+
+  const graphIds = new Set(graphStakeholders.map((s) => s.id));
+  const edges: cytoscape.ElementDefinition[] = [];
+  relationships.forEach((r) => {
+    if (!graphIds.has(r.from_stakeholder_id) || !graphIds.has(r.to_stakeholder_id)) return;
+    edges.push({
+      group: 'edges',
+      data: {
+        id: r.id,
+        source: r.from_stakeholder_id,
+        target: r.to_stakeholder_id,
+        strength: r.strength ?? 3,
+        relation_type: r.relation_type,
+        width: Math.max(1, (r.strength || 3) * 0.8),
+        color: RELATION_COLORS[r.relation_type] || '#cbd5e1',
+        line_style: RELATION_LINE_STYLE[r.relation_type] || 'solid',
+      },
+    });
+  });
+
+  // Other companies in the org chart, each collapsed to a stub
+  for (const stub of orgChart?.stubs ?? []) {
+    const stubId = `stub:${stub.companyId}`;
+    const total = stub.links.reduce((sum, l) => sum + l.count, 0);
+    placed.add(stubId);
+    nodes.push({
+      group: 'nodes',
+      data: { id: stubId, label: `${stub.name} (${total})`, company_stub: stub.companyId },
+      position: { x: stub.x, y: stub.y },
+      classes: 'stub',
+    });
+    for (const link of stub.links) {
+      if (!graphIds.has(link.stakeholderId)) continue;
+      edges.push({
+        group: 'edges',
+        data: {
+          id: `${stubId}:${link.stakeholderId}`,
+          source: link.stakeholderId,
+          target: stubId,
+          count: link.count,
+          company_name: stub.name,
+          width: Math.min(6, 1 + link.count),
+          color: '#cbd5e1',
+          line_style: 'dashed',
+        },
+        classes: 'stub',
+      });
+    }
+  }
+
+  // One aggregate per company, shown in place of its people when zoomed far out
+  if (!orgChart) {
+    const companies = new Map<string, { name: string; count: number }>();
+    for (const s of graphStakeholders) {
+      const company = companies.get(s.company_id);
+      if (company) company.count++;
+      else companies.set(s.company_id, { name: s.companies?.name ?? 'Unknown company', count: 1 });
+    }
+    for (const [companyId, { name, count }] of companies) {
+      nodes.push({
+        group: 'nodes',
+        data: { id: `company:${companyId}`, label: `${name} (${count})`, company_aggregate: companyId, count, color: companyColorMap.get(companyId) ?? '#94a3b8' },
+        position: { x: 0, y: 0 },
+        classes: 'aggregate lod-hidden',
+        grabbable: false,
+        selectable: false,
+      });
+    }
+    const companyOf = new Map(graphStakeholders.map((s) => [s.id, s.company_id]));
+    const links = new Map<string, number>();
+    for (const r of relationships) {
+      const a = companyOf.get(r.from_stakeholder_id);
+      const b = companyOf.get(r.to_stakeholder_id);
+      if (!a || !b || a === b) continue;
+      const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+      links.set(key, (links.get(key) ?? 0) + 1);
+    }
+    for (const [key, count] of links) {
+      const [a, b] = key.split('|');
+      edges.push({
+        group: 'edges',
+        data: {
+          id: `company:${key}`,
+          source: `company:${a}`,
+          target: `company:${b}`,
+          count,
+          label: `${count} relationship${count > 1 ? 's' : ''} between ${companies.get(a)!.name} and ${companies.get(b)!.name}`,
+          width: Math.min(30, 4 + 2 * Math.sqrt(count)),
+          color: '#94a3b8',
+          line_style: 'solid',
+        },
+        classes: 'aggregate lod-hidden',
+      });
+    }
+  }
+
+  return { nodes, edges, placed };
+}
+
+/** Copies the data fields that differ onto a live element; an edge's ends change with move() instead. */
+function updateData(ele: cytoscape.SingularElementReturnValue, data: cytoscape.ElementDataDefinition) {
+  const changed = Object.entries(data).filter(([key, value]) => key !== 'id' && key !== 'source' && key !== 'target' && ele.data(key) !== value);
+  if (changed.length > 0) ele.data(Object.fromEntries(changed));
+}
+
+/** Layouts Cytoscape runs itself; the heavier ones are computed in a worker and passed to applyPositions */
+export type LayoutName = 'circle';
 
 export interface GraphCanvasHandle {
   exportPng: () => string | null;
-  runLayout: (name: LayoutName) => void;
-  highlightPath: (fromId: string, toId: string) => boolean;
-  clearHighlight: () => void;
+  /**
+   * The map as drawn (people, relationships, hulls, legend) for the SVG and PDF exports.
+   * `colorLabel` and `sizeLabel` name the metrics nodes are coloured and sized by.
+   */
+  exportScene: (options: { title: string; summary: string[]; colorLabel?: string; sizeLabel: string }) => MapScene | null;
+  runLayout: (name: LayoutName) => Promise<void>;
+  /** Animates nodes to precomputed positions and saves them like runLayout */
+  applyPositions: (positions: Record<string, { x: number; y: number }>) => Promise<void>;
 }
 
 interface ContextMenuState {
@@ -121,29 +419,92 @@ interface ContextMenuState {
 }
 
 interface GraphCanvasProps {
+  mapId: string;
   stakeholders: Stakeholder[];
   relationships: Relationship[];
   layouts: MapLayout[];
   onNodeClick?: (stakeholder: Stakeholder) => void;
   onLayoutChange?: () => void;
   onContextAction?: (action: string, target: { stakeholder?: Stakeholder; edgeId?: string }) => void;
+  /** Viewers: the context menu only offers non-editing actions. Dragging still works, since positions save to the user's own layout. */
+  readOnly?: boolean;
+  /** Past states from time travel: nodes can't be moved and no menus or layout saves. */
+  locked?: boolean;
+  /** Scores in [0, 1] by stakeholder id that size nodes instead of influence_score */
+  sizeScores?: Record<string, number> | null;
+  /** Scores in [0, 1] by stakeholder id that colour nodes instead of sentiment */
+  colorScores?: Record<string, number> | null;
+  /** Predicted sentiment (−1 … +1 by stakeholder id) drawn over the real one; seeds get a gold ring */
+  sentimentOverlay?: { values: Record<string, number>; seedIds: string[] } | null;
+  /** Dims everything except these nodes and edges; without edge ids, the edges among the nodes stay lit */
+  spotlight?: { nodeIds: string[]; edgeIds?: string[] } | null;
+  /** Community index by stakeholder id; when set, hulls outline communities instead of companies */
+  communities?: Record<string, number> | null;
+  /** Org chart of one company: fixed positions, plus collapsed stubs for the companies it links to */
+  orgChart?: OrgChart | null;
+  onCompanyStubClick?: (companyId: string) => void;
 }
 
 export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(function GraphCanvas({
+  mapId,
   stakeholders,
   relationships,
   layouts,
   onNodeClick,
   onLayoutChange,
   onContextAction,
+  readOnly = false,
+  locked = false,
+  sizeScores = null,
+  colorScores = null,
+  spotlight = null,
+  sentimentOverlay = null,
+  communities = null,
+  orgChart = null,
+  onCompanyStubClick,
 }, ref) {
   const containerRef = useRef<HTMLDivElement>(null);
   const cyRef = useRef<Core | null>(null);
   const hullCanvasRef = useRef<HTMLCanvasElement>(null);
+  const detailRef = useRef<DetailLevel>('full');
+  // Whether the live instance was created with the large-graph viewport options
+  const largeGraphRef = useRef(false);
+  // Node in focus mode, restored after each update
+  const focusRef = useRef<string | null>(null);
+  // Saved positions last applied, by node id; see the sync effect
+  const placedRef = useRef(new Map<string, { x: number; y: number }>());
+  const redrawHullsRef = useRef<(() => void) | null>(null);
+  const teardownRef = useRef<(() => void) | null>(null);
   const [tooltip, setTooltip] = useState<{ x: number; y: number; stakeholder: Stakeholder } | null>(null);
   const [edgeTooltip, setEdgeTooltip] = useState<{ x: number; y: number; label: string } | null>(null);
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
-  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
+  const queueLayouts = useGraphStore((s) => s.queueLayouts);
+  const flushLayouts = useGraphStore((s) => s.flushLayouts);
+
+  /**
+   * Runs a layout on the canvas, then saves every node's position to the user's layout; resolves
+   * once written (or given up on, which the store's `layoutSave` reports).
+   */
+  function runAndSave(options: cytoscape.LayoutOptions): Promise<void> {
+    const cy = cyRef.current;
+    if (!cy) return Promise.resolve();
+    // Company aggregates follow their members rather than being laid out themselves
+    const layout = cy.elements().not('.aggregate').layout(options);
+    const saved = new Promise<void>((resolve) => {
+      layout.on('layoutstop', async () => {
+        const layoutsToUpsert = cy.nodes('[stakeholder]').map((n) => {
+          const pos = (n as NodeSingular).position();
+          return { map_id: mapId, stakeholder_id: n.id(), x: pos.x, y: pos.y };
+        });
+        queueLayouts(layoutsToUpsert);
+        await flushLayouts();
+        onLayoutChange?.();
+        resolve();
+      });
+    });
+    layout.run();
+    return saved;
+  }
 
   useImperativeHandle(ref, () => ({
     exportPng: () => {
@@ -151,51 +512,108 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
       return cyRef.current.png({ output: 'base64uri', bg: '#ffffff', full: true, scale: 2 });
     },
 
-    runLayout: (name: LayoutName) => {
+    exportScene: ({ title, summary, colorLabel, sizeLabel }) => {
       const cy = cyRef.current;
-      if (!cy) return;
-      const layoutOptions: Record<string, object> = {
-        cose: { name: 'cose', animate: true, padding: 60, randomize: false },
-        breadthfirst: { name: 'breadthfirst', directed: true, animate: true, padding: 60, spacingFactor: 1.5 },
-        circle: { name: 'circle', animate: true, padding: 60 },
-      };
-      const layout = cy.layout(layoutOptions[name] as cytoscape.LayoutOptions);
-      layout.on('layoutstop', async () => {
-        const layoutsToUpsert = cy.nodes().map((n) => {
-          const pos = (n as NodeSingular).position();
-          return { map_id: DEFAULT_MAP_ID, stakeholder_id: n.id(), x: pos.x, y: pos.y, updated_at: new Date().toISOString() };
+      if (!cy) return null;
+      // Whatever the zoom, the export shows full detail
+      const nodes: ExportNode[] = [];
+      cy.nodes('[stakeholder]').forEach((node) => {
+        const d = node.data() as { label: string; color: string; shape: ExportShape; size: number; border_color: string; seed: boolean };
+        const { x, y } = node.position();
+        nodes.push({
+          id: node.id(), x, y, width: d.size, height: d.size, shape: d.shape, label: d.label, fill: d.color,
+          border: d.seed ? '#f59e0b' : d.border_color, borderWidth: d.seed ? 6 : 4,
+          opacity: node.hasClass('dimmed') ? 0.12 : 1,
         });
-        try {
-          await supabase.from('map_layouts').upsert(layoutsToUpsert, { onConflict: 'map_id,stakeholder_id' });
-          onLayoutChange?.();
-        } catch (e) {
-          console.error('Failed to save layout after auto-arrange:', e);
-        }
       });
-      layout.run();
+      cy.nodes('.stub').forEach((node) => {
+        const { x, y } = node.position();
+        nodes.push({
+          id: node.id(), x, y, width: 120, height: 34, shape: 'round-rectangle', label: node.data('label') as string,
+          fill: '#f8fafc', border: '#94a3b8', borderWidth: 1.5, dashedBorder: true, labelInside: true,
+          opacity: node.hasClass('dimmed') ? 0.12 : 1,
+        });
+      });
+      const edges: ExportEdge[] = cy.edges().not('.aggregate').map((edge) => ({
+        source: edge.data('source') as string,
+        target: edge.data('target') as string,
+        color: edge.data('color') as string,
+        width: edge.data('width') as number,
+        dashed: edge.data('line_style') === 'dashed',
+        arrow: !edge.hasClass('stub'),
+        opacity: edge.hasClass('dimmed') ? 0.08 : 1,
+      }));
+      const hulls = hullGroups(cy, stakeholders, communities, (node) => ({ ...node.position() }))
+        .filter((h) => h.positions.length >= 2)
+        .map(({ positions, color, name }) => {
+          const outline = convexHull(positions, 50);
+          const labelAt = { x: positions.reduce((sum, p) => sum + p.x, 0) / positions.length, y: Math.min(...outline.map((p) => p.y)) - 8 };
+          return { label: name, color, outline, labelAt };
+        });
+
+      // Legend entries for what is on the map
+      const people = cy.nodes('[stakeholder]').map((node) => (node.data() as { stakeholder: Stakeholder }).stakeholder);
+      const legend: LegendSection[] = [];
+      if (sentimentOverlay) {
+        legend.push({ title: 'Predicted sentiment (node color)', items: [{ label: 'Opponent … Ally', color: '#dc2626', toColor: '#059669', symbol: 'ramp' }] });
+      } else if (colorScores) {
+        legend.push({ title: `${colorLabel ?? 'Score'} (node color)`, items: [{ label: 'Low … High', color: 'rgb(224, 231, 255)', toColor: 'rgb(55, 48, 163)', symbol: 'ramp' }] });
+      } else {
+        const sentiments = new Set<string>(people.map((p) => p.sentiment));
+        legend.push({
+          title: 'Sentiment (node color)',
+          items: Object.keys(SENTIMENT_COLORS).filter((key) => sentiments.has(key))
+            .map((key) => ({ label: SENTIMENT_LABELS[key], color: SENTIMENT_COLORS[key], symbol: 'shape', shape: 'ellipse' })),
+        });
+      }
+      legend.push({ title: `${sizeLabel} (node size)`, items: [{ label: 'Larger = higher', color: '#94a3b8', symbol: 'shape', shape: 'ellipse' }] });
+      const seniorities = new Set<string>(people.map((p) => p.seniority_level ?? ''));
+      legend.push({
+        title: 'Seniority (shape)',
+        items: [...Object.keys(SENIORITY_LABELS), '']
+          .filter((key) => seniorities.has(key))
+          .map((key) => ({ label: SENIORITY_LABELS[key] ?? 'Unset', color: '#64748b', symbol: 'shape', shape: (SENIORITY_SHAPES[key] ?? 'ellipse') as ExportShape })),
+      });
+      const types = new Set(cy.edges().map((edge) => edge.data('relation_type') as string | undefined));
+      legend.push({
+        title: 'Relationship (edge color)',
+        items: Object.keys(RELATION_COLORS).filter((type) => types.has(type)).map((type) => {
+          const label = type.replace(/_/g, ' ').toLowerCase();
+          return { label: label[0].toUpperCase() + label.slice(1), color: RELATION_COLORS[type], symbol: 'line', dashed: RELATION_LINE_STYLE[type] === 'dashed' };
+        }),
+      });
+      return { title, summary, nodes, edges, hulls, legend: legend.filter((section) => section.items.length > 0) };
     },
 
-    highlightPath: (fromId: string, toId: string): boolean => {
-      const cy = cyRef.current;
-      if (!cy) return false;
-      cy.elements().removeClass('dimmed');
-      const dijkstra = cy.elements().dijkstra({ root: cy.$id(fromId), directed: false });
-      const path = dijkstra.pathTo(cy.$id(toId));
-      if (!path || path.length === 0) return false;
-      cy.elements().addClass('dimmed');
-      path.removeClass('dimmed');
-      return true;
+    runLayout: (name: LayoutName) => {
+      const layoutOptions: Record<string, object> = {
+        circle: { name: 'circle', animate: true, padding: 60 },
+      };
+      return runAndSave(layoutOptions[name] as cytoscape.LayoutOptions);
     },
 
-    clearHighlight: () => {
-      cyRef.current?.elements().removeClass('dimmed');
+    applyPositions: (positions) => {
+      return runAndSave({
+        name: 'preset',
+        positions: (node: NodeSingular) => positions[node.id()] ?? node.position(),
+        animate: true,
+        padding: 60,
+      } as cytoscape.LayoutOptions);
     },
   }));
 
-  const layoutMap = useCallback(
-    (id: string) => layouts.find((l) => l.stakeholder_id === id),
-    [layouts]
-  );
+  const canvasElements = useMemo(() => {
+    const byStakeholder = new Map(layouts.map((l) => [l.stakeholder_id, l]));
+    return buildElements({
+      stakeholders,
+      relationships,
+      layoutFor: (id) => byStakeholder.get(id),
+      sizeScores,
+      colorScores,
+      sentimentOverlay,
+      orgChart,
+    });
+  }, [stakeholders, relationships, layouts, sizeScores, colorScores, sentimentOverlay, orgChart]);
 
   // Close context menu on outside click
   useEffect(() => {
@@ -205,7 +623,7 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
     return () => document.removeEventListener('mousedown', handleClick);
   }, [contextMenu]);
 
-  // Draw company hulls
+  // Draw company (or community) hulls
   const drawHulls = useCallback(() => {
     const cy = cyRef.current;
     const canvas = hullCanvasRef.current;
@@ -218,26 +636,11 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+    // Aggregate nodes stand in for the hulls when zoomed far out
+    if (detailRef.current === 'aggregate') return;
 
-    // Group nodes by company
-    const groups = new Map<string, { positions: { x: number; y: number }[]; color: string; name: string }>();
-    cy.nodes().forEach((node) => {
-      const d = node.data() as { company_id?: string; company_name?: string; stakeholder: Stakeholder };
-      const cid = d.company_id;
-      if (!cid) return;
-      const rp = node.renderedPosition();
-      if (!groups.has(cid)) {
-        const companyColorMap = buildCompanyColorMap(stakeholders);
-        groups.set(cid, {
-          positions: [],
-          color: companyColorMap.get(cid) ?? '#94a3b8',
-          name: d.company_name ?? '',
-        });
-      }
-      groups.get(cid)!.positions.push({ x: rp.x, y: rp.y });
-    });
-
-    groups.forEach(({ positions, color, name }) => {
+    const hulls = hullGroups(cy, stakeholders, communities, (node) => node.renderedPosition());
+    hulls.forEach(({ positions, color, name }) => {
       if (positions.length < 2) return; // Need at least 2 nodes to draw a hull
       const hull = convexHull(positions, 50);
       if (hull.length < 3) return;
@@ -278,68 +681,34 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
       ctx.textAlign = 'center';
       ctx.fillText(name, cx, topY - 8);
     });
-  }, [stakeholders]);
+  }, [stakeholders, communities]);
 
+  // Props the Cytoscape event handlers read; the instance outlives any one render
+  const latest = useRef({ mapId, onNodeClick, onLayoutChange, onCompanyStubClick, readOnly, locked, queueLayouts, drawHulls });
   useEffect(() => {
-    if (!containerRef.current || stakeholders.length === 0) return;
-
-    const companyColorMap = buildCompanyColorMap(stakeholders);
-    const R = 300;
-    const graphStakeholders = stakeholders.filter((s) => {
-      const companyName = (s as Stakeholder & { companies?: { name: string } }).companies?.name;
-      if (!companyName) return true;
-      if (s.full_name.trim().toLowerCase() === companyName.trim().toLowerCase()) return false;
-      return true;
-    });
-    const elements: cytoscape.ElementDefinition[] = graphStakeholders.map((s, i) => {
-      const layout = layoutMap(s.id);
-      const position = layout
-        ? { x: layout.x, y: layout.y }
-        : { x: R * Math.cos((2 * Math.PI * i) / graphStakeholders.length), y: R * Math.sin((2 * Math.PI * i) / graphStakeholders.length) };
-      return {
-        group: 'nodes',
-        data: {
-          id: s.id,
-          label: s.full_name,
-          stakeholder: s,
-          company_id: s.company_id,
-          company_name: (s as Stakeholder & { companies?: { name: string } }).companies?.name,
-        },
-        position,
-      };
-    });
+    latest.current = { mapId, onNodeClick, onLayoutChange, onCompanyStubClick, readOnly, locked, queueLayouts, drawHulls };
+  });
 
-    const graphIds = new Set(graphStakeholders.map((s) => s.id));
-    relationships.forEach((r) => {
-      if (!graphIds.has(r.from_stakeholder_id) || !graphIds.has(r.to_stakeholder_id)) return;
-      elements.push({
-        group: 'edges',
-        data: {
-          id: r.id,
-          source: r.from_stakeholder_id,
-          target: r.to_stakeholder_id,
-          strength: r.strength ?? 3,
-          relation_type: r.relation_type,
-        },
-      });
-    });
+  // Hulls depend on more than the elements (communities), so redraw when their drawing changes
+  useEffect(() => {
+    redrawHullsRef.current?.();
+  }, [drawHulls]);
 
+  useEffect(() => () => teardownRef.current?.(), []);
+
+  /** Creates the Cytoscape instance with its styles and event handlers. */
+  function createGraph(container: HTMLDivElement, elements: cytoscape.ElementDefinition[]): Core {
+    const largeGraph = elements.length >= LARGE_GRAPH_ELEMENTS;
+    largeGraphRef.current = largeGraph;
     const cy = cytoscape({
-      container: containerRef.current,
+      container,
       elements,
       style: [
         {
-          selector: 'node',
+          selector: 'node[stakeholder]',
           style: {
-            'background-color': (ele: NodeSingular) => {
-              const s = (ele.data() as { stakeholder: Stakeholder }).stakeholder;
-              return SENTIMENT_COLORS[s.sentiment] || SENTIMENT_COLORS.UNKNOWN;
-            },
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            shape: ((ele: NodeSingular) => {
-              const s = (ele.data() as { stakeholder: Stakeholder }).stakeholder;
-              return (s.seniority_level && SENIORITY_SHAPES[s.seniority_level]) || 'ellipse';
-            }) as any,
+            'background-color': 'data(color)',
+            shape: (ele: NodeSingular) => ele.data('shape') as cytoscape.Css.NodeShape,
             label: 'data(label)',
             'text-valign': 'bottom',
             'text-margin-y': 8,
@@ -348,20 +717,10 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
             color: '#334155',
             'text-outline-width': 2,
             'text-outline-color': '#ffffff',
-            // Influence-scaled sizing
-            width: (ele: NodeSingular) => {
-              const s = (ele.data() as { stakeholder: Stakeholder }).stakeholder;
-              return influenceSize(s.influence_score);
-            },
-            height: (ele: NodeSingular) => {
-              const s = (ele.data() as { stakeholder: Stakeholder }).stakeholder;
-              return influenceSize(s.influence_score);
-            },
+            width: 'data(size)',
+            height: 'data(size)',
             'border-width': 4,
-            'border-color': (ele: NodeSingular) => {
-              const d = ele.data() as { company_id?: string };
-              return companyColorMap.get(d.company_id ?? '') ?? '#94a3b8';
-            },
+            'border-color': 'data(border_color)',
             'overlay-padding': 6,
             'overlay-opacity': 0,
           },
@@ -375,6 +734,34 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
             'overlay-color': '#059669',
           },
         },
+        // Collapsed companies around an org chart
+        {
+          selector: 'node.stub',
+          style: {
+            shape: 'round-rectangle',
+            width: 120,
+            height: 34,
+            'background-color': '#f8fafc',
+            'border-width': 1.5,
+            'border-style': 'dashed',
+            'border-color': '#94a3b8',
+            label: 'data(label)',
+            'text-valign': 'center',
+            'text-wrap': 'ellipsis',
+            'text-max-width': '110px',
+            'font-size': 11,
+            'font-family': 'Inter, sans-serif',
+            color: '#475569',
+          },
+        },
+        // Stakeholders won over in a what-if simulation
+        {
+          selector: 'node[?seed]',
+          style: {
+            'border-width': 6,
+            'border-color': '#f59e0b',
+          },
+        },
         // Dimmed nodes (focus mode)
         {
           selector: 'node.dimmed',
@@ -385,25 +772,21 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
         {
           selector: 'edge',
           style: {
-            width: (ele: cytoscape.EdgeSingular) => Math.max(1, (ele.data('strength') || 3) * 0.8),
+            width: 'data(width)',
             'target-arrow-shape': 'triangle',
             'curve-style': 'bezier',
-            'line-color': (ele: cytoscape.EdgeSingular) => {
-              const rt = ele.data('relation_type') as string;
-              return RELATION_COLORS[rt] || '#cbd5e1';
-            },
-            'target-arrow-color': (ele: cytoscape.EdgeSingular) => {
-              const rt = ele.data('relation_type') as string;
-              return RELATION_COLORS[rt] || '#cbd5e1';
-            },
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            'line-style': ((ele: cytoscape.EdgeSingular) => {
-              const rt = ele.data('relation_type') as string;
-              return RELATION_LINE_STYLE[rt] || 'solid';
-            }) as any,
+            'line-color': 'data(color)',
+            'target-arrow-color': 'data(color)',
+            'line-style': (ele: cytoscape.EdgeSingular) => ele.data('line_style') as cytoscape.Css.LineStyle,
             'line-opacity': 0.65,
           },
         },
+        {
+          selector: 'edge.stub',
+          style: {
+            'target-arrow-shape': 'none',
+          },
+        },
         {
           selector: 'edge:selected',
           style: {
@@ -420,6 +803,54 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
             opacity: 0.08,
           },
         },
+        // Level of detail: companies collapsed into aggregates …
+        {
+          selector: 'node.aggregate',
+          style: {
+            width: (ele: NodeSingular) => 60 + 30 * Math.sqrt(ele.data('count') as number),
+            height: (ele: NodeSingular) => 60 + 30 * Math.sqrt(ele.data('count') as number),
+            'background-color': 'data(color)',
+            'background-opacity': 0.85,
+            'border-width': 3,
+            'border-color': '#ffffff',
+            label: 'data(label)',
+            'text-valign': 'bottom',
+            'text-margin-y': 12,
+            'font-size': 36,
+            'font-family': 'Inter, sans-serif',
+            color: '#334155',
+            'text-outline-width': 6,
+            'text-outline-color': '#ffffff',
+          },
+        },
+        {
+          selector: 'edge.aggregate',
+          style: {
+            'target-arrow-shape': 'none',
+            'line-opacity': 0.35,
+            'curve-style': 'haystack',
+          },
+        },
+        // … and, less far out, people without labels and relationships without arrows
+        {
+          selector: 'node.lod-reduced',
+          style: {
+            label: '',
+          },
+        },
+        {
+          selector: 'edge.lod-reduced',
+          style: {
+            'target-arrow-shape': 'none',
+            'curve-style': 'haystack',
+          },
+        },
+        {
+          selector: '.lod-hidden',
+          style: {
+            display: 'none',
+          },
+        },
       ],
       layout: {
         name: 'preset',
@@ -429,60 +860,77 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
       userZoomingEnabled: true,
       userPanningEnabled: true,
       boxSelectionEnabled: false, // off by default; Shift+drag enables it
+      hideEdgesOnViewport: largeGraph,
+      textureOnViewport: largeGraph,
     });
 
-    cyRef.current = cy;
+    // Zoom-dependent level of detail; classes only change when the level does
+    detailRef.current = 'full';
+    cy.on('zoom', () => {
+      const level = detailLevel(cy.zoom(), cy.nodes('.aggregate').nonempty());
+      if (level === detailRef.current) return;
+      detailRef.current = level;
+      applyDetailLevel(cy, level);
+    });
 
     // Shift+drag = box-select, plain drag = pan
     function handleShiftDown(e: KeyboardEvent) {
-      if (e.key === 'Shift' && cyRef.current) {
-        cyRef.current.boxSelectionEnabled(true);
-        cyRef.current.panningEnabled(false);
+      if (e.key === 'Shift') {
+        cy.boxSelectionEnabled(true);
+        cy.panningEnabled(false);
       }
     }
     function handleShiftUp(e: KeyboardEvent) {
-      if (e.key === 'Shift' && cyRef.current) {
-        cyRef.current.boxSelectionEnabled(false);
-        cyRef.current.panningEnabled(true);
+      if (e.key === 'Shift') {
+        cy.boxSelectionEnabled(false);
+        cy.panningEnabled(true);
       }
     }
     document.addEventListener('keydown', handleShiftDown);
     document.addEventListener('keyup', handleShiftUp);
 
     // Node click — select + focus mode
-    cy.on('tap', 'node', (evt) => {
+    cy.on('tap', 'node[stakeholder]', (evt) => {
       const node = evt.target;
       const data = (node.data() as { stakeholder: Stakeholder }).stakeholder;
-      onNodeClick?.(data);
+      latest.current.onNodeClick?.(data);
 
       // Focus mode: highlight neighborhood
       const nodeId = node.id();
-      if (focusedNodeId === nodeId) {
+      if (focusRef.current === nodeId) {
         // Clicking same node again: exit focus
-        setFocusedNodeId(null);
+        focusRef.current = null;
         cy.elements().removeClass('dimmed');
       } else {
-        setFocusedNodeId(nodeId);
+        focusRef.current = nodeId;
         const neighborhood = node.neighborhood().add(node);
         cy.elements().addClass('dimmed');
         neighborhood.removeClass('dimmed');
       }
     });
 
+    cy.on('tap', 'node.stub', (evt) => {
+      latest.current.onCompanyStubClick?.(evt.target.data('company_stub') as string);
+    });
+
+    // Zooming in on a company aggregate brings its people back
+    cy.on('tap', 'node.aggregate', (evt) => {
+      cy.animate({ center: { eles: evt.target }, zoom: REDUCED_DETAIL_ZOOM, duration: 300 });
+    });
+
     // Click canvas background: exit focus
     cy.on('tap', (evt) => {
       if (evt.target === cy) {
-        setFocusedNodeId(null);
+        focusRef.current = null;
         cy.elements().removeClass('dimmed');
       }
     });
 
     // Node hover tooltip
-    cy.on('mouseover', 'node', (evt) => {
+    cy.on('mouseover', 'node[stakeholder]', (evt) => {
       const node = evt.target;
       const s = (node.data() as { stakeholder: Stakeholder }).stakeholder;
       const renderedPos = node.renderedPosition();
-      const container = containerRef.current!;
       const rect = container.getBoundingClientRect();
       setTooltip({
         x: rect.left + renderedPos.x,
@@ -500,13 +948,17 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
       const edge = evt.target;
       const rt = (edge.data('relation_type') as string || '').replace(/_/g, ' ');
       const strength = edge.data('strength') || '?';
+      const count = edge.data('count') as number;
       const mp = edge.renderedMidpoint();
-      const container = containerRef.current!;
       const rect = container.getBoundingClientRect();
       setEdgeTooltip({
         x: rect.left + mp.x,
         y: rect.top + mp.y,
-        label: `${rt} (${strength}/5)`,
+        label: edge.hasClass('aggregate')
+          ? edge.data('label') as string
+          : edge.hasClass('stub')
+            ? `${count} relationship${count > 1 ? 's' : ''} with ${edge.data('company_name')}`
+            : `${rt} (${strength}/5)`,
       });
     });
 
@@ -519,12 +971,12 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
     });
 
     // Right-click context menu
-    cy.on('cxttap', 'node', (evt) => {
+    cy.on('cxttap', 'node[stakeholder]', (evt) => {
       evt.originalEvent.preventDefault();
+      if (latest.current.locked) return;
       const node = evt.target;
       const s = (node.data() as { stakeholder: Stakeholder }).stakeholder;
       const renderedPos = node.renderedPosition();
-      const container = containerRef.current!;
       const rect = container.getBoundingClientRect();
       setContextMenu({
         x: rect.left + renderedPos.x,
@@ -536,8 +988,9 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
     cy.on('cxttap', 'edge', (evt) => {
       evt.originalEvent.preventDefault();
       const edge = evt.target;
+      // Every edge action edits
+      if (latest.current.readOnly || latest.current.locked || edge.hasClass('stub') || edge.hasClass('aggregate')) return;
       const mp = edge.renderedMidpoint();
-      const container = containerRef.current!;
       const rect = container.getBoundingClientRect();
       setContextMenu({
         x: rect.left + mp.x,
@@ -546,8 +999,9 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
       });
     });
 
-    // Save position on drag — handles single node and multi-select drag
-    cy.on('dragfree', 'node', async (evt) => {
+    // Save position on drag — handles single node and multi-select drag. The store's queue
+    // coalesces a burst of drags into one write.
+    cy.on('dragfree', 'node[stakeholder]', (evt) => {
       const node = evt.target;
       const selectedNodes = cy.nodes(':selected');
 
@@ -561,38 +1015,141 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
       const layoutsToUpsert = nodesToSave.map((n) => {
         const pos = (n as NodeSingular).position();
         return {
-          map_id: DEFAULT_MAP_ID,
+          map_id: latest.current.mapId,
           stakeholder_id: n.id(),
           x: pos.x,
           y: pos.y,
-          updated_at: new Date().toISOString(),
         };
       });
 
-      try {
-        const { error: upsertErr } = await supabase
-          .from('map_layouts')
-          .upsert(layoutsToUpsert, { onConflict: 'map_id,stakeholder_id' });
-        if (upsertErr) throw upsertErr;
-        onLayoutChange?.();
-      } catch (e) {
-        console.error('Failed to save layout:', e);
-      }
+      latest.current.queueLayouts(layoutsToUpsert);
+      latest.current.onLayoutChange?.();
     });
 
-    // Draw hulls on render/viewport changes
-    const redrawHulls = () => requestAnimationFrame(drawHulls);
+    // Draw hulls on render/viewport changes, at most once per interval so dragging stays smooth
+    let hullFrame = 0;
+    let hullTimer: ReturnType<typeof setTimeout> | undefined;
+    let lastHullDraw = 0;
+    const drawHullsNow = () => {
+      hullTimer = undefined;
+      hullFrame = requestAnimationFrame(() => {
+        hullFrame = 0;
+        lastHullDraw = performance.now();
+        latest.current.drawHulls();
+      });
+    };
+    const redrawHulls = () => {
+      if (hullFrame || hullTimer) return;
+      const wait = lastHullDraw + HULL_REDRAW_INTERVAL - performance.now();
+      if (wait > 0) hullTimer = setTimeout(drawHullsNow, wait);
+      else drawHullsNow();
+    };
     cy.on('render viewport', redrawHulls);
-    redrawHulls();
+    redrawHullsRef.current = redrawHulls;
 
-    return () => {
+    teardownRef.current = () => {
+      cancelAnimationFrame(hullFrame);
+      clearTimeout(hullTimer);
       cy.destroy();
       cyRef.current = null;
+      redrawHullsRef.current = null;
       document.removeEventListener('keydown', handleShiftDown);
       document.removeEventListener('keyup', handleShiftUp);
     };
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [stakeholders, relationships, layouts, layoutMap, onNodeClick, onLayoutChange, drawHulls]);
+    return cy;
+  }
+
+  // Applies each change to the live graph: only added, removed or changed elements are touched,
+  // so the viewport, selection and focus mode survive filtering and live updates
+  useEffect(() => {
+    const container = containerRef.current;
+    const { nodes, edges, placed } = canvasElements;
+    if (!container) return;
+    const targets = new Map(nodes.filter((d) => placed.has(d.data.id!)).map((d) => [d.data.id!, d.position!]));
+    let cy = cyRef.current;
+    const largeGraph = nodes.length + edges.length >= LARGE_GRAPH_ELEMENTS;
+    if (!cy) {
+      // Created with the first data, so large maps start out with the cheaper viewport rendering
+      if (nodes.length === 0) return;
+      cy = createGraph(container, [...nodes, ...edges]);
+      cyRef.current = cy;
+    } else if (largeGraph !== largeGraphRef.current) {
+      // Cytoscape reads the viewport rendering options only at creation, so a map that grew or
+      // shrank past the threshold starts a new instance where the old one left off
+      const old = cy;
+      const viewport = { zoom: old.zoom(), pan: { ...old.pan() } };
+      const carried = nodes.map((def) => {
+        const node = old.$id(def.data.id!);
+        const target = targets.get(def.data.id!);
+        const last = placedRef.current.get(def.data.id!);
+        const moved = target && (!last || last.x !== target.x || last.y !== target.y);
+        return node.nonempty() && !moved ? { ...def, position: { ...node.position() } } : def;
+      });
+      teardownRef.current?.();
+      cy = createGraph(container, [...carried, ...edges]);
+      cy.viewport(viewport);
+      cyRef.current = cy;
+    } else {
+      const live = cy;
+      live.batch(() => {
+        const wanted = new Set([...nodes, ...edges].map((d) => d.data.id));
+        live.elements().filter((ele) => !wanted.has(ele.id())).remove();
+
+        const addedNodes: cytoscape.ElementDefinition[] = [];
+        for (const def of nodes) {
+          const node = live.$id(def.data.id!);
+          if (node.empty()) {
+            addedNodes.push(def);
+            continue;
+          }
+          updateData(node, def.data);
+          // Only a position that changed since it was last applied moves a node, so unsaved drags stay put
+          const target = targets.get(def.data.id!);
+          const last = placedRef.current.get(def.data.id!);
+          if (target && (!last || last.x !== target.x || last.y !== target.y)) node.position(target);
+        }
+        live.add(addedNodes);
+
+        const addedEdges: cytoscape.ElementDefinition[] = [];
+        for (const def of edges) {
+          const edge = live.$id(def.data.id!);
+          if (edge.empty()) {
+            addedEdges.push(def);
+            continue;
+          }
+          updateData(edge, def.data);
+          if (edge.data('source') !== def.data.source || edge.data('target') !== def.data.target) {
+            edge.move({ source: def.data.source, target: def.data.target });
+          }
+        }
+        live.add(addedEdges);
+      });
+    }
+    placedRef.current = targets;
+
+    // Org chart positions are computed, so nothing there can be dragged
+    cy.autoungrabify(locked || !!orgChart);
+
+    detailRef.current = detailLevel(cy.zoom(), cy.nodes('.aggregate').nonempty());
+    applyDetailLevel(cy, detailRef.current);
+
+    cy.elements().removeClass('dimmed');
+    if (spotlight) {
+      const nodeIds = new Set(spotlight.nodeIds);
+      const edgeIds = spotlight.edgeIds && new Set(spotlight.edgeIds);
+      const lit = cy.nodes().filter((n) => nodeIds.has(n.id()));
+      cy.elements().addClass('dimmed');
+      lit.add(edgeIds ? cy.edges().filter((e) => edgeIds.has(e.id())) : lit.edgesWith(lit)).removeClass('dimmed');
+    } else if (focusRef.current) {
+      const focused = cy.$id(focusRef.current);
+      if (focused.nonempty()) {
+        cy.elements().addClass('dimmed');
+        focused.neighborhood().add(focused).removeClass('dimmed');
+      } else {
+        focusRef.current = null;
+      }
+    }
+  }, [canvasElements, spotlight, locked, orgChart]);
 
   function handleContextAction(action: string) {
     if (!contextMenu) return;
@@ -672,21 +1229,34 @@ export const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(funct
               </div>
               <button onClick={() => handleContextAction('edit')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">
                 <svg className="h-3.5 w-3.5 text-slate-400" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L6.832 19.82a4.5 4.5 0 01-1.897 1.13l-2.685.8.8-2.685a4.5 4.5 0 011.13-1.897L16.863 4.487z" /></svg>
-                Edit Stakeholder
-              </button>
-              <button onClick={() => handleContextAction('add-relationship')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">
-                <svg className="h-3.5 w-3.5 text-slate-400" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M13.19 8.688a4.5 4.5 0 011.242 7.244l-4.5 4.5a4.5 4.5 0 01-6.364-6.364l1.757-1.757m9.86-2.06a4.5 4.5 0 00-1.242-7.244l-4.5-4.5a4.5 4.5 0 00-6.364 6.364L4.343 8.28" /></svg>
-                Add Relationship
+                {readOnly ? 'View Stakeholder' : 'Edit Stakeholder'}
               </button>
+              {!readOnly && (
+                <button onClick={() => handleContextAction('add-relationship')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">
+                  <svg className="h-3.5 w-3.5 text-slate-400" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M13.19 8.688a4.5 4.5 0 011.242 7.244l-4.5 4.5a4.5 4.5 0 01-6.364-6.364l1.757-1.757m9.86-2.06a4.5 4.5 0 00-1.242-7.244l-4.5-4.5a4.5 4.5 0 00-6.364 6.364L4.343 8.28" /></svg>
+                  Add Relationship
+                </button>
+              )}
               <button onClick={() => handleContextAction('focus')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">
                 <svg className="h-3.5 w-3.5 text-slate-400" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M7.5 3.75H6A2.25 2.25 0 003.75 6v1.5M16.5 3.75H18A2.25 2.25 0 0120.25 6v1.5M20.25 16.5V18A2.25 2.25 0 0118 20.25h-1.5M3.75 16.5V18A2.25 2.25 0 006 20.25h1.5" /></svg>
                 Focus Network
               </button>
-              <div className="my-1 border-t border-gray-100" />
-              <button onClick={() => handleContextAction('archive')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-red-600 hover:bg-red-50">
-                <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M20.25 7.5l-.625 10.632a2.25 2.25 0 01-2.247 2.118H6.622a2.25 2.25 0 01-2.247-2.118L3.75 7.5m6 4.125l2.25 2.25m0 0l2.25 2.25M12 13.875l2.25-2.25M12 13.875l-2.25 2.25M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125z" /></svg>
-                Archive
-              </button>
+              {!readOnly && (
+                <>
+                  <div className="my-1 border-t border-gray-100" />
+                  {/* The default map shows everyone */}
+                  {mapId !== DEFAULT_MAP_ID && (
+                    <button onClick={() => handleContextAction('remove-from-map')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">
+                      <svg className="h-3.5 w-3.5 text-slate-400" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M15 12H9m12 0a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                      Remove from Map
+                    </button>
+                  )}
+                  <button onClick={() => handleContextAction('archive')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-red-600 hover:bg-red-50">
+                    <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M20.25 7.5l-.625 10.632a2.25 2.25 0 01-2.247 2.118H6.622a2.25 2.25 0 01-2.247-2.118L3.75 7.5m6 4.125l2.25 2.25m0 0l2.25 2.25M12 13.875l2.25-2.25M12 13.875l-2.25 2.25M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125z" /></svg>
+                    Archive
+                  </button>
+                </>
+              )}
             </>
           ) : contextMenu.edgeId ? (
             <>
@@ -0,0 +1,100 @@
+import { Fragment, useMemo } from 'react';
+import type { ConnectedOpponent } from '../../lib/graph';
+import type { Stakeholder } from '../../types/database';
+
+interface OpponentsPanelProps {
+  companies: { id: string; name: string }[];
+  stakeholders: Stakeholder[];
+  companyId: string;
+  hops: number;
+  opponents: ConnectedOpponent[];
+  onCompanyChange: (companyId: string) => void;
+  onHopsChange: (hops: number) => void;
+  onSelect: (stakeholder: Stakeholder) => void;
+  onClose: () => void;
+}
+
+const HOP_OPTIONS = [1, 2, 3, 4];
+
+/** Opponents within a few hops of a key account, with the relationships that connect them. */
+export function OpponentsPanel({
+  companies,
+  stakeholders,
+  companyId,
+  hops,
+  opponents,
+  onCompanyChange,
+  onHopsChange,
+  onSelect,
+  onClose,
+}: OpponentsPanelProps) {
+  const byId = useMemo(() => new Map(stakeholders.map((s) => [s.id, s])), [stakeholders]);
+  const nameOf = (id: string) => byId.get(id)?.full_name ?? 'Unknown';
+
+  return (
+    <div className="glass-card-solid p-5 fade-in">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-xs font-semibold uppercase tracking-wider text-red-500">Opponents Near Account</p>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="mb-3 flex gap-2">
+        <select
+          value={companyId}
+          onChange={(e) => onCompanyChange(e.target.value)}
+          className="min-w-0 flex-1 rounded border border-gray-200 bg-white px-2 py-1 text-xs text-slate-700"
+        >
+          <option value="">Select account…</option>
+          {companies.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+        <select
+          value={hops}
+          onChange={(e) => onHopsChange(+e.target.value)}
+          className="rounded border border-gray-200 bg-white px-2 py-1 text-xs text-slate-700"
+        >
+          {HOP_OPTIONS.map((n) => <option key={n} value={n}>≤ {n} hop{n > 1 ? 's' : ''}</option>)}
+        </select>
+      </div>
+
+      {!companyId ? (
+        <p className="text-xs text-slate-400">Pick an account to see where resistance comes from.</p>
+      ) : opponents.length === 0 ? (
+        <p className="text-xs text-slate-400">No opponents within {hops} hop{hops > 1 ? 's' : ''} of this account.</p>
+      ) : (
+        <ul className="space-y-3">
+          {opponents.map((o) => (
+            <li key={o.stakeholder.id}>
+              <div className="flex items-baseline justify-between gap-2">
+                <button onClick={() => onSelect(o.stakeholder)} className="truncate text-left text-sm font-medium text-red-700 hover:text-red-800">
+                  {o.stakeholder.full_name}
+                </button>
+                <span className="shrink-0 text-xs text-slate-400">
+                  {o.hops === 0 ? 'in account' : `${o.hops} hop${o.hops > 1 ? 's' : ''}`}
+                </span>
+              </div>
+              {o.steps.length > 0 && (
+                <p className="mt-0.5 text-xs leading-relaxed text-slate-500">
+                  <span className="text-slate-700">{nameOf(o.fromId)}</span>
+                  {o.steps.map((step) => {
+                    const forward = step.edge.to === step.id;
+                    const type = step.edge.type.replace(/_/g, ' ').toLowerCase();
+                    return (
+                      <Fragment key={step.edge.id}>
+                        <span className="mx-1 whitespace-nowrap text-slate-400">{step.edge.bidirectional ? `↔ ${type} ↔` : forward ? `—${type}→` : `←${type}—`}</span>
+                        <span className="text-slate-700">{nameOf(step.id)}</span>
+                      </Fragment>
+                    );
+                  })}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
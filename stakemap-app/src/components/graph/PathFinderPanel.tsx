@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_PATH_OPTIONS, findPaths } from '../../lib/graph';
+import type { FoundPath, PathOptions, StakeholderGraph } from '../../lib/graph';
+import type { RelationType, Stakeholder } from '../../types/database';
+
+const RELATION_TYPES: RelationType[] = [
+  'REPORTS_TO', 'PEER_OF', 'INFLUENCES', 'COLLABORATES_WITH', 'ADVISES', 'BLOCKS', 'SPONSORS', 'GATEKEEPER_FOR',
+];
+
+const K_OPTIONS = [1, 3, 5];
+
+interface PathFinderPanelProps {
+  graph: StakeholderGraph;
+  stakeholders: Stakeholder[];
+  /** The path to light up on the map, or null */
+  onHighlight: (path: FoundPath | null) => void;
+}
+
+/** Warm-introduction finder: the k best paths between two stakeholders under the chosen rules. */
+export function PathFinderPanel({ graph, stakeholders, onHighlight }: PathFinderPanelProps) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [options, setOptions] = useState<PathOptions>(DEFAULT_PATH_OPTIONS);
+  const [avoidBlocks, setAvoidBlocks] = useState(true);
+  const [avoidOpponents, setAvoidOpponents] = useState(false);
+  const [paths, setPaths] = useState<FoundPath[] | null>(null);
+  const [selected, setSelected] = useState(0);
+
+  // Nothing stays lit once the panel closes
+  useEffect(() => () => onHighlight(null), [onHighlight]);
+
+  const nameOf = (id: string) => stakeholders.find((s) => s.id === id)?.full_name ?? 'Unknown';
+
+  function update(patch: Partial<PathOptions>) {
+    setOptions((o) => ({ ...o, ...patch }));
+  }
+
+  function toggleType(type: RelationType) {
+    const types = options.relationTypes.includes(type)
+      ? options.relationTypes.filter((t) => t !== type)
+      : [...options.relationTypes, type];
+    update({ relationTypes: types });
+  }
+
+  function search() {
+    if (!from || !to) return;
+    const result = findPaths(graph, from, to, {
+      ...options,
+      excludeTypes: avoidBlocks ? ['BLOCKS'] : [],
+      avoidIds: new Set(avoidOpponents ? stakeholders.filter((s) => s.sentiment === 'OPPONENT').map((s) => s.id) : []),
+    });
+    setPaths(result);
+    setSelected(0);
+    onHighlight(result[0] ?? null);
+  }
+
+  function choose(index: number) {
+    setSelected(index);
+    onHighlight(paths?.[index] ?? null);
+  }
+
+  function clear() {
+    setFrom('');
+    setTo('');
+    setPaths(null);
+    onHighlight(null);
+  }
+
+  const selectClass = 'rounded border border-gray-200 bg-white px-2 py-1 text-xs text-slate-700 focus:outline-none focus:ring-1 focus:ring-emerald-400';
+  const checkboxClass = 'flex items-center gap-1 text-xs text-emerald-800';
+
+  return (
+    <div className="mb-3 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 fade-in">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-emerald-700">Find path from</span>
+        <select value={from} onChange={(e) => { setFrom(e.target.value); setPaths(null); }} className={selectClass}>
+          <option value="">Select stakeholder…</option>
+          {stakeholders.map((s) => <option key={s.id} value={s.id}>{s.full_name}</option>)}
+        </select>
+        <span className="text-xs font-medium text-emerald-700">to</span>
+        <select value={to} onChange={(e) => { setTo(e.target.value); setPaths(null); }} className={selectClass}>
+          <option value="">Select stakeholder…</option>
+          {stakeholders.filter((s) => s.id !== from).map((s) => <option key={s.id} value={s.id}>{s.full_name}</option>)}
+        </select>
+        <select value={options.k} onChange={(e) => update({ k: +e.target.value })} className={selectClass}>
+          {K_OPTIONS.map((k) => <option key={k} value={k}>{k === 1 ? 'Best path' : `${k} best paths`}</option>)}
+        </select>
+        <button onClick={search} disabled={!from || !to} className="btn-primary py-1 text-xs disabled:opacity-50">Find</button>
+        <button onClick={clear} className="btn-secondary py-1 text-xs">Clear</button>
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1">
+        <label className={checkboxClass}>
+          <input type="checkbox" checked={options.weighted} onChange={(e) => update({ weighted: e.target.checked })} />
+          Weigh by strength &amp; confidence
+        </label>
+        <label className={checkboxClass}>
+          <input type="checkbox" checked={options.directed} onChange={(e) => update({ directed: e.target.checked })} />
+          Follow direction
+        </label>
+        <label className={checkboxClass}>
+          <input type="checkbox" checked={avoidBlocks} onChange={(e) => setAvoidBlocks(e.target.checked)} />
+          Skip Blocks
+        </label>
+        <label className={checkboxClass}>
+          <input type="checkbox" checked={avoidOpponents} onChange={(e) => setAvoidOpponents(e.target.checked)} />
+          Avoid opponents
+        </label>
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-1">
+        <span className="mr-1 text-[11px] text-emerald-700">Only via:</span>
+        {RELATION_TYPES.map((type) => {
+          const on = options.relationTypes.includes(type);
+          return (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              className={`rounded-full border px-2 py-0.5 text-[10px] font-medium ${on ? 'border-emerald-500 bg-emerald-600 text-white' : 'border-emerald-200 bg-white text-emerald-700 hover:bg-emerald-100'}`}
+            >
+              {type.replace(/_/g, ' ')}
+            </button>
+          );
+        })}
+        {options.relationTypes.length === 0 && <span className="text-[11px] text-emerald-600">any relationship</span>}
+      </div>
+
+      {paths && paths.length === 0 && (
+        <p className="mt-2 text-xs text-red-500">No path found between these stakeholders with these rules.</p>
+      )}
+      {paths && paths.length > 0 && (
+        <ol className="mt-2 space-y-1">
+          {paths.map((path, i) => (
+            <li key={path.nodeIds.join('>')}>
+              <button
+                onClick={() => choose(i)}
+                className={`w-full rounded px-2 py-1 text-left text-xs ${i === selected ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-600 hover:bg-white/60'}`}
+              >
+                <span className="mr-2 font-semibold text-emerald-700">#{i + 1}</span>
+                <span className="mr-2 tabular-nums text-slate-400">{Math.round(path.score * 100)}% · {path.edges.length} hop{path.edges.length > 1 ? 's' : ''}</span>
+                {path.nodeIds.map((id, j) => (
+                  <span key={id}>
+                    {j > 0 && <span className="mx-1 text-slate-400">→</span>}
+                    {nameOf(id)}
+                  </span>
+                ))}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react';
+import { CENTRALITY_METRICS } from '../../lib/graph';
+import type { CentralityMetric, NodeCentrality } from '../../lib/graph';
+import type { Stakeholder } from '../../types/database';
+
+export type NodeSizing = 'influence' | CentralityMetric;
+export type NodeColoring = 'sentiment' | CentralityMetric;
+
+interface PowerCentersPanelProps {
+  stakeholders: Stakeholder[];
+  centrality: Map<string, NodeCentrality>;
+  sizing: NodeSizing;
+  coloring: NodeColoring;
+  onSizingChange: (sizing: NodeSizing) => void;
+  onColoringChange: (coloring: NodeColoring) => void;
+  onSelect: (stakeholder: Stakeholder) => void;
+}
+
+const COLLAPSED_ROWS = 8;
+
+function formatMetric(metric: CentralityMetric, value: number): string {
+  if (metric === 'degree') return String(value);
+  if (metric === 'pageRank') return `${(value * 100).toFixed(1)}%`;
+  return value.toFixed(2);
+}
+
+function byTypeTitle(c: NodeCentrality): string {
+  const lines = (label: string, byType: NodeCentrality['inByType']) =>
+    Object.entries(byType).map(([type, n]) => `${label} ${type.replace(/_/g, ' ').toLowerCase()}: ${n}`);
+  return [`In: ${c.inDegree} · Out: ${c.outDegree}`, ...lines('in', c.inByType), ...lines('out', c.outByType)].join('\n');
+}
+
+/** Stakeholders ranked by graph centrality, plus the node sizing and colouring choice. */
+export function PowerCentersPanel({
+  stakeholders,
+  centrality,
+  sizing,
+  coloring,
+  onSizingChange,
+  onColoringChange,
+  onSelect,
+}: PowerCentersPanelProps) {
+  const [sortBy, setSortBy] = useState<CentralityMetric>('pageRank');
+  const [expanded, setExpanded] = useState(false);
+
+  const rows = useMemo(
+    () => stakeholders
+      .map((s) => ({ stakeholder: s, c: centrality.get(s.id) }))
+      .filter((r): r is { stakeholder: Stakeholder; c: NodeCentrality } => !!r.c)
+      .sort((a, b) => b.c[sortBy] - a.c[sortBy] || a.stakeholder.full_name.localeCompare(b.stakeholder.full_name)),
+    [stakeholders, centrality, sortBy]
+  );
+  const shown = expanded ? rows : rows.slice(0, COLLAPSED_ROWS);
+
+  return (
+    <div className="glass-card-solid p-5 fade-in">
+      <p className="mb-3 text-xs font-semibold uppercase tracking-wider text-slate-400">Power Centers</p>
+
+      <div className="mb-3 grid grid-cols-2 gap-2">
+        <label className="text-[10px] font-medium uppercase text-slate-400">
+          Size by
+          <select
+            value={sizing}
+            onChange={(e) => onSizingChange(e.target.value as NodeSizing)}
+            className="mt-0.5 w-full rounded border border-gray-200 bg-white px-1.5 py-1 text-xs normal-case text-slate-700"
+          >
+            <option value="influence">Influence score</option>
+            {CENTRALITY_METRICS.map((m) => <option key={m.key} value={m.key}>{m.label}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] font-medium uppercase text-slate-400">
+          Colour by
+          <select
+            value={coloring}
+            onChange={(e) => onColoringChange(e.target.value as NodeColoring)}
+            className="mt-0.5 w-full rounded border border-gray-200 bg-white px-1.5 py-1 text-xs normal-case text-slate-700"
+          >
+            <option value="sentiment">Sentiment</option>
+            {CENTRALITY_METRICS.map((m) => <option key={m.key} value={m.key}>{m.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-[10px] uppercase text-slate-400">
+            <th className="pb-1 font-medium">Name</th>
+            {CENTRALITY_METRICS.map((m) => (
+              <th key={m.key} className="pb-1 text-right font-medium">
+                <button
+                  onClick={() => setSortBy(m.key)}
+                  title={m.description}
+                  className={sortBy === m.key ? 'text-slate-700' : 'hover:text-slate-600'}
+                >
+                  {m.short}
+                  {sortBy === m.key && ' ↓'}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {shown.map(({ stakeholder, c }) => (
+            <tr key={stakeholder.id} className="border-t border-gray-100">
+              <td className="max-w-[7rem] truncate py-1">
+                <button onClick={() => onSelect(stakeholder)} className="truncate text-left font-medium text-slate-700 hover:text-emerald-700">
+                  {stakeholder.full_name}
+                </button>
+              </td>
+              {CENTRALITY_METRICS.map((m) => (
+                <td
+                  key={m.key}
+                  title={m.key === 'degree' ? byTypeTitle(c) : undefined}
+                  className={`py-1 text-right tabular-nums ${sortBy === m.key ? 'text-slate-800' : 'text-slate-500'}`}
+                >
+                  {formatMetric(m.key, c[m.key])}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {rows.length > COLLAPSED_ROWS && (
+        <button onClick={() => setExpanded((v) => !v)} className="mt-2 text-xs font-medium text-emerald-600 hover:text-emerald-700">
+          {expanded ? 'Show fewer' : `Show all ${rows.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
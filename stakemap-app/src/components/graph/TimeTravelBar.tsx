@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from 'react';
+import { repo } from '../../lib/repository';
+import { SNAPSHOT_ENTITY_TYPES, snapshotAt, toPastGraph } from '../../lib/timeTravel';
+import type { GraphSnapshot, PastGraph } from '../../lib/timeTravel';
+import { useGraphStore } from '../../store/graphStore';
+import type { AuditEvent } from '../../types/database';
+
+const SPEEDS = [1, 2, 4];
+/** Delay between changes during playback at 1× */
+const STEP_MS = 800;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Props {
+  mapId: string;
+  /** Receives the graph as of the chosen moment, or null when showing the live map. */
+  onChange: (graph: PastGraph | null) => void;
+  onClose: () => void;
+}
+
+interface History {
+  live: GraphSnapshot;
+  liveAt: number;
+  events: AuditEvent[];
+  times: number[];
+}
+
+function toDateInput(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Date slider over the audit trail: rebuilds the map as of any past moment and plays the
+ * changes back. The live graph is captured when the bar opens.
+ */
+export function TimeTravelBar({ mapId, onChange, onClose }: Props) {
+  const [history, setHistory] = useState<History | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [at, setAt] = useState(() => Date.now());
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    let cancelled = false;
+    const state = useGraphStore.getState();
+    const live: GraphSnapshot = {
+      companies: state.companies,
+      stakeholders: state.stakeholders,
+      relationships: state.relationships,
+      memberIds: state.mapMembers[mapId] ?? [],
+    };
+    const liveAt = Date.now();
+    repo.audit.listForTypes(SNAPSHOT_ENTITY_TYPES)
+      .then((events) => {
+        if (cancelled) return;
+        setHistory({ live, liveAt, events, times: events.map((e) => Date.parse(e.changed_at)) });
+        setAt(liveAt);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load history');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mapId]);
+
+  const pastGraph = useMemo(() => {
+    if (!history || at >= history.liveAt) return null;
+    return toPastGraph(snapshotAt(history.live, history.events, mapId, at), at);
+  }, [history, mapId, at]);
+
+  useEffect(() => {
+    onChange(pastGraph);
+  }, [pastGraph, onChange]);
+
+  // Back to the live map when the bar closes
+  useEffect(() => () => onChange(null), [onChange]);
+
+  // Playback: step to the next change until the live state is reached
+  useEffect(() => {
+    if (!playing || !history) return;
+    const timer = setTimeout(() => {
+      const next = history.times.find((t) => t > at && t <= history.liveAt);
+      if (next === undefined) {
+        setAt(history.liveAt);
+        setPlaying(false);
+      } else {
+        setAt(next);
+      }
+    }, STEP_MS / speed);
+    return () => clearTimeout(timer);
+  }, [playing, history, at, speed]);
+
+  if (error) {
+    return (
+      <div className="mb-3 flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-600">
+        {error}
+        <button onClick={onClose} className="ml-auto text-slate-500 hover:text-slate-700">Close</button>
+      </div>
+    );
+  }
+  if (!history) {
+    return <div className="mb-3 rounded-lg border border-violet-200 bg-violet-50 px-3 py-2 text-xs text-violet-700">Loading history…</div>;
+  }
+
+  const { liveAt, times } = history;
+  // One second before the first recorded change shows the map before it
+  const min = times.length > 0 ? Math.min(times[0] - 1000, liveAt - 1000) : liveAt - DAY_MS;
+  const isLive = at >= liveAt;
+  const applied = times.filter((t) => t <= at).length;
+  const previous = [...times].reverse().find((t) => t <= at && t > min);
+  const next = times.find((t) => t > at && t <= liveAt);
+
+  function togglePlay() {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (isLive) setAt(min);
+    setPlaying(true);
+  }
+
+  function jumpToDate(value: string) {
+    if (!value) return;
+    // End of the chosen day, so that day's changes are included
+    const [y, m, d] = value.split('-').map(Number);
+    const endOfDay = new Date(y, m - 1, d, 23, 59, 59, 999).getTime();
+    setPlaying(false);
+    setAt(Math.max(min, Math.min(liveAt, endOfDay)));
+  }
+
+  const buttonClass = 'rounded border border-violet-200 bg-white px-2 py-1 text-xs text-violet-700 hover:bg-violet-100 disabled:opacity-40';
+
+  return (
+    <div className="mb-3 rounded-lg border border-violet-200 bg-violet-50 px-3 py-2 fade-in">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-violet-700">Time travel</span>
+        <button onClick={() => previous !== undefined && setAt(previous - 1)} disabled={previous === undefined || playing} className={buttonClass} title="Previous change">◀</button>
+        <button onClick={togglePlay} disabled={times.length === 0} className={buttonClass}>{playing ? 'Pause' : 'Play'}</button>
+        <button onClick={() => next !== undefined && setAt(next)} disabled={next === undefined || playing} className={buttonClass} title="Next change">▶</button>
+        <select value={speed} onChange={(e) => setSpeed(+e.target.value)} className="rounded border border-violet-200 bg-white px-1.5 py-1 text-xs text-violet-700">
+          {SPEEDS.map((s) => <option key={s} value={s}>{s}×</option>)}
+        </select>
+        <input
+          type="date"
+          value={toDateInput(at)}
+          min={toDateInput(min)}
+          max={toDateInput(liveAt)}
+          onChange={(e) => jumpToDate(e.target.value)}
+          className="rounded border border-violet-200 bg-white px-2 py-0.5 text-xs text-violet-700"
+        />
+        <span className="text-xs text-violet-700">
+          {isLive ? 'Live' : `As of ${new Date(at).toLocaleString()}`}
+          <span className="ml-1 text-violet-400">· {applied} of {times.length} changes</span>
+        </span>
+        <div className="ml-auto flex gap-2">
+          {!isLive && (
+            <button onClick={() => { setPlaying(false); setAt(liveAt); }} className={buttonClass}>Back to live</button>
+          )}
+          <button onClick={onClose} className={buttonClass}>Close</button>
+        </div>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={liveAt}
+        step={1000}
+        value={Math.min(at, liveAt)}
+        onChange={(e) => { setPlaying(false); setAt(+e.target.value); }}
+        className="mt-2 w-full accent-violet-600"
+      />
+      {!isLive && <p className="mt-1 text-[11px] text-violet-500">Read-only view rebuilt from the audit trail. Changes made before auditing began are not shown.</p>}
+    </div>
+  );
+}
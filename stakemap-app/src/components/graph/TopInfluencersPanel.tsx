@@ -0,0 +1,63 @@
+import { INFLUENCER_WEIGHTS } from '../../lib/graph';
+import type { InfluencerScore } from '../../lib/graph';
+import type { Stakeholder } from '../../types/database';
+
+interface TopInfluencersPanelProps {
+  ranking: InfluencerScore[];
+  limit: number;
+  onLimitChange: (limit: number) => void;
+  onSelect: (stakeholder: Stakeholder) => void;
+  onClose: () => void;
+}
+
+const LIMITS = [3, 5, 10, 20];
+
+/** The top of the influencer ranking, with why each person scored highly. */
+export function TopInfluencersPanel({ ranking, limit, onLimitChange, onSelect, onClose }: TopInfluencersPanelProps) {
+  return (
+    <div className="glass-card-solid p-5 fade-in">
+      <div className="mb-3 flex items-center justify-between">
+        <p className="text-xs font-semibold uppercase tracking-wider text-slate-400">Top Influencers</p>
+        <div className="flex items-center gap-2">
+          <select
+            value={limit}
+            onChange={(e) => onLimitChange(+e.target.value)}
+            className="rounded border border-gray-200 bg-white px-1.5 py-0.5 text-xs text-slate-700"
+          >
+            {LIMITS.map((n) => <option key={n} value={n}>Top {n}</option>)}
+          </select>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+      <p className="mb-3 text-[11px] text-slate-400">Influence rating, seniority and network position of the stakeholders in view.</p>
+
+      <ol className="space-y-2.5">
+        {ranking.slice(0, limit).map((entry, i) => (
+          <li key={entry.stakeholder.id} className="flex gap-2.5">
+            <span className="mt-0.5 w-4 shrink-0 text-right text-xs font-semibold text-slate-400">{i + 1}</span>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-baseline justify-between gap-2">
+                <button onClick={() => onSelect(entry.stakeholder)} className="truncate text-left text-sm font-medium text-slate-700 hover:text-emerald-700">
+                  {entry.stakeholder.full_name}
+                </button>
+                <span className="shrink-0 text-xs tabular-nums text-slate-500">{Math.round(entry.score * 100)}</span>
+              </div>
+              <div className="mt-1 flex h-1 overflow-hidden rounded-full bg-gray-100" title="Influence · seniority · network">
+                <div className="bg-emerald-500" style={{ width: `${entry.influence * INFLUENCER_WEIGHTS.influence * 100}%` }} />
+                <div className="bg-violet-400" style={{ width: `${entry.seniority * INFLUENCER_WEIGHTS.seniority * 100}%` }} />
+                <div className="bg-blue-400" style={{ width: `${entry.centrality * INFLUENCER_WEIGHTS.centrality * 100}%` }} />
+              </div>
+              {entry.reasons.length > 0 && (
+                <p className="mt-1 text-xs text-slate-500">{entry.reasons.join(' · ')}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useMemo, useState } from 'react';
+import { simulateInfluence } from '../../lib/graph';
+import type { SentimentValues, StakeholderGraph } from '../../lib/graph';
+import type { Stakeholder } from '../../types/database';
+
+const SENTIMENT_LABEL: Record<string, string> = {
+  ALLY: 'Ally', NEUTRAL: 'Neutral', OPPONENT: 'Opponent', UNKNOWN: 'Unknown',
+};
+
+const SENTIMENT_TEXT: Record<string, string> = {
+  ALLY: 'text-emerald-700', NEUTRAL: 'text-slate-600', OPPONENT: 'text-red-700', UNKNOWN: 'text-amber-700',
+};
+
+const MAX_STEPS = 10;
+
+interface WhatIfPanelProps {
+  graph: StakeholderGraph;
+  stakeholders: Stakeholder[];
+  /** Predicted sentiment to draw over the map, or null */
+  onOverlay: (overlay: { values: SentimentValues; seedIds: string[] } | null) => void;
+  onSelect: (stakeholder: Stakeholder) => void;
+}
+
+/** Influence what-if: win some stakeholders over and see how sentiment could spread. Nothing is saved. */
+export function WhatIfPanel({ graph, stakeholders, onOverlay, onSelect }: WhatIfPanelProps) {
+  const [seedIds, setSeedIds] = useState<string[]>([]);
+  const [stepCount, setStepCount] = useState(5);
+  const [viewStep, setViewStep] = useState(5);
+
+  const result = useMemo(
+    () => (seedIds.length > 0 ? simulateInfluence(graph, stakeholders, seedIds, stepCount) : null),
+    [graph, stakeholders, seedIds, stepCount]
+  );
+  const shownStep = Math.min(viewStep, stepCount);
+  const overlay = useMemo(
+    () => (result ? { values: result.steps[shownStep], seedIds } : null),
+    [result, shownStep, seedIds]
+  );
+
+  useEffect(() => {
+    onOverlay(overlay);
+  }, [overlay, onOverlay]);
+
+  // The real sentiments come back once the panel closes
+  useEffect(() => () => onOverlay(null), [onOverlay]);
+
+  const byId = new Map(stakeholders.map((s) => [s.id, s]));
+  const candidates = stakeholders.filter((s) => !seedIds.includes(s.id));
+
+  const selectClass = 'rounded border border-amber-200 bg-white px-2 py-1 text-xs text-slate-700';
+
+  return (
+    <div className="mb-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 fade-in">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-amber-800">What if we win over</span>
+        {seedIds.map((id) => (
+          <span key={id} className="flex items-center gap-1 rounded-full bg-amber-200 px-2 py-0.5 text-xs font-medium text-amber-900">
+            {byId.get(id)?.full_name ?? 'Unknown'}
+            <button onClick={() => setSeedIds((ids) => ids.filter((x) => x !== id))} className="text-amber-700 hover:text-amber-900" title="Remove">×</button>
+          </span>
+        ))}
+        <select
+          value=""
+          onChange={(e) => e.target.value && setSeedIds((ids) => [...ids, e.target.value])}
+          className={selectClass}
+        >
+          <option value="">{seedIds.length === 0 ? 'Select stakeholder…' : 'Add another…'}</option>
+          {candidates.map((s) => <option key={s.id} value={s.id}>{s.full_name}</option>)}
+        </select>
+        <span className="text-xs text-amber-800">over</span>
+        <select
+          value={stepCount}
+          onChange={(e) => { setStepCount(+e.target.value); setViewStep(+e.target.value); }}
+          className={selectClass}
+        >
+          {Array.from({ length: MAX_STEPS }, (_, i) => i + 1).map((n) => <option key={n} value={n}>{n} step{n > 1 ? 's' : ''}</option>)}
+        </select>
+        {seedIds.length > 0 && (
+          <button onClick={() => setSeedIds([])} className="ml-auto text-xs text-amber-700 hover:text-amber-900">Reset</button>
+        )}
+      </div>
+
+      {result && (
+        <>
+          <div className="mt-2 flex items-center gap-2">
+            <span className="w-14 text-[11px] text-amber-700">Step {shownStep}</span>
+            <input
+              type="range"
+              min={0}
+              max={stepCount}
+              value={shownStep}
+              onChange={(e) => setViewStep(+e.target.value)}
+              className="flex-1 accent-amber-600"
+            />
+          </div>
+          {result.shifts.length === 0 ? (
+            <p className="mt-1 text-xs text-amber-800">No one else is predicted to change sides.</p>
+          ) : (
+            <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1">
+              <span className="text-[11px] text-amber-700">After {stepCount} step{stepCount > 1 ? 's' : ''}:</span>
+              {result.shifts.map((shift) => (
+                <button key={shift.stakeholder.id} onClick={() => onSelect(shift.stakeholder)} className="text-xs hover:underline">
+                  <span className="font-medium text-slate-700">{shift.stakeholder.full_name}</span>{' '}
+                  <span className={SENTIMENT_TEXT[shift.stakeholder.sentiment]}>{SENTIMENT_LABEL[shift.stakeholder.sentiment]}</span>
+                  <span className="text-slate-400"> → </span>
+                  <span className={SENTIMENT_TEXT[shift.predicted]}>{SENTIMENT_LABEL[shift.predicted]}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <p className="mt-1 text-[11px] text-amber-600">Prediction only; nothing is saved. Influence flows along Influences, Advises, Sponsors and reporting lines.</p>
+        </>
+      )}
+    </div>
+  );
+}
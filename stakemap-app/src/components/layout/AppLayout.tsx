@@ -1,4 +1,6 @@
 import { Outlet, NavLink } from 'react-router-dom';
+import { MapPicker } from '../maps/MapPicker';
+import { UserMenu } from './UserMenu';
 
 export function AppLayout() {
   return (
@@ -16,8 +18,7 @@ export function AppLayout() {
           </NavLink>
           <div className="flex items-center gap-1">
             <NavLink
-              to="/"
-              end
+              to="/maps"
               className={({ isActive }) =>
                 isActive ? 'nav-pill-active' : 'nav-pill-inactive'
               }
@@ -48,6 +49,18 @@ export function AppLayout() {
             >
               Audit Log
             </NavLink>
+            <NavLink
+              to="/data-quality"
+              className={({ isActive }) =>
+                isActive ? 'nav-pill-active' : 'nav-pill-inactive'
+              }
+            >
+              Data Quality
+            </NavLink>
+          </div>
+          <div className="ml-auto flex items-center gap-3">
+            <MapPicker />
+            <UserMenu />
           </div>
         </div>
       </nav>
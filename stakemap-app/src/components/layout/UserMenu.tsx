@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuthStore } from '../../store/authStore';
+
+const ROLE_BADGE: Record<string, string> = {
+  admin: 'bg-violet-100 text-violet-700',
+  editor: 'bg-emerald-100 text-emerald-700',
+  viewer: 'bg-slate-100 text-slate-600',
+};
+
+/** Signed-in user's email and role, with sign-out. */
+export function UserMenu() {
+  const user = useAuthStore((s) => s.user);
+  const signOut = useAuthStore((s) => s.signOut);
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    function handleClick(e: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    }
+    if (open) {
+      document.addEventListener('mousedown', handleClick);
+      return () => document.removeEventListener('mousedown', handleClick);
+    }
+  }, [open]);
+
+  if (!user) return null;
+
+  async function handleSignOut() {
+    setOpen(false);
+    try {
+      await signOut();
+      navigate('/sign-in');
+    } catch (e) {
+      window.alert(e instanceof Error ? e.message : 'Failed to sign out');
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="flex h-8 w-8 items-center justify-center rounded-full bg-slate-800 text-xs font-semibold uppercase text-white transition hover:bg-slate-700"
+        title={user.email}
+      >
+        {user.email.charAt(0) || '?'}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full z-50 mt-1.5 w-56 rounded-xl border border-gray-200 bg-white py-1 shadow-lg fade-in">
+          <div className="px-3 py-2">
+            <p className="truncate text-xs font-medium text-slate-900">{user.email}</p>
+            <span className={`mt-1 inline-block rounded-full px-2 py-0.5 text-[10px] font-semibold capitalize ${ROLE_BADGE[user.role]}`}>
+              {user.role}
+            </span>
+          </div>
+          <div className="my-1 border-t border-gray-100" />
+          <button onClick={handleSignOut} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">
+            Sign out
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+
+interface Candidate {
+  id: string;
+  full_name: string;
+  company_name: string;
+}
+
+interface MapMembersPickerProps {
+  candidates: Candidate[];
+  members: Set<string>;
+  onAdd: (ids: string[]) => void;
+  onRemove: (ids: string[]) => void;
+}
+
+/** Dropdown for choosing which stakeholders appear on the current map. */
+export function MapMembersPicker({ candidates, members, onAdd, onRemove }: MapMembersPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  const filtered = useMemo(() => {
+    if (!search.trim()) return candidates;
+    const q = search.toLowerCase();
+    return candidates.filter(
+      (c) => c.full_name.toLowerCase().includes(q) || c.company_name.toLowerCase().includes(q)
+    );
+  }, [candidates, search]);
+
+  // Close on outside click
+  useEffect(() => {
+    function handleClick(e: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    }
+    if (open) {
+      document.addEventListener('mousedown', handleClick);
+      return () => document.removeEventListener('mousedown', handleClick);
+    }
+  }, [open]);
+
+  // Focus search on open
+  useEffect(() => {
+    if (open) searchRef.current?.focus();
+  }, [open]);
+
+  function toggle(id: string) {
+    if (members.has(id)) onRemove([id]);
+    else onAdd([id]);
+  }
+
+  function addAllShown() {
+    onAdd(filtered.filter((c) => !members.has(c.id)).map((c) => c.id));
+  }
+
+  function removeAllShown() {
+    onRemove(filtered.filter((c) => members.has(c.id)).map((c) => c.id));
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="btn-secondary py-1.5 text-xs"
+      >
+        <svg className="mr-1.5 h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 7.5v3m0 0v3m0-3h3m-3 0h-3m-2.25-4.125a3.375 3.375 0 11-6.75 0 3.375 3.375 0 016.75 0zM4 19.235v-.11a6.375 6.375 0 0112.75 0v.109A12.318 12.318 0 0110.374 21c-2.331 0-4.512-.645-6.374-1.766z" />
+        </svg>
+        On map: {members.size}
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full z-50 mt-1.5 w-72 rounded-xl border border-gray-200 bg-white shadow-lg fade-in">
+          {/* Search */}
+          <div className="border-b border-gray-100 p-2">
+            <input
+              ref={searchRef}
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search stakeholders..."
+              className="w-full rounded-lg border border-gray-200 bg-gray-50 px-2.5 py-1.5 text-xs text-slate-900 placeholder:text-slate-400 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/20"
+            />
+          </div>
+
+          {/* Quick actions */}
+          <div className="flex gap-2 border-b border-gray-100 px-3 py-1.5">
+            <button
+              onClick={addAllShown}
+              className="text-xs font-medium text-emerald-600 hover:text-emerald-700"
+            >
+              Add all shown
+            </button>
+            <span className="text-xs text-slate-300">|</span>
+            <button
+              onClick={removeAllShown}
+              className="text-xs font-medium text-slate-500 hover:text-slate-700"
+            >
+              Remove all shown
+            </button>
+          </div>
+
+          {/* Stakeholder list */}
+          <div className="max-h-64 overflow-y-auto p-1">
+            {filtered.length === 0 ? (
+              <p className="px-3 py-2 text-xs text-slate-400">No stakeholders match</p>
+            ) : (
+              filtered.map((c) => (
+                <label
+                  key={c.id}
+                  className="flex cursor-pointer items-center gap-2.5 rounded-lg px-2.5 py-1.5 transition-colors hover:bg-gray-50"
+                >
+                  <input
+                    type="checkbox"
+                    checked={members.has(c.id)}
+                    onChange={() => toggle(c.id)}
+                    className="h-3.5 w-3.5 rounded border-gray-300 text-emerald-600 focus:ring-emerald-500/20"
+                  />
+                  <span className="flex-1 truncate text-xs font-medium text-slate-700">{c.full_name}</span>
+                  <span className="truncate text-[10px] text-slate-400">{c.company_name}</span>
+                </label>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
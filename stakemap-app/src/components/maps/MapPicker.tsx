@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMatch, useNavigate } from 'react-router-dom';
+import { listMaps, createMap, renameMap, duplicateMap, deleteMap } from '../../lib/maps';
+import { DEFAULT_MAP_ID } from '../../lib/constants';
+import { useAuthStore, useCanEdit } from '../../store/authStore';
+import type { Map as StakeMap } from '../../types/database';
+
+/** Nav dropdown for switching between maps and creating / renaming / duplicating / deleting them. */
+export function MapPicker() {
+  const match = useMatch('/maps/:id');
+  const currentId = match?.params.id ?? null;
+  const navigate = useNavigate();
+  const canEdit = useCanEdit();
+  const [maps, setMaps] = useState<StakeMap[]>([]);
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  async function fetchMaps() {
+    try {
+      setMaps(await listMaps());
+    } catch (e) {
+      console.error('Failed to load maps:', e);
+    }
+  }
+
+  useEffect(() => {
+    fetchMaps();
+  }, []);
+
+  // Close on outside click
+  useEffect(() => {
+    function handleClick(e: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    }
+    if (open) {
+      document.addEventListener('mousedown', handleClick);
+      return () => document.removeEventListener('mousedown', handleClick);
+    }
+  }, [open]);
+
+  const current = maps.find((m) => m.id === currentId) ?? null;
+
+  async function run(action: () => Promise<void>, failure: string) {
+    setBusy(true);
+    try {
+      await action();
+      await fetchMaps();
+    } catch (e) {
+      window.alert(e instanceof Error ? e.message : failure);
+    } finally {
+      setBusy(false);
+      setOpen(false);
+    }
+  }
+
+  function handleCreate() {
+    const name = window.prompt('Name for the new map', 'Untitled map')?.trim();
+    if (!name) return;
+    run(async () => {
+      const map = await createMap(name);
+      navigate(`/maps/${map.id}`);
+    }, 'Failed to create map');
+  }
+
+  function handleRename() {
+    if (!current) return;
+    const name = window.prompt('Rename map', current.name)?.trim();
+    if (!name || name === current.name) return;
+    run(() => renameMap(current.id, name), 'Failed to rename map');
+  }
+
+  function handleDuplicate() {
+    if (!current) return;
+    const name = window.prompt('Name for the copy', `${current.name} (copy)`)?.trim();
+    if (!name) return;
+    run(async () => {
+      const map = await duplicateMap(current.id, name, useAuthStore.getState().user?.id);
+      navigate(`/maps/${map.id}`);
+    }, 'Failed to duplicate map');
+  }
+
+  function handleDelete() {
+    if (!current) return;
+    if (!window.confirm(`Delete "${current.name}"? Its saved layout is removed; stakeholders are kept.`)) return;
+    run(async () => {
+      await deleteMap(current.id);
+      navigate(`/maps/${DEFAULT_MAP_ID}`);
+    }, 'Failed to delete map');
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        disabled={busy}
+        className="flex items-center gap-1.5 rounded-lg border border-gray-200 bg-white px-3 py-1 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-gray-50 disabled:opacity-50"
+      >
+        <span className="max-w-40 truncate">{current?.name ?? 'Select map'}</span>
+        <svg className="h-3 w-3 text-slate-400" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full z-50 mt-1.5 w-60 rounded-xl border border-gray-200 bg-white py-1 shadow-lg fade-in">
+          <p className="px-3 py-1 text-[10px] font-semibold uppercase tracking-wider text-slate-400">Maps</p>
+          <div className="max-h-56 overflow-y-auto">
+            {maps.map((m) => (
+              <button
+                key={m.id}
+                onClick={() => { setOpen(false); navigate(`/maps/${m.id}`); }}
+                className={`flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs hover:bg-gray-50 ${m.id === currentId ? 'font-semibold text-emerald-700' : 'text-slate-700'}`}
+              >
+                <span className="flex-1 truncate">{m.name}</span>
+                {m.id === DEFAULT_MAP_ID && <span className="text-[10px] text-slate-400">default</span>}
+              </button>
+            ))}
+          </div>
+          {canEdit && (
+            <>
+              <div className="my-1 border-t border-gray-100" />
+              <button onClick={handleCreate} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">New map…</button>
+            </>
+          )}
+          {canEdit && current && (
+            <>
+              <button onClick={handleRename} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">Rename…</button>
+              <button onClick={handleDuplicate} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">Duplicate…</button>
+              {current.id !== DEFAULT_MAP_ID && (
+                <button onClick={handleDelete} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-red-600 hover:bg-red-50">Delete</button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
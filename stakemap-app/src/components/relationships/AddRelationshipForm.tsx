@@ -1,7 +1,6 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '../../lib/supabase';
-import type { Stakeholder } from '../../types/database';
-import type { Company } from '../../types/database';
+import { selectActiveStakeholders, selectRelationships, useGraphStore } from '../../store/graphStore';
+import { checkReportingLine } from '../../lib/graph';
 import type { RelationType } from '../../types/database';
 
 const RELATION_TYPES: RelationType[] = [
@@ -21,7 +20,10 @@ interface AddRelationshipFormProps {
 }
 
 export function AddRelationshipForm({ onAdded, fromStakeholderId }: AddRelationshipFormProps) {
-  const [stakeholders, setStakeholders] = useState<(Stakeholder & { companies: Company })[]>([]);
+  const stakeholders = useGraphStore(selectActiveStakeholders);
+  const relationships = useGraphStore(selectRelationships);
+  const loadStore = useGraphStore((s) => s.load);
+  const createRelationship = useGraphStore((s) => s.createRelationship);
   const [fromId, setFromId] = useState(fromStakeholderId || '');
   const [toId, setToId] = useState('');
   const [relationType, setRelationType] = useState<RelationType>('COLLABORATES_WITH');
@@ -31,20 +33,15 @@ export function AddRelationshipForm({ onAdded, fromStakeholderId }: AddRelations
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    async function load() {
-      const { data } = await supabase
-        .from('stakeholders')
-        .select('*, companies(name)')
-        .eq('status', 'active')
-        .order('full_name');
-      setStakeholders((data as (Stakeholder & { companies: Company })[]) || []);
-    }
-    load();
-  }, []);
+    loadStore();
+  }, [loadStore]);
 
-  useEffect(() => {
+  // Follow the preselected stakeholder when the parent changes it
+  const [prevFromStakeholderId, setPrevFromStakeholderId] = useState(fromStakeholderId);
+  if (fromStakeholderId !== prevFromStakeholderId) {
+    setPrevFromStakeholderId(fromStakeholderId);
     if (fromStakeholderId) setFromId(fromStakeholderId);
-  }, [fromStakeholderId]);
+  }
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -53,8 +50,16 @@ export function AddRelationshipForm({ onAdded, fromStakeholderId }: AddRelations
       setError('Select different From and To stakeholders.');
       return;
     }
+    if (relationType === 'REPORTS_TO') {
+      const { errors, warnings } = checkReportingLine({ from: fromId, to: toId }, stakeholders, relationships);
+      if (errors.length > 0) {
+        setError(errors.join(' '));
+        return;
+      }
+      if (warnings.length > 0 && !window.confirm(`${warnings.join('\n')}\n\nAdd this reporting line anyway?`)) return;
+    }
     try {
-      const { error: err } = await supabase.from('relationships').insert({
+      await createRelationship({
         from_stakeholder_id: fromId,
         to_stakeholder_id: toId,
         relation_type: relationType,
@@ -62,7 +67,6 @@ export function AddRelationshipForm({ onAdded, fromStakeholderId }: AddRelations
         directionality,
         sentiment_impact: sentimentImpact,
       });
-      if (err) throw err;
       setFromId(fromStakeholderId || '');
       setToId('');
       onAdded?.();
@@ -86,7 +90,7 @@ export function AddRelationshipForm({ onAdded, fromStakeholderId }: AddRelations
           <option value="">Select stakeholder</option>
           {stakeholders.map((s) => (
             <option key={s.id} value={s.id}>
-              {s.full_name} ({(s.companies as Company)?.name ?? '?'})
+              {s.full_name} ({s.companies?.name ?? '?'})
             </option>
           ))}
         </select>
@@ -102,7 +106,7 @@ export function AddRelationshipForm({ onAdded, fromStakeholderId }: AddRelations
           <option value="">Select stakeholder</option>
           {stakeholders.filter((s) => s.id !== fromId).map((s) => (
             <option key={s.id} value={s.id}>
-              {s.full_name} ({(s.companies as Company)?.name ?? '?'})
+              {s.full_name} ({s.companies?.name ?? '?'})
             </option>
           ))}
         </select>
@@ -1,6 +1,8 @@
 import { useState, useRef } from 'react';
 import Papa from 'papaparse';
-import { supabase } from '../../lib/supabase';
+import { repo } from '../../lib/repository';
+import { useGraphStore } from '../../store/graphStore';
+import { useCanEdit } from '../../store/authStore';
 import { downloadCsvTemplate } from '../../lib/csvTemplate';
 import type { SentimentType, SeniorityLevel } from '../../types/database';
 
@@ -16,6 +18,9 @@ export function CsvImport({ onImportComplete }: CsvImportProps) {
   const [result, setResult] = useState<{ imported: number; created: number; errors: string[] } | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const createCompany = useGraphStore((s) => s.createCompany);
+  const createStakeholder = useGraphStore((s) => s.createStakeholder);
+  const canEdit = useCanEdit();
 
   function normalizeColumnKey(header: string): string {
     const trimmed = header.trim();
@@ -122,16 +127,14 @@ export function CsvImport({ onImportComplete }: CsvImportProps) {
         try {
           let companyId = companyCache.get((data.company as string).toLowerCase());
           if (!companyId) {
-            const { data: existing } = await supabase.from('companies').select('id').ilike('name', (data.company as string).trim()).limit(1).maybeSingle();
-            if (existing?.id) {
-              companyId = existing.id as string;
+            const existing = await repo.companies.findByName(data.company as string);
+            if (existing) {
+              companyId = existing.id;
               companyCache.set(String(data.company).toLowerCase(), companyId);
             } else {
               const companyName = String(data.company).trim();
-              const { data: created, error: insertErr } = await supabase.from('companies').insert({ name: companyName }).select('id').single();
-              if (insertErr) throw insertErr;
-              if (!created?.id) throw new Error('Failed to create company');
-              companyId = created.id as string;
+              const created = await createCompany({ name: companyName });
+              companyId = created.id;
               companyCache.set(companyName.toLowerCase(), companyId);
               companiesCreated++;
             }
@@ -142,7 +145,7 @@ export function CsvImport({ onImportComplete }: CsvImportProps) {
             continue;
           }
 
-          const { error: stakeErr } = await supabase.from('stakeholders').insert({
+          await createStakeholder({
             company_id: companyId,
             full_name: data.full_name as string,
             title: data.title as string | null,
@@ -152,7 +155,6 @@ export function CsvImport({ onImportComplete }: CsvImportProps) {
             sentiment: data.sentiment as SentimentType,
             sentiment_confidence: data.sentiment_confidence as number,
           });
-          if (stakeErr) throw stakeErr;
           imported++;
         } catch (e) {
           errors.push(`Row ${i + 2}: ${e instanceof Error ? e.message : 'Import failed'}`);
@@ -186,6 +188,9 @@ export function CsvImport({ onImportComplete }: CsvImportProps) {
     e.target.value = '';
   }
 
+  // Importing creates companies and stakeholders, so viewers don't get the panel at all
+  if (!canEdit) return null;
+
   return (
     <div className="space-y-3">
       <div className="flex flex-wrap items-center gap-3">
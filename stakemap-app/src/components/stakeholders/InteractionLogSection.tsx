@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '../../lib/supabase';
+import { repo } from '../../lib/repository';
+import { useCanEdit } from '../../store/authStore';
 import type { InteractionLog } from '../../types/database';
 
 const CHANNEL_OPTIONS = ['email', 'call', 'meeting', 'message', 'other'];
@@ -9,6 +10,7 @@ interface Props {
 }
 
 export function InteractionLogSection({ stakeholderId }: Props) {
+  const canEdit = useCanEdit();
   const [logs, setLogs] = useState<InteractionLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
@@ -22,13 +24,13 @@ export function InteractionLogSection({ stakeholderId }: Props) {
   });
 
   async function fetchLogs() {
-    const { data } = await supabase
-      .from('interaction_logs')
-      .select('*')
-      .eq('stakeholder_id', stakeholderId)
-      .order('interaction_date', { ascending: false });
-    setLogs((data as InteractionLog[]) || []);
-    setLoading(false);
+    try {
+      setLogs(await repo.interactionLogs.listForStakeholder(stakeholderId));
+    } catch (e) {
+      console.error('Failed to load interaction logs:', e);
+    } finally {
+      setLoading(false);
+    }
   }
 
   useEffect(() => {
@@ -40,7 +42,7 @@ export function InteractionLogSection({ stakeholderId }: Props) {
     if (!form.summary.trim()) return;
     setSaving(true);
     try {
-      const { error } = await supabase.from('interaction_logs').insert({
+      await repo.interactionLogs.create({
         stakeholder_id: stakeholderId,
         interaction_date: form.interaction_date,
         channel: form.channel || null,
@@ -48,7 +50,6 @@ export function InteractionLogSection({ stakeholderId }: Props) {
         outcome: form.outcome.trim() || null,
         next_action: form.next_action.trim() || null,
       });
-      if (error) throw error;
       setForm({ interaction_date: new Date().toISOString().slice(0, 10), channel: 'meeting', summary: '', outcome: '', next_action: '' });
       setShowForm(false);
       await fetchLogs();
@@ -61,7 +62,11 @@ export function InteractionLogSection({ stakeholderId }: Props) {
 
   async function deleteEntry(id: string) {
     if (!window.confirm('Delete this interaction log entry?')) return;
-    await supabase.from('interaction_logs').delete().eq('id', id);
+    try {
+      await repo.interactionLogs.remove(id);
+    } catch (e) {
+      console.error('Failed to delete interaction log:', e);
+    }
     await fetchLogs();
   }
 
@@ -69,9 +74,11 @@ export function InteractionLogSection({ stakeholderId }: Props) {
     <div className="mt-6">
       <div className="mb-3 flex items-center justify-between">
         <h3 className="text-sm font-semibold text-slate-900">Interaction Log</h3>
-        <button onClick={() => setShowForm((v) => !v)} className="btn-secondary py-1 text-xs">
-          {showForm ? 'Cancel' : '+ Add Entry'}
-        </button>
+        {canEdit && (
+          <button onClick={() => setShowForm((v) => !v)} className="btn-secondary py-1 text-xs">
+            {showForm ? 'Cancel' : '+ Add Entry'}
+          </button>
+        )}
       </div>
 
       {showForm && (
@@ -156,15 +163,17 @@ export function InteractionLogSection({ stakeholderId }: Props) {
                   {log.outcome && <p className="mt-0.5 text-xs text-slate-500"><span className="font-medium">Outcome:</span> {log.outcome}</p>}
                   {log.next_action && <p className="mt-0.5 text-xs text-emerald-600"><span className="font-medium">Next:</span> {log.next_action}</p>}
                 </div>
-                <button
-                  onClick={() => deleteEntry(log.id)}
-                  className="flex h-5 w-5 shrink-0 items-center justify-center rounded text-slate-300 hover:bg-red-50 hover:text-red-500"
-                  title="Delete"
-                >
-                  <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </button>
+                {canEdit && (
+                  <button
+                    onClick={() => deleteEntry(log.id)}
+                    className="flex h-5 w-5 shrink-0 items-center justify-center rounded text-slate-300 hover:bg-red-50 hover:text-red-500"
+                    title="Delete"
+                  >
+                    <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
               </div>
             </li>
           ))}
@@ -1,22 +1,114 @@
-import { supabase } from './supabase';
-
-type EntityType = 'stakeholder' | 'company' | 'relationship';
-type Action = 'create' | 'update' | 'archive' | 'restore' | 'delete';
-
-export async function logAudit(
-  entityType: EntityType,
-  entityId: string,
-  action: Action,
-  diffJson?: Record<string, unknown>
-) {
-  try {
-    await supabase.from('audit_events').insert({
-      entity_type: entityType,
-      entity_id: entityId,
-      action,
-      diff_json: diffJson ?? null,
-    });
-  } catch {
-    // Audit failures must never break the main flow
+import type { AuthUser } from './auth';
+import type { AuditEvent, FieldChange, TableRow } from '../types/database';
+
+/**
+ * Audit events are written by the `audit_row_change` database trigger. These helpers mirror
+ * its rules (for the in-memory backend) and turn events into display text.
+ */
+
+export type AuditEntityType = 'stakeholder' | 'company' | 'relationship' | 'interaction_log' | 'map' | 'map_member';
+export type AuditAction = 'create' | 'update' | 'archive' | 'restore' | 'delete' | 'revert';
+
+export type RevertibleTable = 'stakeholders' | 'companies' | 'relationships';
+
+/** Entities whose past versions can be restored (see `revert_audit_event`), with their tables. */
+export const REVERTIBLE_TABLES: Partial<Record<string, RevertibleTable>> = {
+  stakeholder: 'stakeholders',
+  company: 'companies',
+  relationship: 'relationships',
+};
+
+/** Columns that move on every write and say nothing about the edit. */
+const BOOKKEEPING_COLUMNS = new Set(['id', 'created_at', 'updated_at']);
+
+type RowSnapshot = Record<string, unknown> | null;
+
+/** Columns whose value differs between two versions of a row; either side may be missing. */
+export function diffRows(before: RowSnapshot, after: RowSnapshot): Record<string, FieldChange> {
+  const changed: Record<string, FieldChange> = {};
+  for (const column of Object.keys(after ?? before ?? {})) {
+    if (BOOKKEEPING_COLUMNS.has(column)) continue;
+    const oldValue = before?.[column] ?? null;
+    const newValue = after?.[column] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) changed[column] = { old: oldValue, new: newValue };
   }
+  return changed;
+}
+
+/** The action the trigger records, or null when nothing but bookkeeping changed. */
+export function auditAction(
+  before: RowSnapshot,
+  after: RowSnapshot,
+  changed: Record<string, FieldChange>
+): AuditAction | null {
+  if (!before) return 'create';
+  if (!after) return 'delete';
+  if (Object.keys(changed).length === 0) return null;
+  if ('status' in changed && after.status === 'archived') return 'archive';
+  if ('status' in changed && after.status === 'active') return 'restore';
+  return 'update';
+}
+
+/**
+ * Realtime rows carry no join; fill in the actor from the signed-in user or an event
+ * already on screen by the same person.
+ */
+export function withKnownActor(row: TableRow<'audit_events'>, shown: AuditEvent[], user: AuthUser | null): AuditEvent {
+  const profiles = row.changed_by && row.changed_by === user?.id
+    ? { email: user.email }
+    : shown.find((e) => e.changed_by === row.changed_by && e.profiles)?.profiles ?? null;
+  return { ...row, profiles };
+}
+
+/**
+ * `updated_at` of an entity as of its newest event in `shown` (newest first): the version the user
+ * is looking at, which a restore checks against. Null when that event deleted it.
+ */
+export function shownUpdatedAt(shown: AuditEvent[], event: AuditEvent): string | null {
+  const newest = shown.find((e) => e.entity_type === event.entity_type && e.entity_id === event.entity_id) ?? event;
+  const updatedAt = newest.diff_json?.after?.updated_at;
+  return typeof updatedAt === 'string' ? updatedAt : null;
+}
+
+/** Who made the change, for display. */
+export function actorLabel(event: AuditEvent): string {
+  if (event.profiles?.email) return event.profiles.email;
+  return event.changed_by ? 'Unknown user' : 'System';
+}
+
+export function relativeTime(iso: string): string {
+  const diff = Date.now() - new Date(iso).getTime();
+  const s = Math.floor(diff / 1000);
+  if (s < 60) return `${s}s ago`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m ago`;
+  const h = Math.floor(m / 60);
+  if (h < 24) return `${h}h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+/** `full_name` → `Full name` */
+export function fieldLabel(column: string): string {
+  const label = column.replace(/_id$/, '').replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/** One-line summary: the fields an update touched, or the name of what was created/deleted. */
+export function describeChange(event: AuditEvent): string {
+  const diff = event.diff_json;
+  if (!diff) return '—';
+  const row = diff.after ?? diff.before;
+  const name = row?.full_name ?? row?.name ?? row?.summary;
+  if (event.action === 'create' || event.action === 'delete') return name ? String(name) : '—';
+  const changes = Object.entries(diff.changed ?? {}).map(
+    ([column, change]) => `${column}: ${formatValue(change.old)} → ${formatValue(change.new)}`
+  );
+  return changes.length ? changes.join('; ') : name ? String(name) : '—';
 }
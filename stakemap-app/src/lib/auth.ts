@@ -0,0 +1,121 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { dataBackend } from './repository';
+import { MEMORY_AUTH_STORAGE_KEY } from './constants';
+import type { AppRole, Database } from '../types/database';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: AppRole;
+}
+
+export interface SignInCredentials {
+  email: string;
+  password: string;
+  /** Only honoured by the in-memory backend, to try out roles locally. */
+  role?: AppRole;
+}
+
+export interface AuthService {
+  /** The signed-in user, or null. */
+  getUser(): Promise<AuthUser | null>;
+  signIn(credentials: SignInCredentials): Promise<AuthUser>;
+  signOut(): Promise<void>;
+  /** Called whenever the user signs in or out; returns the unsubscribe function. */
+  onChange(listener: (user: AuthUser | null) => void): () => void;
+}
+
+export function canEdit(user: AuthUser | null): boolean {
+  return user?.role === 'admin' || user?.role === 'editor';
+}
+
+export function createSupabaseAuth(client: SupabaseClient<Database>): AuthService {
+  async function toAuthUser(user: User | null): Promise<AuthUser | null> {
+    if (!user) return null;
+    const { data, error } = await client.from('profiles').select('role').eq('id', user.id).maybeSingle();
+    if (error) throw error;
+    return { id: user.id, email: user.email ?? '', role: data?.role ?? 'viewer' };
+  }
+
+  return {
+    async getUser() {
+      const { data, error } = await client.auth.getSession();
+      if (error) throw error;
+      return toAuthUser(data.session?.user ?? null);
+    },
+    async signIn({ email, password }) {
+      const { data, error } = await client.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+      return (await toAuthUser(data.user))!;
+    },
+    async signOut() {
+      const { error } = await client.auth.signOut();
+      if (error) throw error;
+    },
+    onChange(listener) {
+      const { data } = client.auth.onAuthStateChange((_event, session) => {
+        // Querying from inside the callback can deadlock the auth client, so defer
+        setTimeout(() => {
+          toAuthUser(session?.user ?? null).then(listener, (e) => console.error('Failed to load profile:', e));
+        }, 0);
+      });
+      return () => data.subscription.unsubscribe();
+    },
+  };
+}
+
+export interface MemoryAuthOptions {
+  storage?: Storage | null;
+  storageKey?: string;
+}
+
+/** Local stand-in: any email and password signs in, with the role picked on the sign-in page. */
+export function createMemoryAuth(options: MemoryAuthOptions = {}): AuthService {
+  const storage = options.storage === undefined
+    ? (typeof window !== 'undefined' ? window.localStorage : null)
+    : options.storage;
+  const storageKey = options.storageKey ?? MEMORY_AUTH_STORAGE_KEY;
+  const listeners = new Set<(user: AuthUser | null) => void>();
+
+  function read(): AuthUser | null {
+    const raw = storage?.getItem(storageKey);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as AuthUser;
+    } catch {
+      return null;
+    }
+  }
+
+  function write(user: AuthUser | null) {
+    if (user) storage?.setItem(storageKey, JSON.stringify(user));
+    else storage?.removeItem(storageKey);
+    listeners.forEach((l) => l(user));
+  }
+
+  return {
+    async getUser() {
+      return read();
+    },
+    async signIn({ email, role }) {
+      const normalized = email.trim().toLowerCase();
+      if (!normalized) throw new Error('Email is required');
+      // Stable id per email so saved_by_user_id stays meaningful across sessions
+      const user: AuthUser = { id: `local:${normalized}`, email: normalized, role: role ?? 'admin' };
+      write(user);
+      return user;
+    },
+    async signOut() {
+      write(null);
+    },
+    onChange(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export const auth: AuthService = dataBackend === 'memory' ? createMemoryAuth() : createSupabaseAuth(supabase);
@@ -1 +1,5 @@
+/** Seeded map that every new stakeholder is added to; it cannot be deleted. */
 export const DEFAULT_MAP_ID = '00000000-0000-0000-0000-000000000001';
+
+/** localStorage key of the in-memory backend's signed-in user. */
+export const MEMORY_AUTH_STORAGE_KEY = 'stakemap:memory-auth';
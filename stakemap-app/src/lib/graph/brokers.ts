@@ -0,0 +1,147 @@
+import type { NodeCentrality } from './centrality';
+import { neighborSets, otherEnd } from './model';
+import type { GraphEdge, StakeholderGraph } from './model';
+
+export interface Broker {
+  id: string;
+  betweenness: number;
+  /** Burt's constraint, ~0 (contacts who don't know each other) … 1 (one closed clique) */
+  constraint: number;
+}
+
+export interface StructuralHoles {
+  /** High betweenness, low constraint; most between first */
+  brokers: Broker[];
+  /** Stakeholders whose absence would split the network */
+  articulationPoints: string[];
+  /** Relationships that are the only link between two parts of the network */
+  bridges: GraphEdge[];
+}
+
+const BROKER_MIN_BETWEENNESS = 0.1;
+const BROKER_MAX_CONSTRAINT = 0.5;
+
+/**
+ * Burt's constraint per node: how much of someone's network time and energy goes to contacts
+ * who are themselves tied to each other. Ties are relationship weights summed over both
+ * directions; isolated stakeholders count as fully constrained.
+ */
+export function burtConstraint(graph: StakeholderGraph): Map<string, number> {
+  const ties = new Map<string, Map<string, number>>(graph.nodes.map((id) => [id, new Map()]));
+  for (const edge of graph.edges) {
+    const a = ties.get(edge.from)!;
+    const b = ties.get(edge.to)!;
+    a.set(edge.to, (a.get(edge.to) ?? 0) + edge.weight);
+    b.set(edge.from, (b.get(edge.from) ?? 0) + edge.weight);
+  }
+  const share = (i: string, j: string) => {
+    const row = ties.get(i)!;
+    let total = 0;
+    for (const w of row.values()) total += w;
+    return total > 0 ? (row.get(j) ?? 0) / total : 0;
+  };
+
+  const constraint = new Map<string, number>();
+  for (const i of graph.nodes) {
+    const contacts = [...ties.get(i)!.keys()];
+    if (contacts.length === 0) {
+      constraint.set(i, 1);
+      continue;
+    }
+    let c = 0;
+    for (const j of contacts) {
+      let indirect = 0;
+      for (const q of contacts) if (q !== j) indirect += share(i, q) * share(q, j);
+      c += (share(i, j) + indirect) ** 2;
+    }
+    constraint.set(i, Math.min(1, c));
+  }
+  return constraint;
+}
+
+/** Articulation points and bridges by Tarjan's low-link DFS, iterative so large maps can't overflow the stack. */
+function cutStructure(graph: StakeholderGraph): { points: string[]; bridges: GraphEdge[] } {
+  const order = new Map<string, number>();
+  const low = new Map<string, number>();
+  const points = new Set<string>();
+  const bridges: GraphEdge[] = [];
+
+  for (const root of graph.nodes) {
+    if (order.has(root)) continue;
+    order.set(root, order.size);
+    low.set(root, order.get(root)!);
+    let rootChildren = 0;
+    const stack: { id: string; via: GraphEdge | null; next: number }[] = [{ id: root, via: null, next: 0 }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const edges = graph.incident.get(frame.id)!;
+      if (frame.next < edges.length) {
+        const edge = edges[frame.next++];
+        // Compared by identity, so a second relationship between the same pair counts as another route
+        if (edge === frame.via) continue;
+        const to = otherEnd(edge, frame.id);
+        if (order.has(to)) {
+          low.set(frame.id, Math.min(low.get(frame.id)!, order.get(to)!));
+          continue;
+        }
+        order.set(to, order.size);
+        low.set(to, order.get(to)!);
+        if (frame.id === root) rootChildren++;
+        stack.push({ id: to, via: edge, next: 0 });
+        continue;
+      }
+      stack.pop();
+      const parent = stack[stack.length - 1];
+      if (!parent) continue;
+      low.set(parent.id, Math.min(low.get(parent.id)!, low.get(frame.id)!));
+      if (low.get(frame.id)! > order.get(parent.id)!) bridges.push(frame.via!);
+      if (parent.id !== root && low.get(frame.id)! >= order.get(parent.id)!) points.add(parent.id);
+    }
+    if (rootChildren > 1) points.add(root);
+  }
+  return { points: graph.nodes.filter((id) => points.has(id)), bridges };
+}
+
+/** Brokers across structural holes and the single points of failure of the network. */
+export function findStructuralHoles(graph: StakeholderGraph, centrality: Map<string, NodeCentrality>): StructuralHoles {
+  const constraint = burtConstraint(graph);
+  const brokers = graph.nodes
+    .map((id) => ({ id, betweenness: centrality.get(id)?.betweenness ?? 0, constraint: constraint.get(id) ?? 1 }))
+    .filter((b) => b.betweenness >= BROKER_MIN_BETWEENNESS && b.constraint <= BROKER_MAX_CONSTRAINT)
+    .sort((a, b) => b.betweenness - a.betweenness);
+  const { points, bridges } = cutStructure(graph);
+  return { brokers, articulationPoints: points, bridges };
+}
+
+/**
+ * The groups `id`'s contacts would fall into without them, largest first.
+ * More than one group means removing them splits the network.
+ */
+export function splitOnRemoval(graph: StakeholderGraph, id: string): string[][] {
+  const neighbors = neighborSets(graph);
+  const seen = new Set([id]);
+  const groups: string[][] = [];
+  for (const start of neighbors.get(id) ?? []) {
+    if (seen.has(start)) continue;
+    seen.add(start);
+    const group = [start];
+    for (let i = 0; i < group.length; i++) {
+      for (const next of neighbors.get(group[i])!) {
+        if (seen.has(next)) continue;
+        seen.add(next);
+        group.push(next);
+      }
+    }
+    groups.push(group);
+  }
+  return groups.sort((a, b) => b.length - a.length);
+}
+
+/** A warning to show before archiving `id`, or null when the network stays in one piece. */
+export function archiveSplitWarning(graph: StakeholderGraph, id: string): string | null {
+  const groups = splitOnRemoval(graph, id);
+  if (groups.length < 2) return null;
+  const sizes = groups.map((g) => g.length);
+  const sizeList = `${sizes.slice(0, -1).join(', ')} and ${sizes[sizes.length - 1]}`;
+  return `This stakeholder is the only link between ${groups.length} parts of the network (${sizeList} stakeholders). Archiving them splits it.`;
+}
@@ -0,0 +1,187 @@
+import type { RelationType } from '../../types/database';
+import { neighborSets, otherEnd } from './model';
+import type { GraphEdge, StakeholderGraph } from './model';
+
+export type CentralityMetric = 'degree' | 'betweenness' | 'pageRank' | 'eigenvector';
+
+export const CENTRALITY_METRICS: { key: CentralityMetric; label: string; short: string; description: string }[] = [
+  { key: 'pageRank', label: 'PageRank', short: 'PR', description: 'Power flowing in through strong, confident relationships' },
+  { key: 'betweenness', label: 'Betweenness', short: 'Btw', description: 'How often someone sits on the shortest route between two others' },
+  { key: 'eigenvector', label: 'Eigenvector', short: 'Eig', description: 'Connected to people who are themselves well connected' },
+  { key: 'degree', label: 'Degree', short: 'Deg', description: 'Number of relationships' },
+];
+
+export interface NodeCentrality {
+  id: string;
+  degree: number;
+  inDegree: number;
+  outDegree: number;
+  inByType: Partial<Record<RelationType, number>>;
+  outByType: Partial<Record<RelationType, number>>;
+  /** Normalised to [0, 1] */
+  betweenness: number;
+  /** Sums to 1 across the graph */
+  pageRank: number;
+  /** Scaled so the most central node is 1 */
+  eigenvector: number;
+}
+
+/**
+ * Which way power runs along each relation type, as an "endorsement" edge for PageRank:
+ * forward gives rank to the `to` end (A reports to B), backward to the `from` end
+ * (A influences B), both for lateral ties.
+ */
+const POWER_FLOW: Record<RelationType, 'forward' | 'backward' | 'both'> = {
+  REPORTS_TO: 'forward',
+  INFLUENCES: 'backward',
+  ADVISES: 'backward',
+  SPONSORS: 'backward',
+  GATEKEEPER_FOR: 'backward',
+  BLOCKS: 'backward',
+  PEER_OF: 'both',
+  COLLABORATES_WITH: 'both',
+};
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-9;
+
+function count(byType: Partial<Record<RelationType, number>>, type: RelationType) {
+  byType[type] = (byType[type] ?? 0) + 1;
+}
+
+/** Brandes' algorithm over hops, ignoring direction. */
+function betweenness(graph: StakeholderGraph): Map<string, number> {
+  const { nodes } = graph;
+  const neighbors = neighborSets(graph);
+  const score = new Map(nodes.map((id) => [id, 0]));
+  for (const source of nodes) {
+    const stack: string[] = [];
+    const preds = new Map<string, string[]>();
+    const sigma = new Map<string, number>([[source, 1]]);
+    const dist = new Map<string, number>([[source, 0]]);
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+      for (const w of neighbors.get(v)!) {
+        if (!dist.has(w)) {
+          dist.set(w, dist.get(v)! + 1);
+          queue.push(w);
+        }
+        if (dist.get(w) === dist.get(v)! + 1) {
+          sigma.set(w, (sigma.get(w) ?? 0) + sigma.get(v)!);
+          const p = preds.get(w);
+          if (p) p.push(v);
+          else preds.set(w, [v]);
+        }
+      }
+    }
+    const delta = new Map<string, number>();
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      for (const v of preds.get(w) ?? []) {
+        delta.set(v, (delta.get(v) ?? 0) + (sigma.get(v)! / sigma.get(w)!) * (1 + (delta.get(w) ?? 0)));
+      }
+      if (w !== source) score.set(w, score.get(w)! + (delta.get(w) ?? 0));
+    }
+  }
+  // Every pair was counted from both ends
+  const n = nodes.length;
+  const pairs = ((n - 1) * (n - 2)) / 2;
+  for (const [id, value] of score) score.set(id, pairs > 0 ? value / 2 / pairs : 0);
+  return score;
+}
+
+function pageRank(graph: StakeholderGraph): Map<string, number> {
+  const { nodes, edges } = graph;
+  const n = nodes.length;
+  const out = new Map<string, { to: string; weight: number }[]>(nodes.map((id) => [id, []]));
+  const push = (from: string, to: string, weight: number) => out.get(from)!.push({ to, weight });
+  for (const edge of edges) {
+    const flow = edge.bidirectional ? 'both' : POWER_FLOW[edge.type] ?? 'both';
+    if (flow !== 'backward') push(edge.from, edge.to, edge.weight);
+    if (flow !== 'forward') push(edge.to, edge.from, edge.weight);
+  }
+  const outWeight = new Map(nodes.map((id) => [id, out.get(id)!.reduce((sum, e) => sum + e.weight, 0)]));
+
+  let rank = new Map(nodes.map((id) => [id, 1 / n]));
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    // Nodes without outgoing power spread theirs evenly
+    let dangling = 0;
+    for (const id of nodes) if (outWeight.get(id) === 0) dangling += rank.get(id)!;
+    const next = new Map(nodes.map((id) => [id, (1 - DAMPING) / n + (DAMPING * dangling) / n]));
+    for (const id of nodes) {
+      const total = outWeight.get(id)!;
+      if (total === 0) continue;
+      const share = (DAMPING * rank.get(id)!) / total;
+      for (const e of out.get(id)!) next.set(e.to, next.get(e.to)! + share * e.weight);
+    }
+    let change = 0;
+    for (const id of nodes) change += Math.abs(next.get(id)! - rank.get(id)!);
+    rank = next;
+    if (change < TOLERANCE) break;
+  }
+  return rank;
+}
+
+/** Power iteration on the undirected weighted adjacency; the added self-loop keeps it converging. */
+function eigenvector(graph: StakeholderGraph): Map<string, number> {
+  const { nodes, incident } = graph;
+  let score = new Map(nodes.map((id) => [id, 1]));
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const next = new Map<string, number>();
+    let max = 0;
+    for (const id of nodes) {
+      let value = score.get(id)!;
+      for (const edge of incident.get(id)!) value += edge.weight * score.get(otherEnd(edge, id))!;
+      next.set(id, value);
+      max = Math.max(max, value);
+    }
+    let change = 0;
+    for (const id of nodes) {
+      const value = max > 0 ? next.get(id)! / max : 0;
+      change += Math.abs(value - score.get(id)!);
+      next.set(id, value);
+    }
+    score = next;
+    if (change < TOLERANCE) break;
+  }
+  // Isolated nodes keep only their self-loop
+  for (const id of nodes) if (incident.get(id)!.length === 0) score.set(id, 0);
+  return score;
+}
+
+function degrees(id: string, edges: GraphEdge[]) {
+  const inByType: Partial<Record<RelationType, number>> = {};
+  const outByType: Partial<Record<RelationType, number>> = {};
+  for (const edge of edges) {
+    if (edge.from === id || edge.bidirectional) count(outByType, edge.type);
+    if (edge.to === id || edge.bidirectional) count(inByType, edge.type);
+  }
+  const sum = (byType: Partial<Record<RelationType, number>>) => Object.values(byType).reduce((a, b) => a + b, 0);
+  return { degree: edges.length, inDegree: sum(inByType), outDegree: sum(outByType), inByType, outByType };
+}
+
+/** Every centrality measure for every node of the graph. */
+export function computeCentrality(graph: StakeholderGraph): Map<string, NodeCentrality> {
+  const between = betweenness(graph);
+  const rank = pageRank(graph);
+  const eigen = eigenvector(graph);
+  return new Map(graph.nodes.map((id) => [id, {
+    id,
+    ...degrees(id, graph.incident.get(id)!),
+    betweenness: between.get(id)!,
+    pageRank: rank.get(id)!,
+    eigenvector: eigen.get(id)!,
+  }]));
+}
+
+/** One metric per node, scaled so the highest is 1; for sizing or colouring nodes. */
+export function metricScores(centrality: Map<string, NodeCentrality>, metric: CentralityMetric): Record<string, number> {
+  let max = 0;
+  for (const c of centrality.values()) max = Math.max(max, c[metric]);
+  const scores: Record<string, number> = {};
+  for (const [id, c] of centrality) scores[id] = max > 0 ? c[metric] / max : 0;
+  return scores;
+}
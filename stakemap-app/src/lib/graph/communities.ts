@@ -0,0 +1,125 @@
+import type { StakeholderGraph } from './model';
+
+export interface Communities {
+  /** Community index by stakeholder id; indexes follow `groups` */
+  byId: Record<string, number>;
+  /** Members of each community, largest first; isolated stakeholders are groups of one */
+  groups: string[][];
+  /** Newman modularity of the split, −0.5 … 1 */
+  modularity: number;
+}
+
+/** Weighted adjacency over node indexes; a self-loop holds the weight inside an aggregated node */
+type Adjacency = Map<number, number>[];
+
+const GAIN_EPSILON = 1e-12;
+
+function addWeight(adj: Adjacency, i: number, j: number, weight: number) {
+  adj[i].set(j, (adj[i].get(j) ?? 0) + weight);
+}
+
+/** Renumbers communities 0…k−1 in order of first appearance. */
+function relabel(community: number[]): number[] {
+  const labels = new Map<number, number>();
+  return community.map((c) => {
+    if (!labels.has(c)) labels.set(c, labels.size);
+    return labels.get(c)!;
+  });
+}
+
+/** Louvain phase one: move single nodes between communities while modularity improves. */
+function localMoves(adj: Adjacency): { community: number[]; moved: boolean } {
+  const n = adj.length;
+  const degree = adj.map((row) => [...row.values()].reduce((a, b) => a + b, 0));
+  const total = degree.reduce((a, b) => a + b, 0);
+  const community = adj.map((_, i) => i);
+  if (total === 0) return { community, moved: false };
+  const communityDegree = degree.slice();
+
+  let moved = false;
+  for (let improved = true; improved;) {
+    improved = false;
+    for (let i = 0; i < n; i++) {
+      const own = community[i];
+      const links = new Map<number, number>();
+      for (const [j, w] of adj[i]) {
+        if (j !== i) links.set(community[j], (links.get(community[j]) ?? 0) + w);
+      }
+      communityDegree[own] -= degree[i];
+      let best = own;
+      let bestGain = (links.get(own) ?? 0) - (communityDegree[own] * degree[i]) / total;
+      for (const [c, w] of links) {
+        const gain = w - (communityDegree[c] * degree[i]) / total;
+        if (gain > bestGain + GAIN_EPSILON) {
+          best = c;
+          bestGain = gain;
+        }
+      }
+      communityDegree[best] += degree[i];
+      if (best !== own) {
+        community[i] = best;
+        improved = true;
+        moved = true;
+      }
+    }
+  }
+  return { community: relabel(community), moved };
+}
+
+/** Louvain phase two: each community becomes one node. */
+function aggregate(adj: Adjacency, community: number[]): Adjacency {
+  const size = Math.max(-1, ...community) + 1;
+  const next: Adjacency = Array.from({ length: size }, () => new Map());
+  adj.forEach((row, i) => {
+    for (const [j, w] of row) addWeight(next, community[i], community[j], w);
+  });
+  return next;
+}
+
+function modularity(adj: Adjacency, community: number[]): number {
+  const degree = adj.map((row) => [...row.values()].reduce((a, b) => a + b, 0));
+  const total = degree.reduce((a, b) => a + b, 0);
+  if (total === 0) return 0;
+  let inside = 0;
+  const communityDegree = new Map<number, number>();
+  adj.forEach((row, i) => {
+    for (const [j, w] of row) if (community[i] === community[j]) inside += w;
+    communityDegree.set(community[i], (communityDegree.get(community[i]) ?? 0) + degree[i]);
+  });
+  let expected = 0;
+  for (const d of communityDegree.values()) expected += (d / total) ** 2;
+  return inside / total - expected;
+}
+
+/**
+ * Informal coalitions by the Louvain method on relationship weights (strength × confidence),
+ * ignoring direction. Deterministic for a given node order.
+ */
+export function detectCommunities(graph: StakeholderGraph): Communities {
+  const index = new Map(graph.nodes.map((id, i) => [id, i]));
+  const base: Adjacency = graph.nodes.map(() => new Map());
+  for (const edge of graph.edges) {
+    addWeight(base, index.get(edge.from)!, index.get(edge.to)!, edge.weight);
+    addWeight(base, index.get(edge.to)!, index.get(edge.from)!, edge.weight);
+  }
+
+  let membership = graph.nodes.map((_, i) => i);
+  let adj = base;
+  for (;;) {
+    const { community, moved } = localMoves(adj);
+    if (!moved) break;
+    membership = membership.map((c) => community[c]);
+    adj = aggregate(adj, community);
+  }
+
+  const members = new Map<number, string[]>();
+  graph.nodes.forEach((id, i) => {
+    const list = members.get(membership[i]);
+    if (list) list.push(id);
+    else members.set(membership[i], [id]);
+  });
+  const groups = [...members.values()].sort((a, b) => b.length - a.length);
+  const byId: Record<string, number> = {};
+  groups.forEach((group, c) => group.forEach((id) => { byId[id] = c; }));
+  return { byId, groups, modularity: modularity(base, graph.nodes.map((id) => byId[id])) };
+}
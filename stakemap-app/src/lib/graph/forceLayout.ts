@@ -0,0 +1,151 @@
+import type { Relationship } from '../../types/database';
+import type { Positions } from './hybridLayout';
+
+/** Ideal distance between two linked people */
+const NODE_SPACING = 100;
+const ITERATIONS = 200;
+/** Barnes–Hut accuracy: a group of people whose extent is below this share of its distance pushes as one */
+const THETA = 1;
+/** Below this size a quadtree cell stops splitting, so coincident people can't recurse forever */
+const MIN_CELL_SIZE = 1;
+/** Pull towards the centre, so unconnected groups don't drift apart */
+const GRAVITY = 0.05;
+/** Progress is reported every this many iterations */
+const PROGRESS_EVERY = 10;
+
+interface QuadCell {
+  /** Centre of mass and number of people */
+  x: number;
+  y: number;
+  mass: number;
+  size: number;
+  children: QuadCell[];
+  /** People in a leaf */
+  members: number[];
+}
+
+function buildQuadTree(ids: number[], xs: ArrayLike<number>, ys: ArrayLike<number>, left: number, top: number, size: number): QuadCell {
+  let x = 0;
+  let y = 0;
+  for (const i of ids) {
+    x += xs[i];
+    y += ys[i];
+  }
+  const cell: QuadCell = { x: x / ids.length, y: y / ids.length, mass: ids.length, size, children: [], members: [] };
+  if (ids.length === 1 || size < MIN_CELL_SIZE) {
+    cell.members = ids;
+    return cell;
+  }
+  const half = size / 2;
+  const quadrants: number[][] = [[], [], [], []];
+  for (const i of ids) quadrants[(xs[i] < left + half ? 0 : 1) + (ys[i] < top + half ? 0 : 2)].push(i);
+  quadrants.forEach((members, q) => {
+    if (members.length > 0) cell.children.push(buildQuadTree(members, xs, ys, left + (q % 2) * half, top + Math.floor(q / 2) * half, half));
+  });
+  return cell;
+}
+
+/**
+ * Fruchterman–Reingold force-directed layout with Barnes–Hut repulsion, so large maps stay fast.
+ * Starts from `start` where given (a re-run refines the current map rather than scrambling it)
+ * and from a circle otherwise. Deterministic for the same input.
+ */
+export function forceLayout(
+  ids: string[],
+  relationships: Relationship[],
+  start: Positions,
+  onProgress?: (fraction: number) => void
+): Positions {
+  const n = ids.length;
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const ring = (NODE_SPACING * Math.sqrt(n)) / 2;
+  const xs = ids.map((id, i) => start[id]?.x ?? ring * Math.cos((2 * Math.PI * i) / n));
+  const ys = ids.map((id, i) => start[id]?.y ?? ring * Math.sin((2 * Math.PI * i) / n));
+  const edges: [number, number][] = [];
+  for (const r of relationships) {
+    const a = index.get(r.from_stakeholder_id);
+    const b = index.get(r.to_stakeholder_id);
+    if (a !== undefined && b !== undefined && a !== b) edges.push([a, b]);
+  }
+
+  const k = NODE_SPACING;
+  const dx = new Float64Array(n);
+  const dy = new Float64Array(n);
+  const push = (i: number, vx: number, vy: number, dist: number, mass: number) => {
+    const force = (mass * k * k) / dist;
+    dx[i] += (vx / dist) * force;
+    dy[i] += (vy / dist) * force;
+  };
+  const repel = (i: number, cell: QuadCell) => {
+    const vx = xs[i] - cell.x;
+    const vy = ys[i] - cell.y;
+    const dist = Math.hypot(vx, vy);
+    if (cell.children.length > 0 && cell.size / Math.max(dist, 0.01) < THETA) {
+      push(i, vx, vy, dist, cell.mass);
+      return;
+    }
+    for (const child of cell.children) repel(i, child);
+    for (const j of cell.members) {
+      if (j === i) continue;
+      const ux = xs[i] - xs[j];
+      const uy = ys[i] - ys[j];
+      const d = Math.hypot(ux, uy);
+      if (d < 0.01) {
+        // Coincident people separate the same way on every run
+        const angle = ((Math.min(i, j) * 7 + Math.max(i, j) * 13) % 360) * (Math.PI / 180);
+        const sign = i < j ? 1 : -1;
+        push(i, sign * Math.cos(angle), sign * Math.sin(angle), 1, 1);
+      } else {
+        push(i, ux, uy, d, 1);
+      }
+    }
+  };
+  const all = ids.map((_, i) => i);
+  for (let iter = 0; iter < ITERATIONS; iter++) {
+    const temperature = ring * 0.1 * (1 - iter / ITERATIONS) + 1;
+    dx.fill(0);
+    dy.fill(0);
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let extent = 0;
+    for (let i = 0; i < n; i++) {
+      minX = Math.min(minX, xs[i]);
+      minY = Math.min(minY, ys[i]);
+    }
+    for (let i = 0; i < n; i++) extent = Math.max(extent, xs[i] - minX, ys[i] - minY);
+    const tree = buildQuadTree(all, xs, ys, minX, minY, extent + 1);
+    for (let i = 0; i < n; i++) repel(i, tree);
+    for (const [i, j] of edges) {
+      const vx = xs[i] - xs[j];
+      const vy = ys[i] - ys[j];
+      const dist = Math.max(0.01, Math.hypot(vx, vy));
+      const force = (dist * dist) / k;
+      dx[i] -= (vx / dist) * force;
+      dy[i] -= (vy / dist) * force;
+      dx[j] += (vx / dist) * force;
+      dy[j] += (vy / dist) * force;
+    }
+    let cx = 0;
+    let cy = 0;
+    for (let i = 0; i < n; i++) {
+      cx += xs[i] / n;
+      cy += ys[i] / n;
+    }
+    for (let i = 0; i < n; i++) {
+      dx[i] -= (xs[i] - cx) * GRAVITY;
+      dy[i] -= (ys[i] - cy) * GRAVITY;
+      const length = Math.max(0.01, Math.hypot(dx[i], dy[i]));
+      const step = Math.min(length, temperature);
+      xs[i] += (dx[i] / length) * step;
+      ys[i] += (dy[i] / length) * step;
+    }
+    if (onProgress && (iter + 1) % PROGRESS_EVERY === 0) onProgress((iter + 1) / ITERATIONS);
+  }
+
+  const positions: Positions = {};
+  ids.forEach((id, i) => {
+    positions[id] = { x: xs[i], y: ys[i] };
+  });
+  return positions;
+}
@@ -0,0 +1,280 @@
+import type { Company, Relationship, Stakeholder } from '../../types/database';
+
+export type Positions = Record<string, { x: number; y: number }>;
+
+/** Ideal distance between two people in the same company */
+const NODE_SPACING = 90;
+/** Smallest gap between the edges of two company clusters */
+const CLUSTER_GAP = 80;
+const CLUSTER_ITERATIONS = 300;
+const NODE_ITERATIONS = 200;
+/** Keeps the cost of one company's force pass bounded on very large companies */
+const MAX_PAIR_STEPS = 2e7;
+/** A parent company pulls its subsidiaries as hard as this many relationships would */
+const PARENT_PULL = 3;
+/** How far people lean towards the companies they have relationships with, as a share of their cluster's radius */
+const OUTWARD_LEAN = 0.35;
+
+interface Cluster {
+  companyId: string;
+  members: Stakeholder[];
+  radius: number;
+  x: number;
+  y: number;
+}
+
+function clusterRadius(size: number): number {
+  return size <= 1 ? 30 : 30 + (NODE_SPACING * Math.sqrt(size)) / 2;
+}
+
+/** Nearest ancestor company that has people on the map, so hierarchy survives gaps. */
+function presentParent(companyId: string, byId: Map<string, Company>, present: Set<string>): string | null {
+  const seen = new Set([companyId]);
+  for (let id = byId.get(companyId)?.parent_company_id; id && !seen.has(id); id = byId.get(id)?.parent_company_id) {
+    if (present.has(id)) return id;
+    seen.add(id);
+  }
+  return null;
+}
+
+/**
+ * Companies in hierarchy order: each parent followed by its subsidiaries, siblings by name.
+ * Ownership loops (A owns B owns A) have no root; each is cut in `parentOf` at its first company by name.
+ */
+function hierarchyOrder(ids: string[], parentOf: Map<string, string | null>, nameOf: (id: string) => string): string[] {
+  const byName = (a: string, b: string) => nameOf(a).localeCompare(nameOf(b)) || a.localeCompare(b);
+  const children = new Map<string, string[]>();
+  for (const id of ids) {
+    const parent = parentOf.get(id);
+    if (!parent) continue;
+    if (!children.has(parent)) children.set(parent, []);
+    children.get(parent)!.push(id);
+  }
+  const order: string[] = [];
+  const placed = new Set<string>();
+  const visit = (id: string) => {
+    placed.add(id);
+    order.push(id);
+    for (const child of (children.get(id) ?? []).sort(byName)) {
+      if (!placed.has(child)) visit(child);
+    }
+  };
+  for (const root of ids.filter((id) => !parentOf.get(id)).sort(byName)) visit(root);
+  for (const id of [...ids].sort(byName)) {
+    if (placed.has(id)) continue;
+    // Walk up to the loop this company hangs from, which may be above it
+    const path: string[] = [];
+    let at = id;
+    while (!path.includes(at)) {
+      path.push(at);
+      at = parentOf.get(at)!;
+    }
+    const root = path.slice(path.indexOf(at)).sort(byName)[0];
+    parentOf.set(root, null);
+    visit(root);
+  }
+  return order;
+}
+
+/** A fixed direction per pair, so coincident points separate the same way on every run */
+function fallbackDirection(i: number, j: number): { x: number; y: number } {
+  const angle = ((i * 7 + j * 13) % 360) * (Math.PI / 180);
+  return { x: Math.cos(angle), y: Math.sin(angle) };
+}
+
+/** Places company clusters: linked companies (by relationships or ownership) close, none overlapping. */
+function placeClusters(clusters: Cluster[], weight: (a: number, b: number) => number) {
+  const n = clusters.length;
+  const ring = clusters.reduce((sum, c) => sum + c.radius * 2 + CLUSTER_GAP, 0) / (2 * Math.PI);
+  clusters.forEach((c, i) => {
+    c.x = n > 1 ? ring * Math.cos((2 * Math.PI * i) / n) : 0;
+    c.y = n > 1 ? ring * Math.sin((2 * Math.PI * i) / n) : 0;
+  });
+
+  for (let iter = 0; iter < CLUSTER_ITERATIONS; iter++) {
+    const cooling = 1 - iter / CLUSTER_ITERATIONS;
+    const dx = new Array(n).fill(0);
+    const dy = new Array(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const a = clusters[i];
+        const b = clusters[j];
+        let vx = b.x - a.x;
+        let vy = b.y - a.y;
+        let dist = Math.hypot(vx, vy);
+        if (dist < 0.01) {
+          ({ x: vx, y: vy } = fallbackDirection(i, j));
+          dist = 1;
+        }
+        const ux = vx / dist;
+        const uy = vy / dist;
+        const target = a.radius + b.radius + CLUSTER_GAP;
+        let push = 0;
+        if (dist < target) push = (target - dist) / 2;
+        const w = weight(i, j);
+        // Linked clusters are pulled until they touch; only the last phase is pure overlap removal
+        if (w > 0 && dist > target && cooling > 0.2) push = -((dist - target) / 2) * Math.min(1, 0.1 * w) * cooling;
+        dx[i] -= ux * push;
+        dy[i] -= uy * push;
+        dx[j] += ux * push;
+        dy[j] += uy * push;
+      }
+    }
+    // Gentle gravity keeps unlinked companies from drifting off; capping the step keeps clusters
+    // linked to many others from overshooting
+    const maxStep = Math.max(CLUSTER_GAP, ring * 0.1 * cooling);
+    for (let i = 0; i < n; i++) {
+      const c = clusters[i];
+      const stepX = dx[i] - c.x * 0.01 * cooling;
+      const stepY = dy[i] - c.y * 0.01 * cooling;
+      const scale = Math.min(1, maxStep / Math.max(0.01, Math.hypot(stepX, stepY)));
+      c.x += stepX * scale;
+      c.y += stepY * scale;
+    }
+  }
+}
+
+/**
+ * Fruchterman–Reingold inside one cluster, kept within its radius. People with relationships to
+ * other companies are also pulled towards those clusters, which keeps inter-company edges short.
+ */
+function placeMembers(cluster: Cluster, edges: [number, number][], outward: { x: number; y: number }[]): Positions {
+  const n = cluster.members.length;
+  const positions: Positions = {};
+  if (n === 1) {
+    const lean = outward[0];
+    positions[cluster.members[0].id] = { x: cluster.x + lean.x * cluster.radius * OUTWARD_LEAN, y: cluster.y + lean.y * cluster.radius * OUTWARD_LEAN };
+    return positions;
+  }
+  const k = NODE_SPACING;
+  const limit = cluster.radius - 20;
+  const xs = cluster.members.map((_, i) => limit * 0.6 * Math.cos((2 * Math.PI * i) / n));
+  const ys = cluster.members.map((_, i) => limit * 0.6 * Math.sin((2 * Math.PI * i) / n));
+  const iterations = Math.max(30, Math.min(NODE_ITERATIONS, Math.floor(MAX_PAIR_STEPS / (n * n))));
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const temperature = (limit / 2) * (1 - iter / iterations) + 1;
+    const dx = new Array(n).fill(0);
+    const dy = new Array(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        let vx = xs[i] - xs[j];
+        let vy = ys[i] - ys[j];
+        let dist = Math.hypot(vx, vy);
+        if (dist < 0.01) {
+          ({ x: vx, y: vy } = fallbackDirection(i, j));
+          dist = 1;
+        }
+        const force = (k * k) / dist;
+        dx[i] += (vx / dist) * force;
+        dy[i] += (vy / dist) * force;
+        dx[j] -= (vx / dist) * force;
+        dy[j] -= (vy / dist) * force;
+      }
+    }
+    for (const [i, j] of edges) {
+      const vx = xs[i] - xs[j];
+      const vy = ys[i] - ys[j];
+      const dist = Math.max(0.01, Math.hypot(vx, vy));
+      const force = (dist * dist) / k;
+      dx[i] -= (vx / dist) * force;
+      dy[i] -= (vy / dist) * force;
+      dx[j] += (vx / dist) * force;
+      dy[j] += (vy / dist) * force;
+    }
+    for (let i = 0; i < n; i++) {
+      dx[i] += (outward[i].x * limit * OUTWARD_LEAN - xs[i]) * 0.5;
+      dy[i] += (outward[i].y * limit * OUTWARD_LEAN - ys[i]) * 0.5;
+      const length = Math.max(0.01, Math.hypot(dx[i], dy[i]));
+      const step = Math.min(length, temperature);
+      xs[i] += (dx[i] / length) * step;
+      ys[i] += (dy[i] / length) * step;
+      const r = Math.hypot(xs[i], ys[i]);
+      if (r > limit) {
+        xs[i] *= limit / r;
+        ys[i] *= limit / r;
+      }
+    }
+  }
+  cluster.members.forEach((s, i) => {
+    positions[s.id] = { x: cluster.x + xs[i], y: cluster.y + ys[i] };
+  });
+  return positions;
+}
+
+/**
+ * Hybrid clustered layout: one cluster per company, subsidiaries next to their parent company,
+ * linked companies side by side, force-directed placement inside each cluster. Deterministic:
+ * the same people, companies and relationships always give the same positions.
+ */
+export function hybridLayout(
+  stakeholders: Stakeholder[],
+  relationships: Relationship[],
+  companies: Company[],
+  onProgress?: (fraction: number) => void
+): Positions {
+  const companyById = new Map(companies.map((c) => [c.id, c]));
+  const nameOf = (id: string) => companyById.get(id)?.name ?? '';
+  const byCompany = new Map<string, Stakeholder[]>();
+  for (const s of stakeholders) {
+    if (!byCompany.has(s.company_id)) byCompany.set(s.company_id, []);
+    byCompany.get(s.company_id)!.push(s);
+  }
+  const present = new Set(byCompany.keys());
+  const parentOf = new Map([...present].map((id) => [id, presentParent(id, companyById, present)]));
+
+  const clusters: Cluster[] = hierarchyOrder([...present], parentOf, nameOf).map((companyId) => {
+    const members = byCompany.get(companyId)!.sort((a, b) => a.full_name.localeCompare(b.full_name) || a.id.localeCompare(b.id));
+    return { companyId, members, radius: clusterRadius(members.length), x: 0, y: 0 };
+  });
+  const clusterIndex = new Map(clusters.map((c, i) => [c.companyId, i]));
+  const clusterOf = new Map(stakeholders.map((s) => [s.id, clusterIndex.get(s.company_id)!]));
+
+  // Cluster affinity: relationships between the companies plus ownership
+  const links = new Map<string, number>();
+  const pairKey = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+  const addLink = (a: number, b: number, w: number) => links.set(pairKey(a, b), (links.get(pairKey(a, b)) ?? 0) + w);
+  const inside = relationships.filter(
+    (r) => clusterOf.has(r.from_stakeholder_id) && clusterOf.has(r.to_stakeholder_id) && r.from_stakeholder_id !== r.to_stakeholder_id
+  );
+  for (const r of inside) {
+    const a = clusterOf.get(r.from_stakeholder_id)!;
+    const b = clusterOf.get(r.to_stakeholder_id)!;
+    if (a !== b) addLink(a, b, 1);
+  }
+  for (const [id, parent] of parentOf) {
+    if (parent) addLink(clusterIndex.get(id)!, clusterIndex.get(parent)!, PARENT_PULL);
+  }
+  placeClusters(clusters, (a, b) => links.get(pairKey(a, b)) ?? 0);
+
+  const positions: Positions = {};
+  clusters.forEach((cluster, ci) => {
+    const local = new Map(cluster.members.map((s, i) => [s.id, i]));
+    const edges: [number, number][] = [];
+    const outward = cluster.members.map(() => ({ x: 0, y: 0 }));
+    for (const r of inside) {
+      const from = local.get(r.from_stakeholder_id);
+      const to = local.get(r.to_stakeholder_id);
+      if (from !== undefined && to !== undefined) {
+        edges.push([from, to]);
+        continue;
+      }
+      const mine = from ?? to;
+      if (mine === undefined) continue;
+      const other = clusters[clusterOf.get(from === undefined ? r.from_stakeholder_id : r.to_stakeholder_id)!];
+      const dist = Math.max(0.01, Math.hypot(other.x - cluster.x, other.y - cluster.y));
+      outward[mine].x += (other.x - cluster.x) / dist;
+      outward[mine].y += (other.y - cluster.y) / dist;
+    }
+    for (const lean of outward) {
+      const length = Math.hypot(lean.x, lean.y);
+      if (length > 1) {
+        lean.x /= length;
+        lean.y /= length;
+      }
+    }
+    Object.assign(positions, placeMembers(cluster, edges, outward));
+    onProgress?.((ci + 1) / clusters.length);
+  });
+  return positions;
+}
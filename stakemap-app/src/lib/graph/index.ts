@@ -0,0 +1,25 @@
+export { buildGraph, edgeWeight, isBidirectional, neighborSets, otherEnd } from './model';
+export type { GraphEdge, StakeholderGraph } from './model';
+export { CENTRALITY_METRICS, computeCentrality, metricScores } from './centrality';
+export type { CentralityMetric, NodeCentrality } from './centrality';
+export { INFLUENCER_WEIGHTS, rankInfluencers } from './influencers';
+export type { InfluencerScore } from './influencers';
+export { opponentsNearCompany } from './opponents';
+export type { ConnectedOpponent, PathStep } from './opponents';
+export { DEFAULT_PATH_OPTIONS, findPaths } from './paths';
+export type { FoundPath, PathOptions } from './paths';
+export { predictedSentiment, simulateInfluence } from './propagation';
+export type { PropagationResult, SentimentShift, SentimentValues } from './propagation';
+export { detectCommunities } from './communities';
+export type { Communities } from './communities';
+export { archiveSplitWarning, burtConstraint, findStructuralHoles, splitOnRemoval } from './brokers';
+export type { Broker, StructuralHoles } from './brokers';
+export { REPORTING_ISSUE_KINDS, checkReportingLine, findReportingIssues } from './reportingLines';
+export type { ReportingIssue, ReportingIssueKind, ReportingLineCheck } from './reportingLines';
+export { orgChartLayout } from './orgChart';
+export type { CompanyStub, OrgChart } from './orgChart';
+export { hybridLayout } from './hybridLayout';
+export type { Positions } from './hybridLayout';
+export { forceLayout } from './forceLayout';
+export { clusterCircles, computeLayout, hierarchyLayout } from './layouts';
+export type { LayoutInput, LayoutKind } from './layouts';
@@ -0,0 +1,88 @@
+import type { SeniorityLevel, Stakeholder } from '../../types/database';
+import type { NodeCentrality } from './centrality';
+
+export interface InfluencerScore {
+  stakeholder: Stakeholder;
+  /** Combined score in [0, 1] */
+  score: number;
+  /** Each component in [0, 1], before weighting */
+  influence: number;
+  seniority: number;
+  centrality: number;
+  reasons: string[];
+}
+
+/** How much each signal counts towards the combined score */
+export const INFLUENCER_WEIGHTS = { influence: 0.4, seniority: 0.25, centrality: 0.35 };
+
+const SENIORITY_SCORE: Record<SeniorityLevel, number> = {
+  C_LEVEL: 1,
+  VP: 0.8,
+  DIRECTOR: 0.6,
+  MANAGER: 0.4,
+  IC: 0.2,
+};
+
+const SENIORITY_LABEL: Record<SeniorityLevel, string> = {
+  C_LEVEL: 'C-level',
+  VP: 'VP',
+  DIRECTOR: 'Director',
+  MANAGER: 'Manager',
+  IC: 'Individual contributor',
+};
+
+/** Unrated stakeholders count as average rather than as nobodies */
+const UNSET_INFLUENCE = 3;
+const UNSET_SENIORITY = 0.4;
+
+/** A component this far up its range earns a reason line */
+const REASON_THRESHOLD = 0.7;
+
+/**
+ * Stakeholders ranked by self-reported influence, seniority and network position. Centrality is
+ * the mean of PageRank, betweenness and eigenvector, each relative to the best in `stakeholders`.
+ */
+export function rankInfluencers(stakeholders: Stakeholder[], centrality: Map<string, NodeCentrality>): InfluencerScore[] {
+  const max = { pageRank: 0, betweenness: 0, eigenvector: 0 };
+  for (const s of stakeholders) {
+    const c = centrality.get(s.id);
+    if (!c) continue;
+    max.pageRank = Math.max(max.pageRank, c.pageRank);
+    max.betweenness = Math.max(max.betweenness, c.betweenness);
+    max.eigenvector = Math.max(max.eigenvector, c.eigenvector);
+  }
+  const relative = (value: number | undefined, top: number) => (top > 0 && value ? value / top : 0);
+
+  return stakeholders
+    .map((stakeholder) => {
+      const c = centrality.get(stakeholder.id);
+      const pageRank = relative(c?.pageRank, max.pageRank);
+      const betweenness = relative(c?.betweenness, max.betweenness);
+      const eigenvector = relative(c?.eigenvector, max.eigenvector);
+      const influence = Math.max(1, Math.min(5, stakeholder.influence_score ?? UNSET_INFLUENCE)) / 5;
+      const seniority = stakeholder.seniority_level ? SENIORITY_SCORE[stakeholder.seniority_level] : UNSET_SENIORITY;
+      const network = (pageRank + betweenness + eigenvector) / 3;
+
+      const reasons: string[] = [];
+      if (stakeholder.influence_score != null && influence >= REASON_THRESHOLD) {
+        reasons.push(`Influence rated ${stakeholder.influence_score}/5`);
+      }
+      if (stakeholder.seniority_level && seniority >= REASON_THRESHOLD) {
+        reasons.push(SENIORITY_LABEL[stakeholder.seniority_level]);
+      }
+      if (pageRank >= REASON_THRESHOLD) reasons.push(pageRank === 1 ? 'Most power flowing in (PageRank)' : 'High PageRank');
+      if (betweenness >= REASON_THRESHOLD) reasons.push('Bridges otherwise distant people');
+      if (eigenvector >= REASON_THRESHOLD) reasons.push('Close to other well-connected people');
+      if (c && c.degree > 0 && reasons.length === 0) reasons.push(`${c.degree} relationship${c.degree === 1 ? '' : 's'}`);
+
+      return {
+        stakeholder,
+        score: INFLUENCER_WEIGHTS.influence * influence + INFLUENCER_WEIGHTS.seniority * seniority + INFLUENCER_WEIGHTS.centrality * network,
+        influence,
+        seniority,
+        centrality: network,
+        reasons,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.stakeholder.full_name.localeCompare(b.stakeholder.full_name));
+}
@@ -0,0 +1,81 @@
+import type { Company, Relationship, Stakeholder } from '../../types/database';
+import { detectCommunities } from './communities';
+import { forceLayout } from './forceLayout';
+import { hybridLayout } from './hybridLayout';
+import type { Positions } from './hybridLayout';
+import { buildGraph } from './model';
+import { orgChartLayout } from './orgChart';
+
+export type LayoutKind = 'force' | 'hierarchy' | 'hybrid' | 'company-clusters' | 'community-clusters';
+
+/** Everything a layout needs, as plain rows so it can be posted to a worker */
+export interface LayoutInput {
+  kind: LayoutKind;
+  stakeholders: Stakeholder[];
+  relationships: Relationship[];
+  companies: Company[];
+  /** Current positions; the force-directed layout starts from them */
+  positions: Positions;
+}
+
+/** Horizontal gap between two companies' org charts */
+const HIERARCHY_GAP = 200;
+
+/** Places each group on its own small circle, the groups spread around a large one. */
+export function clusterCircles(groups: string[][]): Positions {
+  const R = 350;
+  const clusterRadius = 80;
+  const positions: Positions = {};
+  groups.forEach((members, ci) => {
+    const cx = R * Math.cos((2 * Math.PI * ci) / Math.max(1, groups.length));
+    const cy = R * Math.sin((2 * Math.PI * ci) / Math.max(1, groups.length));
+    members.forEach((id, mi) => {
+      const angle = (2 * Math.PI * mi) / Math.max(1, members.length);
+      const r = Math.min(clusterRadius * 0.6, 25 * members.length);
+      positions[id] = { x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) };
+    });
+  });
+  return positions;
+}
+
+/** Every company's org chart (see orgChartLayout), side by side from the largest company down. */
+export function hierarchyLayout(stakeholders: Stakeholder[], relationships: Relationship[], onProgress?: (fraction: number) => void): Positions {
+  const sizes = new Map<string, number>();
+  for (const s of stakeholders) sizes.set(s.company_id, (sizes.get(s.company_id) ?? 0) + 1);
+  const companyIds = [...sizes.keys()].sort((a, b) => sizes.get(b)! - sizes.get(a)! || a.localeCompare(b));
+  const positions: Positions = {};
+  let left = 0;
+  companyIds.forEach((companyId, i) => {
+    const chart = orgChartLayout(stakeholders, relationships, companyId).positions;
+    const xs = Object.values(chart).map((p) => p.x);
+    const minX = Math.min(...xs);
+    for (const [id, p] of Object.entries(chart)) positions[id] = { x: p.x - minX + left, y: p.y };
+    left += Math.max(...xs) - minX + HIERARCHY_GAP;
+    onProgress?.((i + 1) / companyIds.length);
+  });
+  return positions;
+}
+
+/** Runs one of the map's auto-layouts; positions for every stakeholder in the input. */
+export function computeLayout(input: LayoutInput, onProgress?: (fraction: number) => void): Positions {
+  const { stakeholders, relationships, companies } = input;
+  const ids = stakeholders.map((s) => s.id);
+  switch (input.kind) {
+    case 'force':
+      return forceLayout(ids, relationships, input.positions, onProgress);
+    case 'hierarchy':
+      return hierarchyLayout(stakeholders, relationships, onProgress);
+    case 'hybrid':
+      return hybridLayout(stakeholders, relationships, companies, onProgress);
+    case 'company-clusters': {
+      const byCompany = new Map<string, string[]>();
+      for (const s of stakeholders) {
+        if (!byCompany.has(s.company_id)) byCompany.set(s.company_id, []);
+        byCompany.get(s.company_id)!.push(s.id);
+      }
+      return clusterCircles([...byCompany.values()]);
+    }
+    case 'community-clusters':
+      return clusterCircles(detectCommunities(buildGraph(ids, relationships)).groups);
+  }
+}
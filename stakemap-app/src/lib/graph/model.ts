@@ -0,0 +1,74 @@
+import type { Relationship, RelationType } from '../../types/database';
+
+/** A relationship as an edge of the stakeholder graph. */
+export interface GraphEdge {
+  id: string;
+  from: string;
+  to: string;
+  type: RelationType;
+  /** Strength × confidence, in (0, 1] */
+  weight: number;
+  bidirectional: boolean;
+  /** −1, 0 or +1: whether the relationship pushes sentiment the other way, carries it neutrally, or reinforces it */
+  sentimentImpact: number;
+}
+
+export interface StakeholderGraph {
+  nodes: string[];
+  edges: GraphEdge[];
+  /** Edges touching each node, at either end */
+  incident: Map<string, GraphEdge[]>;
+}
+
+const DEFAULT_STRENGTH = 3;
+const DEFAULT_CONFIDENCE = 3;
+
+function scale(value: number | null, fallback: number): number {
+  return Math.max(1, Math.min(5, value ?? fallback)) / 5;
+}
+
+/** How much a relationship counts: strength and confidence (1–5, default 3) multiplied. */
+export function edgeWeight(r: Pick<Relationship, 'strength' | 'confidence'>): number {
+  return scale(r.strength, DEFAULT_STRENGTH) * scale(r.confidence, DEFAULT_CONFIDENCE);
+}
+
+export function isBidirectional(r: Pick<Relationship, 'directionality'>): boolean {
+  return r.directionality?.toLowerCase() === 'bidirectional';
+}
+
+/** The graph over `nodeIds`; relationships with an end outside it, and self-loops, are left out. */
+export function buildGraph(nodeIds: Iterable<string>, relationships: Relationship[]): StakeholderGraph {
+  const nodes = [...new Set(nodeIds)];
+  const incident = new Map<string, GraphEdge[]>(nodes.map((id) => [id, []]));
+  const edges: GraphEdge[] = [];
+  for (const r of relationships) {
+    const from = incident.get(r.from_stakeholder_id);
+    const to = incident.get(r.to_stakeholder_id);
+    if (!from || !to || r.from_stakeholder_id === r.to_stakeholder_id) continue;
+    const edge: GraphEdge = {
+      id: r.id,
+      from: r.from_stakeholder_id,
+      to: r.to_stakeholder_id,
+      type: r.relation_type,
+      weight: edgeWeight(r),
+      bidirectional: isBidirectional(r),
+      sentimentImpact: Math.sign(r.sentiment_impact ?? 0),
+    };
+    edges.push(edge);
+    from.push(edge);
+    to.push(edge);
+  }
+  return { nodes, edges, incident };
+}
+
+/** The node at the other end of `edge` from `id`. */
+export function otherEnd(edge: GraphEdge, id: string): string {
+  return edge.from === id ? edge.to : edge.from;
+}
+
+/** Adjacent nodes, once each however many relationships join them. */
+export function neighborSets(graph: StakeholderGraph): Map<string, Set<string>> {
+  const neighbors = new Map<string, Set<string>>();
+  for (const [id, edges] of graph.incident) neighbors.set(id, new Set(edges.map((e) => otherEnd(e, id))));
+  return neighbors;
+}
@@ -0,0 +1,67 @@
+import type { Stakeholder } from '../../types/database';
+import { otherEnd } from './model';
+import type { GraphEdge, StakeholderGraph } from './model';
+
+export interface PathStep {
+  /** Stakeholder reached by this step */
+  id: string;
+  /** Relationship walked to get here; either direction */
+  edge: GraphEdge;
+}
+
+export interface ConnectedOpponent {
+  stakeholder: Stakeholder;
+  hops: number;
+  /** Company member the path starts from */
+  fromId: string;
+  steps: PathStep[];
+}
+
+/**
+ * OPPONENT stakeholders within `maxHops` of any of the company's people, each with one shortest
+ * connecting path. Relationships are walked in either direction. Opponents inside the company
+ * itself come back with zero hops.
+ */
+export function opponentsNearCompany(
+  graph: StakeholderGraph,
+  stakeholders: Stakeholder[],
+  companyId: string,
+  maxHops: number
+): ConnectedOpponent[] {
+  const byId = new Map(stakeholders.map((s) => [s.id, s]));
+  const reachedBy = new Map<string, { hops: number; from: string; via: GraphEdge | null }>();
+  const queue: string[] = [];
+  for (const id of graph.nodes) {
+    if (byId.get(id)?.company_id !== companyId) continue;
+    reachedBy.set(id, { hops: 0, from: id, via: null });
+    queue.push(id);
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    const id = queue[head];
+    const { hops, from } = reachedBy.get(id)!;
+    if (hops === maxHops) continue;
+    for (const edge of graph.incident.get(id) ?? []) {
+      const next = otherEnd(edge, id);
+      if (reachedBy.has(next)) continue;
+      reachedBy.set(next, { hops: hops + 1, from, via: edge });
+      queue.push(next);
+    }
+  }
+
+  const found: ConnectedOpponent[] = [];
+  for (const [id, reach] of reachedBy) {
+    const stakeholder = byId.get(id);
+    if (stakeholder?.sentiment !== 'OPPONENT') continue;
+    const steps: PathStep[] = [];
+    let at = id;
+    let step = reach;
+    while (step.via) {
+      steps.unshift({ id: at, edge: step.via });
+      at = otherEnd(step.via, at);
+      step = reachedBy.get(at)!;
+    }
+    found.push({ stakeholder, hops: reach.hops, fromId: reach.from, steps });
+  }
+  return found.sort((a, b) => a.hops - b.hops || a.stakeholder.full_name.localeCompare(b.stakeholder.full_name));
+}
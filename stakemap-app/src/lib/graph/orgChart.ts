@@ -0,0 +1,143 @@
+import type { Relationship, SeniorityLevel, Stakeholder } from '../../types/database';
+
+/** Another company, collapsed to one node, with the relationships that reach it */
+export interface CompanyStub {
+  companyId: string;
+  name: string;
+  x: number;
+  y: number;
+  /** Relationships from each member of the charted company to the stub's company */
+  links: { stakeholderId: string; count: number }[];
+}
+
+export interface OrgChart {
+  companyId: string;
+  positions: Record<string, { x: number; y: number }>;
+  /** Members with no reporting line inside the company, placed in the side lane */
+  unattached: string[];
+  stubs: CompanyStub[];
+}
+
+const COLUMN_WIDTH = 140;
+const ROW_HEIGHT = 130;
+const LANE_GAP = 220;
+const LANE_SPACING = 80;
+const STUB_GAP = 280;
+/** Extra columns between separate trees */
+const TREE_GAP = 0.5;
+
+const SENIORITY_ROW: Record<SeniorityLevel, number> = { C_LEVEL: 0, VP: 1, DIRECTOR: 2, MANAGER: 3, IC: 4 };
+
+const companyName = (s: Stakeholder) => s.companies?.name ?? 'Unknown company';
+
+/** Most senior first, then by name; unset seniority goes last */
+function bySeniority(a: Stakeholder, b: Stakeholder): number {
+  const rank = (s: Stakeholder) => (s.seniority_level ? SENIORITY_ROW[s.seniority_level] : 5);
+  return rank(a) - rank(b) || a.full_name.localeCompare(b.full_name);
+}
+
+/**
+ * Tidy-tree org chart of one company from its Reports To lines. Roots sit at the top and each
+ * row holds one seniority level (a report always sits at least one row below their manager).
+ * Someone with several managers hangs under the strongest line; lines that would close a loop
+ * are left out. Relationships to other companies end at one stub per company.
+ */
+export function orgChartLayout(stakeholders: Stakeholder[], relationships: Relationship[], companyId: string): OrgChart {
+  const byId = new Map(stakeholders.map((s) => [s.id, s]));
+  const members = stakeholders.filter((s) => s.company_id === companyId).sort(bySeniority);
+  const memberIds = new Set(members.map((s) => s.id));
+
+  // Primary manager per member
+  const line = new Map<string, Relationship>();
+  for (const r of relationships) {
+    if (r.relation_type !== 'REPORTS_TO' || r.from_stakeholder_id === r.to_stakeholder_id) continue;
+    if (!memberIds.has(r.from_stakeholder_id) || !memberIds.has(r.to_stakeholder_id)) continue;
+    const current = line.get(r.from_stakeholder_id);
+    if (!current || (r.strength ?? 3) > (current.strength ?? 3)
+      || ((r.strength ?? 3) === (current.strength ?? 3) && bySeniority(byId.get(r.to_stakeholder_id)!, byId.get(current.to_stakeholder_id)!) < 0)) {
+      line.set(r.from_stakeholder_id, r);
+    }
+  }
+  const parent = new Map([...line].map(([id, r]) => [id, r.to_stakeholder_id]));
+  for (const s of members) {
+    const seen = new Set([s.id]);
+    let at = s.id;
+    for (let up = parent.get(at); up; up = parent.get(at)) {
+      if (seen.has(up)) {
+        // Cut the line that closes the loop; people below the loop keep their managers
+        parent.delete(at);
+        break;
+      }
+      seen.add(up);
+      at = up;
+    }
+  }
+
+  const children = new Map<string, Stakeholder[]>();
+  for (const s of members) {
+    const p = parent.get(s.id);
+    if (!p) continue;
+    if (!children.has(p)) children.set(p, []);
+    children.get(p)!.push(s);
+  }
+  const roots = members.filter((s) => !parent.has(s.id) && children.has(s.id));
+  const unattached = members.filter((s) => !parent.has(s.id) && !children.has(s.id)).map((s) => s.id);
+
+  // Leaves take the next free column, managers centre over their reports
+  const positions: Record<string, { x: number; y: number }> = {};
+  let nextColumn = 0;
+  const place = (s: Stakeholder, minRow: number) => {
+    const row = Math.max(minRow, s.seniority_level ? SENIORITY_ROW[s.seniority_level] : minRow);
+    const reports = children.get(s.id) ?? [];
+    let column: number;
+    if (reports.length === 0) {
+      column = nextColumn++;
+    } else {
+      const columns = reports.map((c) => place(c, row + 1));
+      column = (columns[0] + columns[columns.length - 1]) / 2;
+    }
+    positions[s.id] = { x: column * COLUMN_WIDTH, y: row * ROW_HEIGHT };
+    return column;
+  };
+  for (const root of roots) {
+    place(root, 0);
+    nextColumn += TREE_GAP;
+  }
+
+  const placed = Object.values(positions);
+  const minX = placed.length > 0 ? Math.min(...placed.map((p) => p.x)) : 0;
+  const maxX = placed.length > 0 ? Math.max(...placed.map((p) => p.x)) : 0;
+  const maxY = placed.length > 0 ? Math.max(...placed.map((p) => p.y)) : 0;
+
+  // Side lane to the left of the trees
+  const laneX = placed.length > 0 ? minX - LANE_GAP : 0;
+  unattached.forEach((id, i) => {
+    positions[id] = { x: laneX, y: i * LANE_SPACING };
+  });
+
+  // One stub per other company, stacked to the right
+  const links = new Map<string, Map<string, number>>();
+  for (const r of relationships) {
+    const fromMember = memberIds.has(r.from_stakeholder_id);
+    if (fromMember === memberIds.has(r.to_stakeholder_id)) continue;
+    const memberId = fromMember ? r.from_stakeholder_id : r.to_stakeholder_id;
+    const other = byId.get(fromMember ? r.to_stakeholder_id : r.from_stakeholder_id);
+    if (!other) continue;
+    if (!links.has(other.company_id)) links.set(other.company_id, new Map());
+    const counts = links.get(other.company_id)!;
+    counts.set(memberId, (counts.get(memberId) ?? 0) + 1);
+  }
+  const total = (counts: Map<string, number>) => [...counts.values()].reduce((a, b) => a + b, 0);
+  const stubCompanies = [...links].sort((a, b) => total(b[1]) - total(a[1]));
+  const height = Math.max(maxY, (unattached.length - 1) * LANE_SPACING);
+  const stubTop = height / 2 - ((stubCompanies.length - 1) * ROW_HEIGHT) / 2;
+  const stubs = stubCompanies.map(([otherId, counts], i) => ({
+    companyId: otherId,
+    name: companyName(stakeholders.find((s) => s.company_id === otherId)!),
+    x: maxX + STUB_GAP,
+    y: stubTop + i * ROW_HEIGHT,
+    links: [...counts].map(([stakeholderId, count]) => ({ stakeholderId, count })),
+  }));
+
+  return { companyId, positions, unattached, stubs };
+}
@@ -0,0 +1,155 @@
+import type { RelationType } from '../../types/database';
+import { MinHeap } from './heap';
+import type { GraphEdge, StakeholderGraph } from './model';
+
+export interface PathOptions {
+  /** Prefer strong, confident relationships over fewer hops */
+  weighted: boolean;
+  /** Only walk relationships from → to (bidirectional ones either way) */
+  directed: boolean;
+  /** Relation types that may be walked; empty means all */
+  relationTypes: RelationType[];
+  /** Relation types that are never walked, e.g. BLOCKS */
+  excludeTypes: RelationType[];
+  /** Stakeholders a path may not pass through (the ends are always allowed) */
+  avoidIds: Set<string>;
+  /** How many alternative paths to return */
+  k: number;
+}
+
+export interface FoundPath {
+  nodeIds: string[];
+  edges: GraphEdge[];
+  /** Product of the edge weights, in (0, 1]; 1 is the warmest possible introduction */
+  score: number;
+  /** What the search minimised: about hops, or −ln(score) when weighted */
+  cost: number;
+}
+
+export const DEFAULT_PATH_OPTIONS: PathOptions = {
+  weighted: true,
+  directed: false,
+  relationTypes: [],
+  excludeTypes: [],
+  avoidIds: new Set(),
+  k: 3,
+};
+
+interface Arc {
+  from: string;
+  to: string;
+  edge: GraphEdge;
+  cost: number;
+}
+
+const arcKey = (from: string, to: string) => `${from}>${to}`;
+
+/** Small enough to only ever break ties: fewer hops among equally warm paths, and vice versa */
+const TIE_BREAK = 1e-6;
+
+/** Walkable arcs under `options`; of several relationships between two people only the cheapest is kept. */
+function buildArcs(graph: StakeholderGraph, options: PathOptions): Map<string, Arc[]> {
+  const allowed = options.relationTypes.length > 0 ? new Set(options.relationTypes) : null;
+  const excluded = new Set(options.excludeTypes);
+  const best = new Map<string, Arc>();
+  const offer = (from: string, to: string, edge: GraphEdge) => {
+    const coldness = -Math.log(edge.weight);
+    const cost = options.weighted ? coldness + TIE_BREAK : 1 + coldness * TIE_BREAK;
+    const key = arcKey(from, to);
+    const current = best.get(key);
+    if (!current || cost < current.cost) best.set(key, { from, to, edge, cost });
+  };
+  for (const edge of graph.edges) {
+    if (excluded.has(edge.type) || (allowed && !allowed.has(edge.type))) continue;
+    offer(edge.from, edge.to, edge);
+    if (!options.directed || edge.bidirectional) offer(edge.to, edge.from, edge);
+  }
+  const arcs = new Map<string, Arc[]>(graph.nodes.map((id) => [id, []]));
+  for (const arc of best.values()) arcs.get(arc.from)!.push(arc);
+  return arcs;
+}
+
+function dijkstra(
+  arcs: Map<string, Arc[]>,
+  source: string,
+  target: string,
+  blockedNodes: Set<string>,
+  blockedArcs: Set<string>
+): { nodeIds: string[]; arcs: Arc[]; cost: number } | null {
+  const dist = new Map<string, number>([[source, 0]]);
+  const via = new Map<string, Arc>();
+  const heap = new MinHeap<string>();
+  heap.push(source, 0);
+  const done = new Set<string>();
+  while (heap.size > 0) {
+    const id = heap.pop()!;
+    if (done.has(id)) continue;
+    done.add(id);
+    if (id === target) break;
+    for (const arc of arcs.get(id) ?? []) {
+      if (blockedNodes.has(arc.to) || blockedArcs.has(arcKey(arc.from, arc.to))) continue;
+      const d = dist.get(id)! + arc.cost;
+      if (d < (dist.get(arc.to) ?? Infinity)) {
+        dist.set(arc.to, d);
+        via.set(arc.to, arc);
+        heap.push(arc.to, d);
+      }
+    }
+  }
+  if (!done.has(target)) return null;
+  const pathArcs: Arc[] = [];
+  for (let id = target; id !== source; id = via.get(id)!.from) pathArcs.unshift(via.get(id)!);
+  return { nodeIds: [source, ...pathArcs.map((a) => a.to)], arcs: pathArcs, cost: dist.get(target)! };
+}
+
+/**
+ * The `k` best loopless paths from `fromId` to `toId`, best first (Yen's algorithm).
+ * Returns an empty list when the two are not connected under the options.
+ */
+export function findPaths(graph: StakeholderGraph, fromId: string, toId: string, options: PathOptions): FoundPath[] {
+  if (fromId === toId) return [];
+  const arcs = buildArcs(graph, options);
+  const avoid = new Set([...options.avoidIds].filter((id) => id !== fromId && id !== toId));
+  const sameNodes = (a: string[], b: string[], length: number) => a.slice(0, length).every((id, i) => b[i] === id);
+
+  const first = dijkstra(arcs, fromId, toId, avoid, new Set());
+  if (!first) return [];
+  const found = [first];
+  const candidates: typeof found = [];
+  const seen = new Set([first.nodeIds.join('>')]);
+
+  while (found.length < options.k) {
+    const previous = found[found.length - 1];
+    for (let i = 0; i < previous.nodeIds.length - 1; i++) {
+      const spur = previous.nodeIds[i];
+      const rootNodes = previous.nodeIds.slice(0, i + 1);
+      const rootArcs = previous.arcs.slice(0, i);
+      // Leave the root the way no earlier path did, and never loop back into it
+      const blockedArcs = new Set<string>();
+      for (const path of found) {
+        if (path.nodeIds.length > i + 1 && sameNodes(rootNodes, path.nodeIds, i + 1)) {
+          blockedArcs.add(arcKey(path.nodeIds[i], path.nodeIds[i + 1]));
+        }
+      }
+      const blockedNodes = new Set([...avoid, ...rootNodes.slice(0, -1)]);
+      const tail = dijkstra(arcs, spur, toId, blockedNodes, blockedArcs);
+      if (!tail) continue;
+      const nodeIds = [...rootNodes.slice(0, -1), ...tail.nodeIds];
+      const key = nodeIds.join('>');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const pathArcs = [...rootArcs, ...tail.arcs];
+      candidates.push({ nodeIds, arcs: pathArcs, cost: pathArcs.reduce((sum, a) => sum + a.cost, 0) });
+    }
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.cost - b.cost || a.nodeIds.length - b.nodeIds.length);
+    found.push(candidates.shift()!);
+  }
+
+  return found.map((p) => ({
+    nodeIds: p.nodeIds,
+    edges: p.arcs.map((a) => a.edge),
+    score: p.arcs.reduce((product, a) => product * a.edge.weight, 1),
+    cost: p.cost,
+  }));
+}
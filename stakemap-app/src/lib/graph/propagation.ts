@@ -0,0 +1,113 @@
+import type { RelationType, SentimentType, Stakeholder } from '../../types/database';
+import type { StakeholderGraph } from './model';
+
+/** Sentiment on a −1 (opponent) … +1 (ally) scale, by stakeholder id */
+export type SentimentValues = Record<string, number>;
+
+export interface SentimentShift {
+  stakeholder: Stakeholder;
+  before: number;
+  after: number;
+  predicted: SentimentType;
+}
+
+export interface PropagationResult {
+  /** Values after each step; index 0 is the starting point with the seeds won over */
+  steps: SentimentValues[];
+  /** Everyone besides the seeds whose category would change, biggest moves first */
+  shifts: SentimentShift[];
+}
+
+/**
+ * Which way opinion travels along each relation type: forward from the `from` end to the
+ * `to` end (A influences B), backward for reporting lines (a manager sways their reports).
+ * Other relation types carry no influence in the model.
+ */
+const INFLUENCE_FLOW: Partial<Record<RelationType, 'forward' | 'backward'>> = {
+  INFLUENCES: 'forward',
+  ADVISES: 'forward',
+  SPONSORS: 'forward',
+  REPORTS_TO: 'backward',
+};
+
+/** Pull per sentiment_impact: reinforcing, unspecified (still half a pull), or contrarian */
+const IMPACT_FACTOR: Record<number, number> = { 1: 1, 0: 0.5, [-1]: -1 };
+
+const SENTIMENT_VALUE: Record<SentimentType, number> = { ALLY: 1, NEUTRAL: 0, OPPONENT: -1, UNKNOWN: 0 };
+
+/** How far towards the combined pull of their influencers someone moves per step */
+const STEP_RATE = 0.5;
+const ALLY_THRESHOLD = 1 / 3;
+
+export function predictedSentiment(value: number, current: SentimentType): SentimentType {
+  if (value >= ALLY_THRESHOLD) return 'ALLY';
+  if (value <= -ALLY_THRESHOLD) return 'OPPONENT';
+  return current === 'UNKNOWN' ? 'UNKNOWN' : 'NEUTRAL';
+}
+
+/**
+ * What-if: the `seedIds` are won over (held at ALLY) and sentiment spreads for `stepCount`
+ * steps. Each step everyone moves towards the sentiment of those who influence them, weighted
+ * by relationship strength × confidence and sentiment_impact (a contrarian tie pulls towards the
+ * opposite). People with a confident sentiment (sentiment_confidence 5) move least.
+ */
+export function simulateInfluence(
+  graph: StakeholderGraph,
+  stakeholders: Stakeholder[],
+  seedIds: string[],
+  stepCount: number
+): PropagationResult {
+  const byId = new Map(stakeholders.map((s) => [s.id, s]));
+  const seeds = new Set(seedIds);
+  const incoming = new Map<string, { from: string; pull: number }[]>(graph.nodes.map((id) => [id, []]));
+  for (const edge of graph.edges) {
+    const flow = INFLUENCE_FLOW[edge.type];
+    if (!flow) continue;
+    const pull = edge.weight * IMPACT_FACTOR[edge.sentimentImpact];
+    if (flow === 'forward' || edge.bidirectional) incoming.get(edge.to)!.push({ from: edge.from, pull });
+    if (flow === 'backward' || edge.bidirectional) incoming.get(edge.from)!.push({ from: edge.to, pull });
+  }
+  const susceptibility = (id: string) => {
+    const confidence = byId.get(id)?.sentiment_confidence ?? 3;
+    return 1 - (Math.max(1, Math.min(5, confidence)) - 1) / 5;
+  };
+
+  const start: SentimentValues = {};
+  for (const id of graph.nodes) {
+    start[id] = seeds.has(id) ? 1 : SENTIMENT_VALUE[byId.get(id)?.sentiment ?? 'UNKNOWN'];
+  }
+  const steps = [start];
+  for (let step = 0; step < stepCount; step++) {
+    const current = steps[steps.length - 1];
+    const next: SentimentValues = {};
+    for (const id of graph.nodes) {
+      const sources = incoming.get(id)!;
+      if (seeds.has(id) || sources.length === 0) {
+        next[id] = current[id];
+        continue;
+      }
+      let push = 0;
+      let total = 0;
+      for (const { from, pull } of sources) {
+        const target = pull >= 0 ? current[from] : -current[from];
+        push += Math.abs(pull) * (target - current[id]);
+        total += Math.abs(pull);
+      }
+      const moved = current[id] + STEP_RATE * susceptibility(id) * (push / Math.max(1, total));
+      next[id] = Math.max(-1, Math.min(1, moved));
+    }
+    steps.push(next);
+  }
+
+  const final = steps[steps.length - 1];
+  const shifts: SentimentShift[] = [];
+  for (const id of graph.nodes) {
+    const stakeholder = byId.get(id);
+    if (!stakeholder || seeds.has(id)) continue;
+    const predicted = predictedSentiment(final[id], stakeholder.sentiment);
+    if (predicted === stakeholder.sentiment) continue;
+    shifts.push({ stakeholder, before: SENTIMENT_VALUE[stakeholder.sentiment], after: final[id], predicted });
+  }
+  shifts.sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before));
+  return { steps, shifts };
+}
@@ -0,0 +1,180 @@
+import type { Relationship, SeniorityLevel, Stakeholder } from '../../types/database';
+
+export type ReportingIssueKind = 'cycle' | 'multiple_managers' | 'cross_company' | 'seniority_inversion';
+
+export interface ReportingIssue {
+  kind: ReportingIssueKind;
+  /** The loop in order; otherwise the report first, then their manager(s) */
+  stakeholderIds: string[];
+  relationshipIds: string[];
+  message: string;
+}
+
+export interface ReportingLineCheck {
+  /** Problems that block saving */
+  errors: string[];
+  /** Unusual but possible; the user confirms before saving */
+  warnings: string[];
+}
+
+export const REPORTING_ISSUE_KINDS: { kind: ReportingIssueKind; label: string; description: string }[] = [
+  { kind: 'cycle', label: 'Reporting cycles', description: 'People who end up reporting to themselves' },
+  { kind: 'multiple_managers', label: 'Multiple managers', description: 'People with more than one Reports To line' },
+  { kind: 'cross_company', label: 'Cross-company reporting lines', description: 'Reports To between people at different companies' },
+  { kind: 'seniority_inversion', label: 'Seniority inversions', description: 'Someone reporting to a more junior person' },
+];
+
+const SENIORITY_RANK: Record<SeniorityLevel, number> = { IC: 1, MANAGER: 2, DIRECTOR: 3, VP: 4, C_LEVEL: 5 };
+
+const SENIORITY_LABEL: Record<SeniorityLevel, string> = {
+  C_LEVEL: 'C-level', VP: 'VP', DIRECTOR: 'Director', MANAGER: 'Manager', IC: 'IC',
+};
+
+/** Reports To lines between active stakeholders; `from` reports to `to`. */
+function reportingLines(stakeholders: Stakeholder[], relationships: Relationship[]): Relationship[] {
+  const active = new Set(stakeholders.filter((s) => s.status !== 'archived').map((s) => s.id));
+  return relationships.filter(
+    (r) => r.relation_type === 'REPORTS_TO'
+      && r.from_stakeholder_id !== r.to_stakeholder_id
+      && active.has(r.from_stakeholder_id)
+      && active.has(r.to_stakeholder_id)
+  );
+}
+
+function managersOf(lines: Relationship[]): Map<string, Relationship[]> {
+  const managers = new Map<string, Relationship[]>();
+  for (const r of lines) {
+    const list = managers.get(r.from_stakeholder_id);
+    if (list) list.push(r);
+    else managers.set(r.from_stakeholder_id, [r]);
+  }
+  return managers;
+}
+
+/** The Reports To lines leading from `start` up to `target`, or null when `target` isn't above `start`. */
+function chainUp(managers: Map<string, Relationship[]>, start: string, target: string): Relationship[] | null {
+  const via = new Map<string, Relationship | null>([[start, null]]);
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    if (id === target) {
+      const chain: Relationship[] = [];
+      for (let r = via.get(id); r; r = via.get(r.from_stakeholder_id)) chain.unshift(r);
+      return chain;
+    }
+    for (const r of managers.get(id) ?? []) {
+      if (via.has(r.to_stakeholder_id)) continue;
+      via.set(r.to_stakeholder_id, r);
+      queue.push(r.to_stakeholder_id);
+    }
+  }
+  return null;
+}
+
+/** `report` is more senior than `manager`, when both seniorities are set. */
+function isInverted(report: Stakeholder, manager: Stakeholder): boolean {
+  if (!report.seniority_level || !manager.seniority_level) return false;
+  return SENIORITY_RANK[report.seniority_level] > SENIORITY_RANK[manager.seniority_level];
+}
+
+/** Every reporting-line problem among the active stakeholders, grouped by kind. */
+export function findReportingIssues(stakeholders: Stakeholder[], relationships: Relationship[]): ReportingIssue[] {
+  const byId = new Map(stakeholders.map((s) => [s.id, s]));
+  const name = (id: string) => byId.get(id)?.full_name ?? 'Unknown';
+  const lines = reportingLines(stakeholders, relationships);
+  const managers = managersOf(lines);
+  const issues: ReportingIssue[] = [];
+
+  // Each line that closes a loop is reported once per loop, found from the loop's first line
+  const inCycle = new Set<string>();
+  for (const r of lines) {
+    if (inCycle.has(r.id)) continue;
+    const chain = chainUp(managers, r.to_stakeholder_id, r.from_stakeholder_id);
+    if (!chain) continue;
+    const loop = [r, ...chain];
+    loop.forEach((l) => inCycle.add(l.id));
+    const ids = loop.map((l) => l.from_stakeholder_id);
+    issues.push({
+      kind: 'cycle',
+      stakeholderIds: ids,
+      relationshipIds: loop.map((l) => l.id),
+      message: [...ids, ids[0]].map(name).join(' → '),
+    });
+  }
+
+  for (const [reportId, list] of managers) {
+    const managerIds = [...new Set(list.map((r) => r.to_stakeholder_id))];
+    if (managerIds.length < 2) continue;
+    issues.push({
+      kind: 'multiple_managers',
+      stakeholderIds: [reportId, ...managerIds],
+      relationshipIds: list.map((r) => r.id),
+      message: `${name(reportId)} reports to ${managerIds.map(name).join(', ')}`,
+    });
+  }
+
+  for (const r of lines) {
+    const report = byId.get(r.from_stakeholder_id)!;
+    const manager = byId.get(r.to_stakeholder_id)!;
+    if (report.company_id !== manager.company_id) {
+      issues.push({
+        kind: 'cross_company',
+        stakeholderIds: [report.id, manager.id],
+        relationshipIds: [r.id],
+        message: `${report.full_name} reports to ${manager.full_name}, who is at another company`,
+      });
+    }
+    if (isInverted(report, manager)) {
+      issues.push({
+        kind: 'seniority_inversion',
+        stakeholderIds: [report.id, manager.id],
+        relationshipIds: [r.id],
+        message: `${report.full_name} (${SENIORITY_LABEL[report.seniority_level!]}) reports to ${manager.full_name} (${SENIORITY_LABEL[manager.seniority_level!]})`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks a Reports To line before it is created, or before an existing relationship (`id`)
+ * becomes one. A loop or a duplicate blocks saving; the rest only warn.
+ */
+export function checkReportingLine(
+  line: { id?: string; from: string; to: string },
+  stakeholders: Stakeholder[],
+  relationships: Relationship[]
+): ReportingLineCheck {
+  const byId = new Map(stakeholders.map((s) => [s.id, s]));
+  const name = (id: string) => byId.get(id)?.full_name ?? 'Unknown';
+  const lines = reportingLines(stakeholders, relationships.filter((r) => r.id !== line.id));
+  const managers = managersOf(lines);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const current = [...new Set((managers.get(line.from) ?? []).map((r) => r.to_stakeholder_id))];
+  if (current.includes(line.to)) {
+    errors.push(`${name(line.from)} already reports to ${name(line.to)}.`);
+  } else if (current.length > 0) {
+    warnings.push(`${name(line.from)} already reports to ${current.map(name).join(', ')}; this adds another manager.`);
+  }
+
+  const chain = chainUp(managers, line.to, line.from);
+  if (chain) {
+    const loop = [line.from, line.to, ...chain.map((r) => r.to_stakeholder_id)];
+    errors.push(`This would create a reporting loop: ${loop.map(name).join(' → ')}.`);
+  }
+
+  const report = byId.get(line.from);
+  const manager = byId.get(line.to);
+  if (report && manager) {
+    if (report.company_id !== manager.company_id) {
+      warnings.push(`${report.full_name} and ${manager.full_name} work at different companies.`);
+    }
+    if (isInverted(report, manager)) {
+      warnings.push(`${report.full_name} (${SENIORITY_LABEL[report.seniority_level!]}) would report to ${manager.full_name} (${SENIORITY_LABEL[manager.seniority_level!]}), who is more junior.`);
+    }
+  }
+  return { errors, warnings };
+}
@@ -0,0 +1,23 @@
+import { computeLayout } from './graph';
+import type { LayoutInput } from './graph';
+import type { LayoutWorkerMessage } from './layoutWorker';
+
+function post(message: LayoutWorkerMessage) {
+  self.postMessage(message);
+}
+
+// One layout per worker; the page terminates it when done or cancelled
+self.onmessage = (event: MessageEvent<LayoutInput>) => {
+  try {
+    let reported = 0;
+    const positions = computeLayout(event.data, (fraction) => {
+      // At most about a hundred progress messages
+      if (fraction < 1 && fraction - reported < 0.01) return;
+      reported = fraction;
+      post({ type: 'progress', fraction });
+    });
+    post({ type: 'done', positions });
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : 'Layout failed' });
+  }
+};
@@ -0,0 +1,174 @@
+import type { LayoutSaveResult, LayoutWrite } from './repository';
+import type { MapLayout } from '../types/database';
+
+/** Moves are written once they have settled for this long… */
+const DEBOUNCE_MS = 600;
+/** …or once the oldest unsaved one is this old, so a long drag session still saves */
+const MAX_WAIT_MS = 3000;
+/** Rows per write; an auto-layout of a large map goes out in several */
+const BATCH_SIZE = 500;
+/** Failed writes are retried with backoff (1 s, 2 s, 4 s, …) this many times before giving up */
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 1000;
+
+export type LayoutQueueStatus = 'saved' | 'pending' | 'saving' | 'retrying' | 'failed';
+
+export interface LayoutQueueState {
+  status: LayoutQueueStatus;
+  /** Positions not written yet */
+  unsaved: number;
+  /** The last failure, while retrying or after giving up */
+  error: string | null;
+}
+
+/**
+ * A position that was not written because the node moved first: in another tab or session, or in
+ * a shared layout published since (`theirs` is then the shared row).
+ */
+export interface LayoutConflict {
+  mine: LayoutWrite;
+  theirs: MapLayout;
+}
+
+export interface LayoutQueueOptions {
+  save: (rows: LayoutWrite[]) => Promise<LayoutSaveResult>;
+  /** Rows written, as stored */
+  onSaved?: (rows: MapLayout[]) => void;
+  onConflicts?: (conflicts: LayoutConflict[]) => void;
+  onStateChange?: (state: LayoutQueueState) => void;
+}
+
+export interface LayoutQueue {
+  /**
+   * Queue positions. A node moved again before its last move was written is written once, with
+   * the latest position, checked against the version seen before the first move. After the queue
+   * has given up, queueing starts it again.
+   */
+  enqueue(rows: LayoutWrite[]): void;
+  /** Write everything queued now, starting over after a failure; resolves once done or given up. */
+  flush(): Promise<void>;
+  state(): LayoutQueueState;
+}
+
+function rowKey(row: Pick<MapLayout, 'map_id' | 'stakeholder_id'> & { saved_by_user_id?: string | null }): string {
+  return `${row.map_id}|${row.stakeholder_id}|${row.saved_by_user_id ?? ''}`;
+}
+
+/** `row` checked against the versions `earlier` was checked against */
+function withVersionsOf(row: LayoutWrite, earlier: LayoutWrite): LayoutWrite {
+  return { ...row, expected_updated_at: earlier.expected_updated_at, expected_shared_updated_at: earlier.expected_shared_updated_at };
+}
+
+/** Coalesces, batches and retries layout writes (see LayoutRepository.save). */
+export function createLayoutQueue(options: LayoutQueueOptions): LayoutQueue {
+  const pending = new Map<string, LayoutWrite>();
+  let inFlight = 0;
+  let firstQueuedAt = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> | null = null;
+  let attempts = 0;
+  let error: string | null = null;
+  let failed = false;
+
+  function state(): LayoutQueueState {
+    let status: LayoutQueueStatus = 'saved';
+    if (failed) status = 'failed';
+    else if (running) status = error ? 'retrying' : 'saving';
+    else if (pending.size > 0) status = 'pending';
+    return { status, unsaved: pending.size + inFlight, error };
+  }
+
+  function notify() {
+    options.onStateChange?.(state());
+  }
+
+  function schedule() {
+    clearTimeout(timer);
+    // A running flush picks new rows up by itself; a failed queue waits for the next move or flush
+    if (running || failed || pending.size === 0) return;
+    const wait = Math.max(0, Math.min(DEBOUNCE_MS, firstQueuedAt + MAX_WAIT_MS - Date.now()));
+    timer = setTimeout(() => void flush(), wait);
+  }
+
+  /** Queue a row, keeping the version check of an unsaved earlier move of the same node */
+  function put(row: LayoutWrite) {
+    const key = rowKey(row);
+    const earlier = pending.get(key);
+    pending.set(key, earlier ? withVersionsOf(row, earlier) : { ...row });
+  }
+
+  async function drain() {
+    while (pending.size > 0) {
+      const batch = [...pending.values()].slice(0, BATCH_SIZE);
+      for (const row of batch) pending.delete(rowKey(row));
+      inFlight = batch.length;
+      notify();
+      let result: LayoutSaveResult;
+      try {
+        result = await options.save(batch);
+      } catch (e) {
+        inFlight = 0;
+        // Back in the queue; a node moved again meanwhile keeps its newer position
+        for (const row of batch) {
+          const newer = pending.get(rowKey(row));
+          pending.set(rowKey(row), newer ? withVersionsOf(newer, row) : row);
+        }
+        attempts += 1;
+        error = e instanceof Error ? e.message : 'Failed to save positions';
+        if (attempts >= MAX_ATTEMPTS) {
+          failed = true;
+          return;
+        }
+        notify();
+        await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_MS * 2 ** (attempts - 1)));
+        continue;
+      }
+      inFlight = 0;
+      attempts = 0;
+      error = null;
+      // Moves queued while this batch was out are checked against the version it wrote
+      for (const row of result.saved) {
+        const queued = pending.get(rowKey(row));
+        if (!queued) continue;
+        queued.expected_updated_at = row.updated_at;
+        delete queued.expected_shared_updated_at;
+      }
+      options.onSaved?.(result.saved);
+      if (result.conflicts.length > 0) {
+        // Keyed by node: a conflicting shared row has no user
+        const nodeKey = (row: Pick<MapLayout, 'map_id' | 'stakeholder_id'>) => `${row.map_id}|${row.stakeholder_id}`;
+        const mine = new Map(batch.map((row) => [nodeKey(row), row]));
+        options.onConflicts?.(result.conflicts.map((theirs) => ({ mine: mine.get(nodeKey(theirs))!, theirs })));
+      }
+    }
+  }
+
+  function flush(): Promise<void> {
+    clearTimeout(timer);
+    if (!running) {
+      failed = false;
+      attempts = 0;
+      error = null;
+      running = Promise.resolve().then(drain).finally(() => {
+        running = null;
+        notify();
+        schedule();
+      });
+    }
+    return running;
+  }
+
+  return {
+    enqueue(rows) {
+      if (rows.length === 0) return;
+      if (pending.size === 0) firstQueuedAt = Date.now();
+      rows.forEach(put);
+      // A new move tries again after giving up, together with the rows that failed
+      failed = false;
+      schedule();
+      notify();
+    },
+    flush,
+    state,
+  };
+}
@@ -0,0 +1,49 @@
+import { computeLayout } from './graph';
+import type { LayoutInput, Positions } from './graph';
+
+/** Messages from the layout worker */
+export type LayoutWorkerMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; positions: Positions }
+  | { type: 'error'; message: string };
+
+export interface LayoutJob {
+  /** The positions, or null when the job was cancelled */
+  result: Promise<Positions | null>;
+  cancel: () => void;
+}
+
+/**
+ * Computes a layout in a Web Worker so large maps don't freeze the page; cancelling terminates
+ * the worker. Where workers aren't available the layout runs on the main thread.
+ */
+export function startLayoutJob(input: LayoutInput, onProgress?: (fraction: number) => void): LayoutJob {
+  if (typeof Worker === 'undefined') {
+    return { result: Promise.resolve().then(() => computeLayout(input, onProgress)), cancel: () => {} };
+  }
+  const worker = new Worker(new URL('./layout.worker.ts', import.meta.url), { type: 'module' });
+  let settle: (positions: Positions | null) => void = () => {};
+  const result = new Promise<Positions | null>((resolve, reject) => {
+    settle = (positions) => {
+      worker.terminate();
+      resolve(positions);
+    };
+    worker.onmessage = (event: MessageEvent<LayoutWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+      } else if (message.type === 'done') {
+        settle(message.positions);
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Layout failed'));
+    };
+  });
+  worker.postMessage(input);
+  return { result, cancel: () => settle(null) };
+}
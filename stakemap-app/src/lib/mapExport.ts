@@ -0,0 +1,431 @@
+import { A4_LANDSCAPE, imagePagesToPdf } from './pdf';
+import type { PdfImagePage } from './pdf';
+
+export type ExportShape = 'ellipse' | 'star' | 'hexagon' | 'pentagon' | 'diamond' | 'triangle' | 'round-rectangle';
+
+export interface ExportPoint {
+  x: number;
+  y: number;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ExportNode {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  shape: ExportShape;
+  label: string;
+  fill: string;
+  border: string;
+  borderWidth: number;
+  dashedBorder?: boolean;
+  /** Company stubs carry their label inside; people have it underneath */
+  labelInside?: boolean;
+  opacity: number;
+}
+
+export interface ExportEdge {
+  source: string;
+  target: string;
+  color: string;
+  width: number;
+  dashed: boolean;
+  arrow: boolean;
+  opacity: number;
+}
+
+export interface ExportHull {
+  label: string;
+  color: string;
+  /** Padded outline, corners in order */
+  outline: ExportPoint[];
+  /** Centre of the label, above the outline */
+  labelAt: ExportPoint;
+}
+
+export interface LegendItem {
+  label: string;
+  color: string;
+  symbol: 'shape' | 'line' | 'ramp';
+  shape?: ExportShape;
+  dashed?: boolean;
+  /** End colour of a ramp */
+  toColor?: string;
+}
+
+export interface LegendSection {
+  title: string;
+  items: LegendItem[];
+}
+
+/** Everything on a map, in model coordinates, as drawn by the vector and PDF exports. */
+export interface MapScene {
+  title: string;
+  /** Filters and view settings in effect, one line each */
+  summary: string[];
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+  hulls: ExportHull[];
+  legend: LegendSection[];
+}
+
+const FONT = 'Inter, Helvetica, Arial, sans-serif';
+const LABEL_SIZE = 12;
+/** Rough width of a character as a share of the font size, for sizing boxes without a DOM */
+const CHAR_WIDTH = 0.58;
+const GRAPH_PADDING = 40;
+const LEGEND_WIDTH = 190;
+/** Gap between two relationships that share a pair of people, at their midpoint */
+const PARALLEL_EDGE_GAP = 40;
+const ARROW_SIZE = 9;
+/** Resolution of the PDF pages */
+const PRINT_DPI = 300;
+const PAGE_MARGIN = 28;
+/** Detail pages draw the map at this many points per model unit (about its size on screen at 100%) */
+const DETAIL_SCALE = 0.75;
+/** Larger maps are drawn smaller rather than spread over more pages */
+const MAX_DETAIL_PAGES = 24;
+/** Neighbouring detail pages overlap by this share, so nothing is lost on a page edge */
+const PAGE_OVERLAP = 0.05;
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[c]!);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function textWidth(text: string, size: number): number {
+  return text.length * size * CHAR_WIDTH;
+}
+
+/** Corners of a regular polygon or star around (cx, cy), first corner at the top */
+function polygonPoints(shape: ExportShape, cx: number, cy: number, width: number, height: number): ExportPoint[] {
+  const rx = width / 2;
+  const ry = height / 2;
+  const ngon = (sides: number, offset: number, radius = 1) =>
+    Array.from({ length: sides }, (_, i) => {
+      const angle = offset + (2 * Math.PI * i) / sides;
+      return { x: cx + rx * radius * Math.sin(angle), y: cy - ry * radius * Math.cos(angle) };
+    });
+  switch (shape) {
+    case 'triangle':
+      return [{ x: cx, y: cy - ry }, { x: cx + rx, y: cy + ry }, { x: cx - rx, y: cy + ry }];
+    case 'diamond':
+      return [{ x: cx, y: cy - ry }, { x: cx + rx, y: cy }, { x: cx, y: cy + ry }, { x: cx - rx, y: cy }];
+    case 'pentagon':
+      return ngon(5, 0);
+    case 'hexagon':
+      return ngon(6, Math.PI / 6);
+    case 'star': {
+      const outer = ngon(5, 0);
+      const inner = ngon(5, Math.PI / 5, 0.38);
+      return outer.flatMap((p, i) => [p, inner[i]]);
+    }
+    default:
+      return [];
+  }
+}
+
+function shapeSvg(shape: ExportShape, cx: number, cy: number, width: number, height: number, attributes: string): string {
+  if (shape === 'ellipse') {
+    return `<ellipse cx="${round(cx)}" cy="${round(cy)}" rx="${round(width / 2)}" ry="${round(height / 2)}" ${attributes}/>`;
+  }
+  if (shape === 'round-rectangle') {
+    return `<rect x="${round(cx - width / 2)}" y="${round(cy - height / 2)}" width="${round(width)}" height="${round(height)}" rx="${round(Math.min(width, height) / 4)}" ${attributes}/>`;
+  }
+  const points = polygonPoints(shape, cx, cy, width, height).map((p) => `${round(p.x)},${round(p.y)}`).join(' ');
+  return `<polygon points="${points}" ${attributes}/>`;
+}
+
+/** The smooth blob the canvas draws around a hull: quadratic curves through the edge midpoints */
+function hullPath(outline: ExportPoint[]): string {
+  const n = outline.length;
+  const mids = outline.map((p, i) => {
+    const next = outline[(i + 1) % n];
+    return { x: (p.x + next.x) / 2, y: (p.y + next.y) / 2 };
+  });
+  let d = `M${round(mids[0].x)},${round(mids[0].y)}`;
+  for (let i = 0; i < n; i++) {
+    const next = (i + 1) % n;
+    d += ` Q${round(outline[next].x)},${round(outline[next].y)} ${round(mids[next].x)},${round(mids[next].y)}`;
+  }
+  return `${d} Z`;
+}
+
+function hexToRgb(color: string): string {
+  if (!/^#[0-9a-f]{6}$/i.test(color)) return color;
+  return `rgb(${parseInt(color.slice(1, 3), 16)}, ${parseInt(color.slice(3, 5), 16)}, ${parseInt(color.slice(5, 7), 16)})`;
+}
+
+/**
+ * Edges as SVG: relationships between the same two people bend apart like on the canvas, and
+ * each line stops at the edge of its nodes so the arrowhead stays visible.
+ */
+function edgesSvg(scene: MapScene): string {
+  const nodes = new Map(scene.nodes.map((n) => [n.id, n]));
+  const pairs = new Map<string, ExportEdge[]>();
+  for (const edge of scene.edges) {
+    if (!nodes.has(edge.source) || !nodes.has(edge.target) || edge.source === edge.target) continue;
+    const key = edge.source < edge.target ? `${edge.source}|${edge.target}` : `${edge.target}|${edge.source}`;
+    if (!pairs.has(key)) pairs.set(key, []);
+    pairs.get(key)!.push(edge);
+  }
+  const parts: string[] = [];
+  for (const group of pairs.values()) {
+    group.forEach((edge, i) => {
+      const from = nodes.get(edge.source)!;
+      const to = nodes.get(edge.target)!;
+      const length = Math.max(0.01, Math.hypot(to.x - from.x, to.y - from.y));
+      // Offsets run along the normal of the pair (not of each edge), so every edge gets its own lane
+      const flip = edge.source < edge.target ? 1 : -1;
+      const nx = (-(to.y - from.y) / length) * flip;
+      const ny = ((to.x - from.x) / length) * flip;
+      const offset = (i - (group.length - 1) / 2) * PARALLEL_EDGE_GAP;
+      const control = { x: (from.x + to.x) / 2 + nx * offset * 2, y: (from.y + to.y) / 2 + ny * offset * 2 };
+      const trim = (node: ExportNode, toward: ExportPoint, extra: number) => {
+        const dx = toward.x - node.x;
+        const dy = toward.y - node.y;
+        const d = Math.max(0.01, Math.hypot(dx, dy));
+        const r = Math.max(node.width, node.height) / 2 + node.borderWidth / 2 + extra;
+        return { x: node.x + (dx / d) * r, y: node.y + (dy / d) * r };
+      };
+      const start = trim(from, control, 0);
+      const tip = trim(to, control, 0);
+      const end = edge.arrow ? trim(to, control, ARROW_SIZE) : tip;
+      const stroke = `stroke="${edge.color}" stroke-width="${round(edge.width)}" fill="none"${edge.dashed ? ' stroke-dasharray="6 4"' : ''}`;
+      const opacity = round(0.65 * edge.opacity);
+      const d = offset === 0
+        ? `M${round(start.x)},${round(start.y)} L${round(end.x)},${round(end.y)}`
+        : `M${round(start.x)},${round(start.y)} Q${round(control.x)},${round(control.y)} ${round(end.x)},${round(end.y)}`;
+      parts.push(`<path d="${d}" ${stroke} opacity="${opacity}"/>`);
+      if (edge.arrow) {
+        const dx = tip.x - end.x;
+        const dy = tip.y - end.y;
+        const d2 = Math.max(0.01, Math.hypot(dx, dy));
+        const half = ARROW_SIZE * 0.6 + edge.width / 2;
+        const wing = (sign: number) => `${round(end.x + (-dy / d2) * half * sign)},${round(end.y + (dx / d2) * half * sign)}`;
+        parts.push(`<polygon points="${round(tip.x)},${round(tip.y)} ${wing(1)} ${wing(-1)}" fill="${edge.color}" opacity="${opacity}"/>`);
+      }
+    });
+  }
+  return parts.join('\n');
+}
+
+/** Hulls, relationships and people, in model coordinates */
+function graphSvg(scene: MapScene): string {
+  const hulls = scene.hulls
+    .filter((h) => h.outline.length >= 3)
+    .map((h) => {
+      const rgb = hexToRgb(h.color);
+      return `<path d="${hullPath(h.outline)}" fill="${rgb}" fill-opacity="0.06" stroke="${rgb}" stroke-opacity="0.2" stroke-width="1.5" stroke-dasharray="6 4"/>` +
+        `<text x="${round(h.labelAt.x)}" y="${round(h.labelAt.y)}" text-anchor="middle" font-size="11" font-weight="600" fill="${rgb}" fill-opacity="0.55">${escapeXml(h.label)}</text>`;
+    });
+  const nodes = scene.nodes.map((n) => {
+    const attributes = `fill="${n.fill}" stroke="${n.border}" stroke-width="${n.borderWidth}"${n.dashedBorder ? ' stroke-dasharray="5 3"' : ''}`;
+    const label = n.labelInside
+      ? `<text x="${round(n.x)}" y="${round(n.y + 4)}" text-anchor="middle" font-size="11" fill="#475569">${escapeXml(n.label)}</text>`
+      : `<text x="${round(n.x)}" y="${round(n.y + n.height / 2 + 8 + LABEL_SIZE)}" text-anchor="middle" font-size="${LABEL_SIZE}" fill="#334155" stroke="#ffffff" stroke-width="4" stroke-linejoin="round" paint-order="stroke">${escapeXml(n.label)}</text>`;
+    return `<g${n.opacity < 1 ? ` opacity="${round(n.opacity)}"` : ''}>${shapeSvg(n.shape, n.x, n.y, n.width, n.height, attributes)}${label}</g>`;
+  });
+  return [
+    `<g class="hulls">${hulls.join('\n')}</g>`,
+    `<g class="edges">${edgesSvg(scene)}</g>`,
+    `<g class="nodes">${nodes.join('\n')}</g>`,
+  ].join('\n');
+}
+
+/** Extent of everything the graph draws, labels and hulls included */
+function graphBounds(scene: MapScene): Box {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  const add = (x: number, y: number) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  };
+  for (const n of scene.nodes) {
+    add(n.x - n.width / 2, n.y - n.height / 2);
+    add(n.x + n.width / 2, n.y + n.height / 2);
+    if (!n.labelInside) {
+      const half = textWidth(n.label, LABEL_SIZE) / 2;
+      add(n.x - half, n.y + n.height / 2 + 12 + LABEL_SIZE);
+      add(n.x + half, n.y);
+    }
+  }
+  for (const h of scene.hulls) {
+    for (const p of h.outline) add(p.x, p.y);
+    add(h.labelAt.x - textWidth(h.label, 11) / 2, h.labelAt.y - 11);
+    add(h.labelAt.x + textWidth(h.label, 11) / 2, h.labelAt.y);
+  }
+  if (minX > maxX) return { x: 0, y: 0, width: 1, height: 1 };
+  return {
+    x: minX - GRAPH_PADDING,
+    y: minY - GRAPH_PADDING,
+    width: maxX - minX + 2 * GRAPH_PADDING,
+    height: maxY - minY + 2 * GRAPH_PADDING,
+  };
+}
+
+/** Title and filter summary, top left at the origin */
+function headerSvg(title: string, lines: string[]): { svg: string; height: number } {
+  const parts = [`<text x="0" y="20" font-size="20" font-weight="700" fill="#0f172a">${escapeXml(title)}</text>`];
+  lines.forEach((line, i) => {
+    parts.push(`<text x="0" y="${42 + i * 16}" font-size="11" fill="#64748b">${escapeXml(line)}</text>`);
+  });
+  return { svg: parts.join('\n'), height: 34 + lines.length * 16 };
+}
+
+function legendSvg(sections: LegendSection[]): { svg: string; height: number } {
+  const parts: string[] = [`<text x="0" y="12" font-size="11" font-weight="700" fill="#94a3b8" letter-spacing="0.8">LEGEND</text>`];
+  let y = 34;
+  sections.forEach((section, si) => {
+    parts.push(`<text x="0" y="${y}" font-size="11" font-weight="600" fill="#64748b">${escapeXml(section.title)}</text>`);
+    y += 16;
+    section.items.forEach((item) => {
+      if (item.symbol === 'ramp') {
+        parts.push(
+          `<defs><linearGradient id="ramp-${si}"><stop offset="0" stop-color="${item.color}"/><stop offset="1" stop-color="${item.toColor ?? item.color}"/></linearGradient></defs>`,
+          `<rect x="0" y="${y - 8}" width="120" height="8" rx="4" fill="url(#ramp-${si})"/>`,
+          `<text x="128" y="${y}" font-size="11" fill="#475569">${escapeXml(item.label)}</text>`
+        );
+      } else {
+        const symbol = item.symbol === 'line'
+          ? `<line x1="0" y1="${y - 4}" x2="16" y2="${y - 4}" stroke="${item.color}" stroke-width="2"${item.dashed ? ' stroke-dasharray="4 2"' : ''}/>`
+          : shapeSvg(item.shape ?? 'ellipse', 7, y - 4, 12, 12, `fill="${item.color}"`);
+        parts.push(symbol, `<text x="24" y="${y}" font-size="11" fill="#475569">${escapeXml(item.label)}</text>`);
+      }
+      y += 17;
+    });
+    y += 10;
+  });
+  return { svg: parts.join('\n'), height: y };
+}
+
+/** The map as a standalone SVG document: title and filter summary on top, legend on the right. */
+export function sceneToSvg(scene: MapScene): string {
+  const bounds = graphBounds(scene);
+  const header = headerSvg(scene.title, scene.summary);
+  const legend = legendSvg(scene.legend);
+  const margin = 24;
+  const width = margin * 2 + Math.max(bounds.width + LEGEND_WIDTH, textWidth(scene.title, 20));
+  const height = margin * 2 + header.height + 16 + Math.max(bounds.height, legend.height);
+  const graphTop = margin + header.height + 16;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="0 0 ${round(width)} ${round(height)}" font-family="${FONT}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<g transform="translate(${margin} ${margin})">${header.svg}</g>`,
+    `<g transform="translate(${round(margin - bounds.x)} ${round(graphTop - bounds.y)})">${graphSvg(scene)}</g>`,
+    `<g transform="translate(${round(margin + bounds.width + 16)} ${round(graphTop)})">${legend.svg}</g>`,
+    '</svg>',
+  ].join('\n');
+}
+
+/** Regions of the map, one per detail page, in model coordinates */
+function detailTiles(bounds: Box, content: { width: number; height: number }): Box[] {
+  let scale = DETAIL_SCALE;
+  const grid = (s: number) => {
+    const step = { width: (content.width / s) * (1 - PAGE_OVERLAP), height: (content.height / s) * (1 - PAGE_OVERLAP) };
+    const cols = Math.max(1, Math.ceil((bounds.width - content.width / s) / step.width) + 1);
+    const rows = Math.max(1, Math.ceil((bounds.height - content.height / s) / step.height) + 1);
+    return { cols, rows, step };
+  };
+  while (grid(scale).cols * grid(scale).rows > MAX_DETAIL_PAGES) scale *= 0.9;
+  const { cols, rows, step } = grid(scale);
+  const tiles: Box[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      tiles.push({ x: bounds.x + c * step.width, y: bounds.y + r * step.height, width: content.width / scale, height: content.height / scale });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * PDF pages as SVG documents in points (A4 landscape): an overview of the whole map with title,
+ * filter summary and legend, then, when the map is too large to read on one page, detail pages
+ * that tile it at about screen size. `size` is the size the documents render at (points by default).
+ */
+export function scenePdfPages(scene: MapScene, size: { width: number; height: number } = A4_LANDSCAPE): string[] {
+  const page = A4_LANDSCAPE;
+  const open = `<svg xmlns="http://www.w3.org/2000/svg" width="${size.width}" height="${size.height}" viewBox="0 0 ${page.width} ${page.height}" font-family="${FONT}"><rect width="100%" height="100%" fill="#ffffff"/>`;
+  const graph = graphSvg(scene);
+  const bounds = graphBounds(scene);
+  const header = headerSvg(scene.title, scene.summary);
+  const legend = legendSvg(scene.legend);
+
+  // Overview: the graph fitted between the header and the legend (which shrinks to fit if need be)
+  const top = PAGE_MARGIN + header.height + 12;
+  const area = { width: page.width - 2 * PAGE_MARGIN - LEGEND_WIDTH, height: page.height - top - PAGE_MARGIN };
+  const legendScale = Math.min(1, (page.height - top - PAGE_MARGIN) / legend.height);
+  const overview = [
+    open,
+    `<g transform="translate(${PAGE_MARGIN} ${PAGE_MARGIN})">${header.svg}</g>`,
+    `<svg x="${PAGE_MARGIN}" y="${round(top)}" width="${round(area.width)}" height="${round(area.height)}" viewBox="${round(bounds.x)} ${round(bounds.y)} ${round(bounds.width)} ${round(bounds.height)}">${graph}</svg>`,
+    `<g transform="translate(${round(page.width - PAGE_MARGIN - LEGEND_WIDTH + 16)} ${round(top)}) scale(${round(legendScale)})">${legend.svg}</g>`,
+    '</svg>',
+  ].join('\n');
+
+  const content = { width: page.width - 2 * PAGE_MARGIN, height: page.height - 2 * PAGE_MARGIN - 20 };
+  const fitScale = Math.min(area.width / bounds.width, area.height / bounds.height);
+  if (fitScale >= DETAIL_SCALE * 0.8) return [overview];
+
+  const tiles = detailTiles(bounds, content);
+  const pages = [overview];
+  tiles.forEach((tile, i) => {
+    const caption = `${scene.title} · detail ${i + 1} of ${tiles.length} · page ${i + 2} of ${tiles.length + 1}`;
+    pages.push([
+      open,
+      `<text x="${PAGE_MARGIN}" y="${PAGE_MARGIN + 10}" font-size="10" fill="#64748b">${escapeXml(caption)}</text>`,
+      `<svg x="${PAGE_MARGIN}" y="${PAGE_MARGIN + 20}" width="${round(content.width)}" height="${round(content.height)}" viewBox="${round(tile.x)} ${round(tile.y)} ${round(tile.width)} ${round(tile.height)}">${graph}</svg>`,
+      '</svg>',
+    ].join('\n'));
+  });
+  return pages;
+}
+
+/** Draws an SVG document onto a canvas of the given pixel size and encodes it as JPEG. */
+async function rasterize(svg: string, width: number, height: number): Promise<PdfImagePage> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.drawImage(image, 0, 0, width, height);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+    if (!blob) throw new Error('Could not encode the page');
+    return { jpeg: new Uint8Array(await blob.arrayBuffer()), width, height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** The map as a paginated PDF (see scenePdfPages), rendered at print resolution in the browser. */
+export async function sceneToPdf(scene: MapScene, onProgress?: (fraction: number) => void): Promise<Blob> {
+  const width = Math.round((A4_LANDSCAPE.width / 72) * PRINT_DPI);
+  const height = Math.round((A4_LANDSCAPE.height / 72) * PRINT_DPI);
+  const svgPages = scenePdfPages(scene, { width, height });
+  const pages: PdfImagePage[] = [];
+  for (const [i, svg] of svgPages.entries()) {
+    pages.push(await rasterize(svg, width, height));
+    onProgress?.((i + 1) / svgPages.length);
+  }
+  return imagePagesToPdf(pages);
+}
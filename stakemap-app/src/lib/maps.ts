@@ -0,0 +1,82 @@
+import { repo } from './repository';
+import { DEFAULT_MAP_ID } from './constants';
+import type { MapLayout, Map as StakeMap } from '../types/database';
+
+export async function listMaps(): Promise<StakeMap[]> {
+  return repo.maps.list();
+}
+
+export async function createMap(name: string, stakeholderIds: string[] = []): Promise<StakeMap> {
+  const map = await repo.maps.create({ name });
+  await fillOrDiscard(map, () => repo.maps.addMembers(map.id, stakeholderIds));
+  return map;
+}
+
+/** Runs the writes that fill a new map; if one fails the half-made map is deleted, so no partial copy is left behind. */
+async function fillOrDiscard(map: StakeMap, fill: () => Promise<void>): Promise<void> {
+  try {
+    await fill();
+  } catch (e) {
+    // The original failure is the one worth reporting
+    await repo.maps.remove(map.id).catch(() => undefined);
+    throw e;
+  }
+}
+
+export async function renameMap(id: string, name: string): Promise<void> {
+  await repo.maps.update(id, { name, updated_at: new Date().toISOString() });
+}
+
+/**
+ * Copy a map together with its stakeholder subset and saved node positions. The positions
+ * `userId` sees (their own over the shared ones) become the copy's shared layout.
+ */
+export async function duplicateMap(sourceId: string, name: string, userId?: string): Promise<StakeMap> {
+  const [members, layouts] = await Promise.all([
+    repo.maps.listMembers(sourceId),
+    repo.layouts.listForMap(sourceId, userId),
+  ]);
+  const byStakeholder = new Map<string, MapLayout>();
+  // Shared rows first so the user's own rows win
+  for (const l of [...layouts].sort((a, b) => Number(a.saved_by_user_id !== null) - Number(b.saved_by_user_id !== null))) {
+    byStakeholder.set(l.stakeholder_id, l);
+  }
+  const map = await repo.maps.create({ name });
+  await fillOrDiscard(map, async () => {
+    await repo.maps.addMembers(map.id, members);
+    await repo.layouts.upsert(
+      [...byStakeholder.values()].map((l) => ({
+        map_id: map.id,
+        stakeholder_id: l.stakeholder_id,
+        x: l.x,
+        y: l.y,
+        zoom_context: l.zoom_context,
+        saved_by_user_id: null,
+      }))
+    );
+  });
+  return map;
+}
+
+export async function deleteMap(id: string): Promise<void> {
+  if (id === DEFAULT_MAP_ID) throw new Error('The default map cannot be deleted.');
+  await repo.maps.remove(id);
+}
+
+export async function listMapMembers(mapId: string): Promise<string[]> {
+  return repo.maps.listMembers(mapId);
+}
+
+export async function addToMap(mapId: string, stakeholderIds: string[]): Promise<void> {
+  await repo.maps.addMembers(mapId, stakeholderIds);
+}
+
+/**
+ * Remove stakeholders from a map; their positions on that map are dropped too. Positions go first:
+ * if the second write fails, the people are still members (placed afresh) and removing them again
+ * finishes the job.
+ */
+export async function removeFromMap(mapId: string, stakeholderIds: string[]): Promise<void> {
+  await repo.layouts.removeForStakeholders(mapId, stakeholderIds);
+  await repo.maps.removeMembers(mapId, stakeholderIds);
+}
@@ -0,0 +1,62 @@
+/** One page: a JPEG drawn over the whole page */
+export interface PdfImagePage {
+  jpeg: Uint8Array;
+  /** Pixel size of the JPEG */
+  width: number;
+  height: number;
+}
+
+/** A4 landscape, in points */
+export const A4_LANDSCAPE = { width: 842, height: 595 };
+
+/**
+ * Minimal PDF writer: each page shows one JPEG, scaled to `pageSize` (points). Enough for
+ * rasterised map exports without pulling a PDF library into the bundle.
+ */
+export function imagePagesToPdf(pages: PdfImagePage[], pageSize = A4_LANDSCAPE): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: () => void) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    body();
+    write('\nendobj\n');
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page, content stream and image for each page
+  const pageId = (i: number) => 3 + i * 3;
+  write('%PDF-1.4\n%âãÏÓ\n');
+  object(1, () => write('<< /Type /Catalog /Pages 2 0 R >>'));
+  object(2, () => write(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`));
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const content = `q ${pageSize.width} 0 0 ${pageSize.height} 0 0 cm /Im0 Do Q`;
+    object(id, () => write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageSize.width} ${pageSize.height}] ` +
+      `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`
+    ));
+    object(id + 1, () => write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`));
+    object(id + 2, () => {
+      write(
+        `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+      );
+      write(page.jpeg);
+      write('\nendstream');
+    });
+  });
+
+  const xref = length;
+  const count = pageId(pages.length);
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
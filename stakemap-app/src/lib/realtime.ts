@@ -0,0 +1,82 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, TableRow } from '../types/database';
+
+export type RealtimeTable = 'stakeholders' | 'relationships' | 'companies' | 'map_layouts' | 'audit_events';
+
+/**
+ * One row change. `new` is null for deletes; `old` is null for inserts and may
+ * carry only the primary key (Postgres' default replica identity).
+ */
+export type RowChange = {
+  [T in RealtimeTable]: {
+    table: T;
+    eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+    new: TableRow<T> | null;
+    old: Partial<TableRow<T>> | null;
+  };
+}[RealtimeTable];
+
+export type ChangeListener = (change: RowChange) => void;
+
+export interface RealtimeSource {
+  /** Listen for changes on the given tables; returns the unsubscribe function. */
+  subscribe(tables: RealtimeTable[], listener: ChangeListener): () => void;
+}
+
+export interface LocalRealtime extends RealtimeSource {
+  /** Deliver a change to every matching subscriber (used by the in-memory backend and tests). */
+  emit(change: RowChange): void;
+}
+
+function nonEmpty<T extends object>(row: T | undefined): T | null {
+  return row && Object.keys(row).length > 0 ? row : null;
+}
+
+let channelSeq = 0;
+
+export function createSupabaseRealtime(client: SupabaseClient<Database>): RealtimeSource {
+  return {
+    subscribe(tables, listener) {
+      // Channel names must be unique per subscription
+      const channel = client.channel(`db-changes-${++channelSeq}`);
+      for (const table of tables) {
+        channel.on<Record<string, unknown>>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table },
+          (payload) => {
+            listener({
+              table,
+              eventType: payload.eventType,
+              new: nonEmpty(payload.new),
+              old: nonEmpty(payload.old),
+            } as RowChange);
+          }
+        );
+      }
+      channel.subscribe((status, err) => {
+        if (status === 'CHANNEL_ERROR') console.error('Realtime subscription failed:', err);
+      });
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+export function createLocalRealtime(): LocalRealtime {
+  const subscribers = new Set<{ tables: Set<RealtimeTable>; listener: ChangeListener }>();
+  return {
+    subscribe(tables, listener) {
+      const entry = { tables: new Set(tables), listener };
+      subscribers.add(entry);
+      return () => {
+        subscribers.delete(entry);
+      };
+    },
+    emit(change) {
+      for (const { tables, listener } of subscribers) {
+        if (tables.has(change.table)) listener(change);
+      }
+    },
+  };
+}
@@ -0,0 +1,7 @@
+/** The row changed since the caller read it; reload or retry with `force`. */
+export class ConflictError extends Error {
+  constructor(message = 'This record was changed by someone else since you loaded it') {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
@@ -0,0 +1,50 @@
+import { supabase, isSupabaseConfigured } from '../supabase';
+import { MEMORY_AUTH_STORAGE_KEY } from '../constants';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createMemoryRepository } from './memoryRepository';
+import { createLocalRealtime, createSupabaseRealtime } from '../realtime';
+import { generateSyntheticData, parseSyntheticSize } from '../syntheticData';
+import type { RealtimeSource } from '../realtime';
+import type { DataRepository } from './types';
+import type { AuthUser } from '../auth';
+
+export type { DataRepository, LayoutSaveResult, LayoutWrite, RecordStatus, RevertedRow } from './types';
+export { createSupabaseRepository } from './supabaseRepository';
+export { createMemoryRepository } from './memoryRepository';
+export { ConflictError } from './errors';
+
+/**
+ * `VITE_DATA_BACKEND=memory` runs the app against a localStorage-backed store;
+ * without Supabase credentials that is the default.
+ */
+export const dataBackend: 'supabase' | 'memory' =
+  import.meta.env.VITE_DATA_BACKEND === 'memory' || !isSupabaseConfigured ? 'memory' : 'supabase';
+
+const localChanges = createLocalRealtime();
+
+/** The memory auth session, read the way the database reads auth.uid() for audit events. */
+function memorySessionUser() {
+  if (typeof window === 'undefined') return null;
+  try {
+    return JSON.parse(window.localStorage.getItem(MEMORY_AUTH_STORAGE_KEY) ?? 'null') as AuthUser | null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * `VITE_SYNTHETIC_DATA=2000x8000` swaps the memory backend's data for a generated dataset of that
+ * many stakeholders and relationships (for checking the map at scale); nothing is saved.
+ */
+const syntheticSize = dataBackend === 'memory' ? parseSyntheticSize(import.meta.env.VITE_SYNTHETIC_DATA) : null;
+
+export const repo: DataRepository =
+  dataBackend === 'memory'
+    ? createMemoryRepository(syntheticSize
+      ? { storage: null, seed: generateSyntheticData(syntheticSize), onChange: localChanges.emit, actor: memorySessionUser }
+      : { onChange: localChanges.emit, actor: memorySessionUser })
+    : createSupabaseRepository(supabase);
+
+/** Row-change feed matching `repo`: Supabase Realtime, or the memory backend's own writes. */
+export const realtime: RealtimeSource =
+  dataBackend === 'memory' ? localChanges : createSupabaseRealtime(supabase);
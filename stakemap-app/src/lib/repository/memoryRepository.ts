@@ -0,0 +1,600 @@
+import { DEFAULT_MAP_ID } from '../constants';
+import { REVERTIBLE_TABLES, auditAction, diffRows } from '../audit';
+import { ConflictError } from './errors';
+import type { AuditEntityType } from '../audit';
+import type {
+  AppRole,
+  AuditEvent,
+  Company,
+  InteractionLog,
+  Map as StakeMap,
+  MapLayout,
+  MapStakeholder,
+  Profile,
+  Relationship,
+  Stakeholder,
+  TableInsert,
+} from '../../types/database';
+import type { ChangeListener, RowChange } from '../realtime';
+import type { DataRepository, LayoutSaveResult, LayoutWrite, RecordStatus } from './types';
+
+/** Rows as the database stores them (no joined columns). */
+export interface MemoryTables {
+  companies: Company[];
+  stakeholders: Omit<Stakeholder, 'companies'>[];
+  relationships: Relationship[];
+  interaction_logs: InteractionLog[];
+  maps: StakeMap[];
+  map_stakeholders: MapStakeholder[];
+  map_layouts: MapLayout[];
+  audit_events: Omit<AuditEvent, 'profiles'>[];
+  profiles: Profile[];
+}
+
+export interface MemoryRepositoryOptions {
+  /** Where to persist between reloads; `null` keeps everything in memory (tests). */
+  storage?: Storage | null;
+  storageKey?: string;
+  /** Initial rows used when storage holds nothing yet. */
+  seed?: Partial<MemoryTables>;
+  /** Called after every write to a table the app listens to (see lib/realtime). */
+  onChange?: ChangeListener;
+  /** Stand-in for auth.uid(): the user recorded as `changed_by` on audit events. */
+  actor?: () => { id: string; email: string; role: AppRole } | null;
+}
+
+const DEFAULT_STORAGE_KEY = 'stakemap:memory-db';
+
+function emptyTables(): MemoryTables {
+  const now = new Date().toISOString();
+  return {
+    companies: [],
+    stakeholders: [],
+    relationships: [],
+    interaction_logs: [],
+    maps: [{ id: DEFAULT_MAP_ID, name: 'Default Map', created_at: now, updated_at: now }],
+    map_stakeholders: [],
+    map_layouts: [],
+    audit_events: [],
+    profiles: [],
+  };
+}
+
+type VersionedRow = { id: string; created_at: string; updated_at: string };
+
+function byText<T>(key: (row: T) => string) {
+  return (a: T, b: T) => key(a).localeCompare(key(b));
+}
+
+function matchesStatus(row: { status: string }, status?: RecordStatus) {
+  return !status || row.status === status;
+}
+
+/**
+ * In-memory implementation of the data layer, optionally persisted to localStorage.
+ * Mirrors the database's defaults and the constraints the UI relies on
+ * (unique / no-self relationships, default-map membership, cascading deletes).
+ */
+export function createMemoryRepository(options: MemoryRepositoryOptions = {}): DataRepository {
+  const storage = options.storage === undefined
+    ? (typeof window !== 'undefined' ? window.localStorage : null)
+    : options.storage;
+  const storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+
+  const db: MemoryTables = load();
+
+  function load(): MemoryTables {
+    const raw = storage?.getItem(storageKey);
+    if (raw) {
+      try {
+        return { ...emptyTables(), ...(JSON.parse(raw) as Partial<MemoryTables>) };
+      } catch {
+        // Corrupt snapshot: start over rather than break the app
+      }
+    }
+    return { ...emptyTables(), ...options.seed };
+  }
+
+  function save() {
+    storage?.setItem(storageKey, JSON.stringify(db));
+  }
+
+  function now() {
+    return new Date().toISOString();
+  }
+
+  function clone<T>(value: T): T {
+    return structuredClone(value);
+  }
+
+  function emit(change: RowChange) {
+    options.onChange?.(clone(change));
+  }
+
+  function find<T extends { id: string }>(rows: T[], id: string, table: string): T {
+    const row = rows.find((r) => r.id === id);
+    if (!row) throw new Error(`No ${table} row with id ${id}`);
+    return row;
+  }
+
+  function withCompany(s: Omit<Stakeholder, 'companies'>): Stakeholder {
+    const company = db.companies.find((c) => c.id === s.company_id);
+    return { ...clone(s), companies: company ? { name: company.name } : null };
+  }
+
+  function checkRelationship(r: Relationship) {
+    if (r.from_stakeholder_id === r.to_stakeholder_id) {
+      throw new Error('new row for relation "relationships" violates check constraint "no_self_relationship"');
+    }
+    const duplicate = db.relationships.some((o) =>
+      o.id !== r.id &&
+      o.from_stakeholder_id === r.from_stakeholder_id &&
+      o.to_stakeholder_id === r.to_stakeholder_id &&
+      o.relation_type === r.relation_type
+    );
+    if (duplicate) {
+      throw new Error('duplicate key value violates unique constraint "unique_relationship"');
+    }
+  }
+
+  let lastAuditAt = 0;
+
+  /** Strictly increasing timestamps, so events from one write keep their order. */
+  function auditClock() {
+    lastAuditAt = Math.max(Date.now(), lastAuditAt + 1);
+    return new Date(lastAuditAt).toISOString();
+  }
+
+  /** Same as the audit_row_change trigger: one event per row change, with the diff and actor. */
+  function audit(
+    entityType: AuditEntityType,
+    entityId: string,
+    before: object | null,
+    after: object | null,
+    revertedEventId?: string
+  ) {
+    const beforeRow = before ? (clone(before) as Record<string, unknown>) : null;
+    const afterRow = after ? (clone(after) as Record<string, unknown>) : null;
+    const changed = diffRows(beforeRow, afterRow);
+    const action = auditAction(beforeRow, afterRow, changed);
+    if (!action) return;
+    const actor = options.actor?.() ?? null;
+    if (actor) {
+      // Profiles are created on sign-up in the database; here on first write
+      const ts = now();
+      const profile = db.profiles.find((p) => p.id === actor.id);
+      if (profile) Object.assign(profile, { email: actor.email, role: actor.role });
+      else db.profiles.push({ id: actor.id, email: actor.email, display_name: null, role: actor.role, created_at: ts, updated_at: ts });
+    }
+    const event: Omit<AuditEvent, 'profiles'> = {
+      id: crypto.randomUUID(),
+      entity_type: entityType,
+      entity_id: entityId,
+      action: revertedEventId ? 'revert' : action,
+      diff_json: revertedEventId
+        ? { before: beforeRow, after: afterRow, changed, reverted_event_id: revertedEventId }
+        : { before: beforeRow, after: afterRow, changed },
+      changed_by: actor?.id ?? null,
+      changed_at: auditClock(),
+    };
+    db.audit_events.push(event);
+    emit({ table: 'audit_events', eventType: 'INSERT', new: event, old: null });
+  }
+
+  function withActor(event: Omit<AuditEvent, 'profiles'>): AuditEvent {
+    const profile = db.profiles.find((p) => p.id === event.changed_by);
+    return { ...clone(event), profiles: profile ? { email: profile.email } : null };
+  }
+
+  function layoutKey(row: Pick<MapLayout, 'map_id' | 'stakeholder_id'> & { saved_by_user_id?: string | null }) {
+    return `${row.map_id}|${row.stakeholder_id}|${row.saved_by_user_id ?? ''}`;
+  }
+
+  /**
+   * Rows with `expected_updated_at` are checked saves: skipped when stale, stamped with the current
+   * time otherwise. Same rules as `save_map_layouts`, shared-row check included.
+   */
+  function upsertLayouts(rows: (TableInsert<'map_layouts'> & Partial<LayoutWrite>)[]): LayoutSaveResult {
+    const ts = now();
+    const index = new Map(db.map_layouts.map((l) => [layoutKey(l), l]));
+    const result: LayoutSaveResult = { saved: [], conflicts: [] };
+    const changes: RowChange[] = [];
+    for (const { expected_updated_at: expected, expected_shared_updated_at: expectedShared, ...row } of rows) {
+      const existing = index.get(layoutKey(row));
+      if (expected !== undefined && existing && existing.updated_at !== expected) {
+        result.conflicts.push(clone(existing));
+        continue;
+      }
+      const shared = !existing && expectedShared !== undefined && row.saved_by_user_id
+        ? index.get(layoutKey({ ...row, saved_by_user_id: null }))
+        : undefined;
+      if (shared && shared.updated_at !== expectedShared) {
+        result.conflicts.push(clone(shared));
+        continue;
+      }
+      const updatedAt = expected !== undefined ? ts : row.updated_at ?? ts;
+      if (existing) {
+        const old = clone(existing);
+        Object.assign(existing, row, { id: existing.id, updated_at: updatedAt });
+        changes.push({ table: 'map_layouts', eventType: 'UPDATE', new: existing, old });
+        result.saved.push(clone(existing));
+      } else {
+        const layout: MapLayout = {
+          id: crypto.randomUUID(),
+          zoom_context: null,
+          saved_by_user_id: null,
+          created_at: ts,
+          ...row,
+          updated_at: updatedAt,
+        };
+        db.map_layouts.push(layout);
+        index.set(layoutKey(layout), layout);
+        changes.push({ table: 'map_layouts', eventType: 'INSERT', new: layout, old: null });
+        result.saved.push(clone(layout));
+      }
+    }
+    save();
+    changes.forEach(emit);
+    return result;
+  }
+
+  function removeLayouts(keep: (l: MapLayout) => boolean) {
+    const removed = db.map_layouts.filter((l) => !keep(l));
+    db.map_layouts = db.map_layouts.filter(keep);
+    save();
+    for (const old of removed) emit({ table: 'map_layouts', eventType: 'DELETE', new: null, old });
+  }
+
+  return {
+    companies: {
+      async list(opts) {
+        return clone(db.companies.filter((c) => matchesStatus(c, opts?.status)).sort(byText((c) => c.name)));
+      },
+      async get(id) {
+        return clone(find(db.companies, id, 'companies'));
+      },
+      async findByName(name) {
+        const q = name.trim().toLowerCase();
+        const company = db.companies.find((c) => c.name.toLowerCase() === q);
+        return company ? clone(company) : null;
+      },
+      async create(input) {
+        const ts = now();
+        const company: Company = {
+          id: crypto.randomUUID(),
+          industry: null,
+          region: null,
+          parent_company_id: null,
+          tags: [],
+          status: 'active',
+          created_at: ts,
+          updated_at: ts,
+          ...input,
+        };
+        db.companies.push(company);
+        audit('company', company.id, null, company);
+        save();
+        emit({ table: 'companies', eventType: 'INSERT', new: company, old: null });
+        return clone(company);
+      },
+      async update(id, patch) {
+        const company = find(db.companies, id, 'companies');
+        const old = clone(company);
+        Object.assign(company, patch, { id, updated_at: now() });
+        audit('company', id, old, company);
+        save();
+        emit({ table: 'companies', eventType: 'UPDATE', new: company, old });
+        return clone(company);
+      },
+    },
+
+    stakeholders: {
+      async list(opts) {
+        return db.stakeholders
+          .filter((s) => matchesStatus(s, opts?.status))
+          .sort(byText((s) => s.full_name))
+          .map(withCompany);
+      },
+      async get(id) {
+        return withCompany(find(db.stakeholders, id, 'stakeholders'));
+      },
+      async countForCompany(companyId, opts) {
+        return db.stakeholders.filter((s) => s.company_id === companyId && matchesStatus(s, opts?.status)).length;
+      },
+      async create(input) {
+        find(db.companies, input.company_id, 'companies');
+        const ts = now();
+        const stakeholder: Omit<Stakeholder, 'companies'> = {
+          id: crypto.randomUUID(),
+          title: null,
+          department: null,
+          seniority_level: null,
+          influence_score: null,
+          sentiment: 'UNKNOWN',
+          sentiment_confidence: null,
+          notes: null,
+          email: null,
+          phone: null,
+          linkedin_url: null,
+          status: 'active',
+          created_at: ts,
+          updated_at: ts,
+          ...input,
+        };
+        db.stakeholders.push(stakeholder);
+        audit('stakeholder', stakeholder.id, null, stakeholder);
+        // Same as trg_stakeholders_default_map
+        const membership: MapStakeholder = { map_id: DEFAULT_MAP_ID, stakeholder_id: stakeholder.id, created_at: ts };
+        db.map_stakeholders.push(membership);
+        audit('map_member', DEFAULT_MAP_ID, null, membership);
+        save();
+        emit({ table: 'stakeholders', eventType: 'INSERT', new: stakeholder, old: null });
+        return withCompany(stakeholder);
+      },
+      async update(id, patch) {
+        const stakeholder = find(db.stakeholders, id, 'stakeholders');
+        const old = clone(stakeholder);
+        Object.assign(stakeholder, patch, { id, updated_at: now() });
+        audit('stakeholder', id, old, stakeholder);
+        save();
+        emit({ table: 'stakeholders', eventType: 'UPDATE', new: stakeholder, old });
+        return withCompany(stakeholder);
+      },
+    },
+
+    relationships: {
+      async list() {
+        return clone(db.relationships);
+      },
+      async create(input) {
+        const ts = now();
+        const relationship: Relationship = {
+          id: crypto.randomUUID(),
+          directionality: 'directional',
+          strength: 3,
+          sentiment_impact: 0,
+          confidence: null,
+          last_validated_at: null,
+          notes: null,
+          created_at: ts,
+          updated_at: ts,
+          ...input,
+        };
+        checkRelationship(relationship);
+        db.relationships.push(relationship);
+        audit('relationship', relationship.id, null, relationship);
+        save();
+        emit({ table: 'relationships', eventType: 'INSERT', new: relationship, old: null });
+        return clone(relationship);
+      },
+      async update(id, patch) {
+        const current = find(db.relationships, id, 'relationships');
+        const next = { ...current, ...patch, id, updated_at: now() };
+        checkRelationship(next);
+        const old = clone(current);
+        Object.assign(current, next);
+        audit('relationship', id, old, current);
+        save();
+        emit({ table: 'relationships', eventType: 'UPDATE', new: current, old });
+        return clone(current);
+      },
+      async remove(id) {
+        const old = db.relationships.find((r) => r.id === id);
+        db.relationships = db.relationships.filter((r) => r.id !== id);
+        if (old) audit('relationship', id, old, null);
+        save();
+        if (old) emit({ table: 'relationships', eventType: 'DELETE', new: null, old });
+      },
+    },
+
+    interactionLogs: {
+      async listForStakeholder(stakeholderId) {
+        return clone(
+          db.interaction_logs
+            .filter((l) => l.stakeholder_id === stakeholderId)
+            .sort((a, b) => b.interaction_date.localeCompare(a.interaction_date))
+        );
+      },
+      async create(input) {
+        const ts = now();
+        const log: InteractionLog = {
+          id: crypto.randomUUID(),
+          channel: null,
+          outcome: null,
+          next_action: null,
+          created_at: ts,
+          updated_at: ts,
+          ...input,
+        };
+        db.interaction_logs.push(log);
+        audit('interaction_log', log.id, null, log);
+        save();
+        return clone(log);
+      },
+      async remove(id) {
+        const old = db.interaction_logs.find((l) => l.id === id);
+        db.interaction_logs = db.interaction_logs.filter((l) => l.id !== id);
+        if (old) audit('interaction_log', id, old, null);
+        save();
+      },
+    },
+
+    maps: {
+      async list() {
+        return clone([...db.maps].sort(byText((m) => m.name)));
+      },
+      async create(input) {
+        const ts = now();
+        const map: StakeMap = { id: crypto.randomUUID(), name: 'Default Map', created_at: ts, updated_at: ts, ...input };
+        db.maps.push(map);
+        audit('map', map.id, null, map);
+        save();
+        return clone(map);
+      },
+      async update(id, patch) {
+        const map = find(db.maps, id, 'maps');
+        const old = clone(map);
+        Object.assign(map, patch, { id, updated_at: now() });
+        audit('map', id, old, map);
+        save();
+        return clone(map);
+      },
+      async remove(id) {
+        const old = db.maps.find((m) => m.id === id);
+        const removedMembers = db.map_stakeholders.filter((m) => m.map_id === id);
+        const removedLayouts = db.map_layouts.filter((l) => l.map_id === id);
+        db.maps = db.maps.filter((m) => m.id !== id);
+        db.map_stakeholders = db.map_stakeholders.filter((m) => m.map_id !== id);
+        db.map_layouts = db.map_layouts.filter((l) => l.map_id !== id);
+        // The cascade fires the membership trigger too
+        for (const m of removedMembers) audit('map_member', id, m, null);
+        if (old) audit('map', id, old, null);
+        save();
+        for (const old of removedLayouts) emit({ table: 'map_layouts', eventType: 'DELETE', new: null, old });
+      },
+      async listMembers(mapId) {
+        return db.map_stakeholders.filter((m) => m.map_id === mapId).map((m) => m.stakeholder_id);
+      },
+      async addMembers(mapId, stakeholderIds) {
+        const existing = new Set(db.map_stakeholders.filter((m) => m.map_id === mapId).map((m) => m.stakeholder_id));
+        const ts = now();
+        for (const stakeholder_id of stakeholderIds) {
+          if (existing.has(stakeholder_id)) continue;
+          const membership: MapStakeholder = { map_id: mapId, stakeholder_id, created_at: ts };
+          db.map_stakeholders.push(membership);
+          audit('map_member', mapId, null, membership);
+          existing.add(stakeholder_id);
+        }
+        save();
+      },
+      async removeMembers(mapId, stakeholderIds) {
+        const ids = new Set(stakeholderIds);
+        const removed = (m: MapStakeholder) => m.map_id === mapId && ids.has(m.stakeholder_id);
+        for (const m of db.map_stakeholders.filter(removed)) audit('map_member', mapId, m, null);
+        db.map_stakeholders = db.map_stakeholders.filter((m) => !removed(m));
+        save();
+      },
+    },
+
+    layouts: {
+      async listForMap(mapId, userId) {
+        return clone(db.map_layouts.filter((l) =>
+          l.map_id === mapId && (l.saved_by_user_id === null || (!!userId && l.saved_by_user_id === userId))
+        ));
+      },
+      async upsert(rows) {
+        upsertLayouts(rows);
+      },
+      async save(rows) {
+        return upsertLayouts(rows);
+      },
+      async removeForStakeholders(mapId, stakeholderIds) {
+        const ids = new Set(stakeholderIds);
+        removeLayouts((l) => l.map_id !== mapId || !ids.has(l.stakeholder_id));
+      },
+      async publish(mapId, userId) {
+        const mine = db.map_layouts.filter((l) => l.map_id === mapId && l.saved_by_user_id === userId);
+        upsertLayouts(mine.map((l) => ({
+          map_id: l.map_id,
+          stakeholder_id: l.stakeholder_id,
+          x: l.x,
+          y: l.y,
+          zoom_context: l.zoom_context,
+          saved_by_user_id: null,
+          updated_at: now(),
+        })));
+        removeLayouts((l) => l.map_id !== mapId || l.saved_by_user_id !== userId);
+      },
+      async removeForUser(mapId, userId) {
+        removeLayouts((l) => l.map_id !== mapId || l.saved_by_user_id !== userId);
+      },
+    },
+
+    audit: {
+      async list(opts) {
+        return [...db.audit_events]
+          .sort((a, b) => b.changed_at.localeCompare(a.changed_at))
+          .slice(0, opts?.limit ?? 300)
+          .map(withActor);
+      },
+      async listForTypes(entityTypes, opts) {
+        const types = new Set(entityTypes);
+        const since = opts?.since;
+        return db.audit_events
+          .filter((e) => types.has(e.entity_type) && (!since || e.changed_at > since))
+          .sort((a, b) => a.changed_at.localeCompare(b.changed_at) || a.id.localeCompare(b.id))
+          .map(withActor);
+      },
+      async revert(eventId, { expectedUpdatedAt, force = false }) {
+        const event = find(db.audit_events, eventId, 'audit_events');
+        const table = REVERTIBLE_TABLES[event.entity_type];
+        if (!table) throw new Error(`${event.entity_type} changes cannot be restored`);
+        const target = event.diff_json?.after ?? event.diff_json?.before;
+        if (!target) throw new Error('This event has no recorded values to restore');
+
+        const ts = now();
+        /** The row as it was right after the event, checked against the version the caller saw */
+        const restore = <T extends VersionedRow>(rows: T[]) => {
+          const current = rows.find((r) => r.id === event.entity_id);
+          if (!force && (current?.updated_at ?? null) !== expectedUpdatedAt) throw new ConflictError();
+          const next: T = current
+            ? { ...current, ...clone(target), id: current.id, created_at: current.created_at, updated_at: ts }
+            : {
+              ...(clone(target) as T),
+              id: event.entity_id,
+              created_at: typeof target.created_at === 'string' ? target.created_at : ts,
+              updated_at: ts,
+            };
+          return { current, next };
+        };
+        const commit = <T extends VersionedRow>(rows: T[], current: T | undefined, next: T) => {
+          const old = current ? clone(current) : null;
+          if (current) Object.assign(current, next);
+          else rows.push(next);
+          const row = current ?? next;
+          audit(event.entity_type as AuditEntityType, event.entity_id, old, row, eventId);
+          return { row, old, eventType: old ? 'UPDATE' as const : 'INSERT' as const };
+        };
+
+        if (table === 'relationships') {
+          const { current, next } = restore(db.relationships);
+          find(db.stakeholders, next.from_stakeholder_id, 'stakeholders');
+          find(db.stakeholders, next.to_stakeholder_id, 'stakeholders');
+          checkRelationship(next);
+          const { row, old, eventType } = commit(db.relationships, current, next);
+          save();
+          emit({ table, eventType, new: row, old });
+          return { table, row: clone(row) };
+        }
+        if (table === 'companies') {
+          const { current, next } = restore(db.companies);
+          const { row, old, eventType } = commit(db.companies, current, next);
+          save();
+          emit({ table, eventType, new: row, old });
+          return { table, row: clone(row) };
+        }
+        const { current, next } = restore(db.stakeholders);
+        find(db.companies, next.company_id, 'companies');
+        const { row, old, eventType } = commit(db.stakeholders, current, next);
+        if (!old && !db.map_stakeholders.some((m) => m.map_id === DEFAULT_MAP_ID && m.stakeholder_id === row.id)) {
+          // Same as trg_stakeholders_default_map
+          const membership: MapStakeholder = { map_id: DEFAULT_MAP_ID, stakeholder_id: row.id, created_at: ts };
+          db.map_stakeholders.push(membership);
+          audit('map_member', DEFAULT_MAP_ID, null, membership);
+        }
+        save();
+        emit({ table, eventType, new: row, old });
+        return { table, row: clone(row) };
+      },
+      async listForEntity(entityType, entityId, opts) {
+        const before = opts?.before;
+        return db.audit_events
+          .filter((e) => e.entity_type === entityType && e.entity_id === entityId)
+          .filter((e) => !before || e.changed_at < before.changed_at || (e.changed_at === before.changed_at && e.id < before.id))
+          .sort((a, b) => b.changed_at.localeCompare(a.changed_at) || b.id.localeCompare(a.id))
+          .slice(0, opts?.limit ?? 20)
+          .map(withActor);
+      },
+    },
+  };
+}
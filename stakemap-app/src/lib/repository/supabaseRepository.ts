@@ -0,0 +1,286 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ConflictError } from './errors';
+import type { AuditEvent, Database, Stakeholder } from '../../types/database';
+import type { DataRepository } from './types';
+
+const STAKEHOLDER_SELECT = '*, companies(name)';
+const AUDIT_SELECT = '*, profiles(email)';
+const AUDIT_PAGE_SIZE = 1000;
+
+export function createSupabaseRepository(client: SupabaseClient<Database>): DataRepository {
+  return {
+    companies: {
+      async list(options) {
+        let query = client.from('companies').select('*').order('name');
+        if (options?.status) query = query.eq('status', options.status);
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+      },
+      async get(id) {
+        const { data, error } = await client.from('companies').select('*').eq('id', id).single();
+        if (error) throw error;
+        return data;
+      },
+      async findByName(name) {
+        const { data, error } = await client
+          .from('companies')
+          .select('*')
+          .ilike('name', name.trim())
+          .limit(1)
+          .maybeSingle();
+        if (error) throw error;
+        return data;
+      },
+      async create(input) {
+        const { data, error } = await client.from('companies').insert(input).select('*').single();
+        if (error) throw error;
+        return data;
+      },
+      async update(id, patch) {
+        const { data, error } = await client.from('companies').update(patch).eq('id', id).select('*').single();
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    stakeholders: {
+      async list(options) {
+        let query = client.from('stakeholders').select(STAKEHOLDER_SELECT).order('full_name');
+        if (options?.status) query = query.eq('status', options.status);
+        const { data, error } = await query;
+        if (error) throw error;
+        return data as Stakeholder[];
+      },
+      async get(id) {
+        const { data, error } = await client.from('stakeholders').select(STAKEHOLDER_SELECT).eq('id', id).single();
+        if (error) throw error;
+        return data as Stakeholder;
+      },
+      async countForCompany(companyId, options) {
+        let query = client
+          .from('stakeholders')
+          .select('id', { count: 'exact', head: true })
+          .eq('company_id', companyId);
+        if (options?.status) query = query.eq('status', options.status);
+        const { count, error } = await query;
+        if (error) throw error;
+        return count ?? 0;
+      },
+      async create(input) {
+        const { data, error } = await client.from('stakeholders').insert(input).select(STAKEHOLDER_SELECT).single();
+        if (error) throw error;
+        return data as Stakeholder;
+      },
+      async update(id, patch) {
+        const { data, error } = await client
+          .from('stakeholders')
+          .update(patch)
+          .eq('id', id)
+          .select(STAKEHOLDER_SELECT)
+          .single();
+        if (error) throw error;
+        return data as Stakeholder;
+      },
+    },
+
+    relationships: {
+      async list() {
+        const { data, error } = await client.from('relationships').select('*');
+        if (error) throw error;
+        return data;
+      },
+      async create(input) {
+        const { data, error } = await client.from('relationships').insert(input).select('*').single();
+        if (error) throw error;
+        return data;
+      },
+      async update(id, patch) {
+        const { data, error } = await client.from('relationships').update(patch).eq('id', id).select('*').single();
+        if (error) throw error;
+        return data;
+      },
+      async remove(id) {
+        const { error } = await client.from('relationships').delete().eq('id', id);
+        if (error) throw error;
+      },
+    },
+
+    interactionLogs: {
+      async listForStakeholder(stakeholderId) {
+        const { data, error } = await client
+          .from('interaction_logs')
+          .select('*')
+          .eq('stakeholder_id', stakeholderId)
+          .order('interaction_date', { ascending: false });
+        if (error) throw error;
+        return data;
+      },
+      async create(input) {
+        const { data, error } = await client.from('interaction_logs').insert(input).select('*').single();
+        if (error) throw error;
+        return data;
+      },
+      async remove(id) {
+        const { error } = await client.from('interaction_logs').delete().eq('id', id);
+        if (error) throw error;
+      },
+    },
+
+    maps: {
+      async list() {
+        const { data, error } = await client.from('maps').select('*').order('name');
+        if (error) throw error;
+        return data;
+      },
+      async create(input) {
+        const { data, error } = await client.from('maps').insert(input).select('*').single();
+        if (error) throw error;
+        return data;
+      },
+      async update(id, patch) {
+        const { data, error } = await client.from('maps').update(patch).eq('id', id).select('*').single();
+        if (error) throw error;
+        return data;
+      },
+      async remove(id) {
+        // map_stakeholders and map_layouts rows go with it (ON DELETE CASCADE)
+        const { error } = await client.from('maps').delete().eq('id', id);
+        if (error) throw error;
+      },
+      async listMembers(mapId) {
+        const { data, error } = await client
+          .from('map_stakeholders')
+          .select('stakeholder_id')
+          .eq('map_id', mapId);
+        if (error) throw error;
+        return data.map((m) => m.stakeholder_id);
+      },
+      async addMembers(mapId, stakeholderIds) {
+        if (stakeholderIds.length === 0) return;
+        const { error } = await client
+          .from('map_stakeholders')
+          .upsert(
+            stakeholderIds.map((stakeholder_id) => ({ map_id: mapId, stakeholder_id })),
+            { onConflict: 'map_id,stakeholder_id', ignoreDuplicates: true }
+          );
+        if (error) throw error;
+      },
+      async removeMembers(mapId, stakeholderIds) {
+        if (stakeholderIds.length === 0) return;
+        const { error } = await client
+          .from('map_stakeholders')
+          .delete()
+          .eq('map_id', mapId)
+          .in('stakeholder_id', stakeholderIds);
+        if (error) throw error;
+      },
+    },
+
+    layouts: {
+      async listForMap(mapId, userId) {
+        const query = client.from('map_layouts').select('*').eq('map_id', mapId);
+        const { data, error } = userId
+          ? await query.or(`saved_by_user_id.is.null,saved_by_user_id.eq.${userId}`)
+          : await query.is('saved_by_user_id', null);
+        if (error) throw error;
+        return data;
+      },
+      async upsert(rows) {
+        if (rows.length === 0) return;
+        const { error } = await client
+          .from('map_layouts')
+          .upsert(rows.map((r) => ({ saved_by_user_id: null, ...r })), { onConflict: 'map_id,stakeholder_id,saved_by_user_id' });
+        if (error) throw error;
+      },
+      async save(rows) {
+        if (rows.length === 0) return { saved: [], conflicts: [] };
+        const { data, error } = await client.rpc('save_map_layouts', {
+          p_rows: rows.map((r) => ({ saved_by_user_id: null, ...r })),
+        });
+        if (error) throw error;
+        return data;
+      },
+      async removeForStakeholders(mapId, stakeholderIds) {
+        if (stakeholderIds.length === 0) return;
+        const { error } = await client
+          .from('map_layouts')
+          .delete()
+          .eq('map_id', mapId)
+          .in('stakeholder_id', stakeholderIds);
+        if (error) throw error;
+      },
+      async publish(mapId) {
+        // The function works on the caller's own rows (auth.uid())
+        const { error } = await client.rpc('publish_map_layout', { p_map_id: mapId });
+        if (error) throw error;
+      },
+      async removeForUser(mapId, userId) {
+        const { error } = await client
+          .from('map_layouts')
+          .delete()
+          .eq('map_id', mapId)
+          .eq('saved_by_user_id', userId);
+        if (error) throw error;
+      },
+    },
+
+    audit: {
+      async list(options) {
+        const { data, error } = await client
+          .from('audit_events')
+          .select(AUDIT_SELECT)
+          .order('changed_at', { ascending: false })
+          .limit(options?.limit ?? 300);
+        if (error) throw error;
+        return data;
+      },
+      async listForEntity(entityType, entityId, options) {
+        let query = client
+          .from('audit_events')
+          .select(AUDIT_SELECT)
+          .eq('entity_type', entityType)
+          .eq('entity_id', entityId);
+        const before = options?.before;
+        if (before) {
+          // Keyset paging on (changed_at, id); events may share a timestamp
+          query = query.or(
+            `changed_at.lt."${before.changed_at}",and(changed_at.eq."${before.changed_at}",id.lt.${before.id})`
+          );
+        }
+        const { data, error } = await query
+          .order('changed_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(options?.limit ?? 20);
+        if (error) throw error;
+        return data;
+      },
+      async listForTypes(entityTypes, options) {
+        // PostgREST caps each response, so read in pages
+        const events: AuditEvent[] = [];
+        for (let from = 0; ; from += AUDIT_PAGE_SIZE) {
+          let query = client.from('audit_events').select(AUDIT_SELECT).in('entity_type', entityTypes);
+          if (options?.since) query = query.gt('changed_at', options.since);
+          const { data, error } = await query
+            .order('changed_at', { ascending: true })
+            .order('id', { ascending: true })
+            .range(from, from + AUDIT_PAGE_SIZE - 1);
+          if (error) throw error;
+          events.push(...data);
+          if (data.length < AUDIT_PAGE_SIZE) return events;
+        }
+      },
+      async revert(eventId, { expectedUpdatedAt, force = false }) {
+        const { data, error } = await client.rpc('revert_audit_event', {
+          p_event_id: eventId,
+          p_expected_updated_at: expectedUpdatedAt,
+          p_force: force,
+        });
+        // PT409: the function's optimistic check failed (PostgREST answers 409)
+        if (error?.code === 'PT409') throw new ConflictError(error.message);
+        if (error) throw error;
+        return data;
+      },
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import type {
+  AuditEvent,
+  Company,
+  InteractionLog,
+  Map as StakeMap,
+  MapLayout,
+  Relationship,
+  Stakeholder,
+  TableInsert,
+  TableRow,
+  TableUpdate,
+} from '../../types/database';
+import type { RevertibleTable } from '../audit';
+
+export type RecordStatus = 'active' | 'archived';
+
+export interface CompanyRepository {
+  /** Companies ordered by name; all statuses unless `status` is given. */
+  list(options?: { status?: RecordStatus }): Promise<Company[]>;
+  get(id: string): Promise<Company>;
+  /** Case-insensitive exact name match. */
+  findByName(name: string): Promise<Company | null>;
+  create(input: TableInsert<'companies'>): Promise<Company>;
+  update(id: string, patch: TableUpdate<'companies'>): Promise<Company>;
+}
+
+export interface StakeholderRepository {
+  /** Stakeholders ordered by full name, each with its joined `companies.name`. */
+  list(options?: { status?: RecordStatus }): Promise<Stakeholder[]>;
+  get(id: string): Promise<Stakeholder>;
+  countForCompany(companyId: string, options?: { status?: RecordStatus }): Promise<number>;
+  create(input: TableInsert<'stakeholders'>): Promise<Stakeholder>;
+  update(id: string, patch: TableUpdate<'stakeholders'>): Promise<Stakeholder>;
+}
+
+export interface RelationshipRepository {
+  list(): Promise<Relationship[]>;
+  create(input: TableInsert<'relationships'>): Promise<Relationship>;
+  update(id: string, patch: TableUpdate<'relationships'>): Promise<Relationship>;
+  remove(id: string): Promise<void>;
+}
+
+export interface InteractionLogRepository {
+  /** Newest interaction first. */
+  listForStakeholder(stakeholderId: string): Promise<InteractionLog[]>;
+  create(input: TableInsert<'interaction_logs'>): Promise<InteractionLog>;
+  remove(id: string): Promise<void>;
+}
+
+export interface MapRepository {
+  list(): Promise<StakeMap[]>;
+  create(input: TableInsert<'maps'>): Promise<StakeMap>;
+  update(id: string, patch: TableUpdate<'maps'>): Promise<StakeMap>;
+  /** Deletes the map with its members and layouts. */
+  remove(id: string): Promise<void>;
+  listMembers(mapId: string): Promise<string[]>;
+  addMembers(mapId: string, stakeholderIds: string[]): Promise<void>;
+  removeMembers(mapId: string, stakeholderIds: string[]): Promise<void>;
+}
+
+/**
+ * A position to save, with the `updated_at` of the row it replaces as the writer last saw it (null:
+ * no row). A user's first private position for a node also carries the `updated_at` of the shared
+ * position it was moved from, so a shared layout published meanwhile is not silently hidden.
+ */
+export type LayoutWrite = TableInsert<'map_layouts'> & {
+  expected_updated_at: string | null;
+  expected_shared_updated_at?: string | null;
+};
+
+export interface LayoutSaveResult {
+  /** Rows as written */
+  saved: MapLayout[];
+  /**
+   * Rows changed since the writer saw them, as they are now; these were not written. Either the
+   * writer's own row (moved in another tab or session) or the shared one (published by someone else).
+   */
+  conflicts: MapLayout[];
+}
+
+/**
+ * Rows with `saved_by_user_id` null form a map's shared layout; rows with a user id
+ * are that user's private positions, which override the shared ones in their view.
+ */
+export interface LayoutRepository {
+  /** Shared positions plus, when `userId` is given, that user's private ones. */
+  listForMap(mapId: string, userId?: string | null): Promise<MapLayout[]>;
+  /** Insert or replace positions, keyed by (map_id, stakeholder_id, saved_by_user_id). */
+  upsert(rows: TableInsert<'map_layouts'>[]): Promise<void>;
+  /**
+   * Like `upsert`, but a row whose stored version no longer matches `expected_updated_at` is
+   * left alone and reported back instead. The database sets `updated_at` on the rows it writes.
+   */
+  save(rows: LayoutWrite[]): Promise<LayoutSaveResult>;
+  /** Every user's positions for these stakeholders, shared ones included. */
+  removeForStakeholders(mapId: string, stakeholderIds: string[]): Promise<void>;
+  /** Copy the user's private positions into the shared layout, then drop them. */
+  publish(mapId: string, userId: string): Promise<void>;
+  /** Drop the user's private positions so they see the shared layout again. */
+  removeForUser(mapId: string, userId: string): Promise<void>;
+}
+
+/** A row put back by `AuditRepository.revert`, tagged with its table. */
+export type RevertedRow = {
+  [T in RevertibleTable]: { table: T; row: TableRow<T> };
+}[RevertibleTable];
+
+/**
+ * Events are written by the database's audit trigger on every data change; `revert` writes
+ * through the `revert_audit_event` function, whose change the trigger records in turn.
+ */
+export interface AuditRepository {
+  /** Newest event first, each with its joined actor `profiles.email`. */
+  list(options?: { limit?: number }): Promise<AuditEvent[]>;
+  /**
+   * One entity's events, newest first, `limit` at a time. Pass the oldest event of the
+   * previous page as `before` to fetch the next one.
+   */
+  listForEntity(
+    entityType: string,
+    entityId: string,
+    options?: { before?: Pick<AuditEvent, 'id' | 'changed_at'>; limit?: number }
+  ): Promise<AuditEvent[]>;
+  /** Every event for these entity types, oldest first (optionally only after `since`). */
+  listForTypes(entityTypes: string[], options?: { since?: string }): Promise<AuditEvent[]>;
+  /**
+   * Put a stakeholder, company or relationship back into its state right after `eventId`
+   * (for a delete event: re-create the row). `expectedUpdatedAt` is the entity's updated_at as
+   * the caller last saw it, null if deleted; a mismatch throws ConflictError unless `force`.
+   * Returns the restored row with its table.
+   */
+  revert(
+    eventId: string,
+    options: { expectedUpdatedAt: string | null; force?: boolean }
+  ): Promise<RevertedRow>;
+}
+
+/**
+ * Data access used by every page. Implementations throw on failure so callers
+ * can keep the `try { … } catch (e) { e instanceof Error ? e.message : … }` pattern.
+ */
+export interface DataRepository {
+  companies: CompanyRepository;
+  stakeholders: StakeholderRepository;
+  relationships: RelationshipRepository;
+  interactionLogs: InteractionLogRepository;
+  maps: MapRepository;
+  layouts: LayoutRepository;
+  audit: AuditRepository;
+}
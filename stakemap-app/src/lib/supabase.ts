@@ -1,10 +1,14 @@
 import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../types/database';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.warn('Supabase URL or Anon Key missing. Create a .env file from .env.example');
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
+
+if (!isSupabaseConfigured) {
+  console.warn('Supabase URL or Anon Key missing. Create a .env file from .env.example (using the in-memory backend meanwhile)');
 }
 
-export const supabase = createClient(supabaseUrl || '', supabaseAnonKey || '');
+// createClient rejects an empty URL; an unconfigured client is never queried because the in-memory backend is used instead
+export const supabase = createClient<Database>(supabaseUrl || 'http://localhost:54321', supabaseAnonKey || 'anon');
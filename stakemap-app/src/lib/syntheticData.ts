@@ -0,0 +1,176 @@
+import { DEFAULT_MAP_ID } from './constants';
+import { hybridLayout } from './graph';
+import type { MemoryTables } from './repository/memoryRepository';
+import type { Company, Relationship, RelationType, SeniorityLevel, SentimentType, Stakeholder } from '../types/database';
+
+export interface SyntheticSize {
+  stakeholders: number;
+  relationships: number;
+}
+
+const FIRST_NAMES = [
+  'Ada', 'Ben', 'Chloe', 'Dev', 'Elena', 'Farid', 'Grace', 'Hugo', 'Ines', 'Jonas',
+  'Kira', 'Liam', 'Maya', 'Noah', 'Olga', 'Priya', 'Quinn', 'Rosa', 'Sami', 'Tara',
+];
+const LAST_NAMES = [
+  'Abbott', 'Brandt', 'Costa', 'Dubois', 'Eriksen', 'Fischer', 'Garcia', 'Hale', 'Ito', 'Jensen',
+  'Kowalski', 'Laine', 'Moreau', 'Novak', 'Okafor', 'Patel', 'Rossi', 'Silva', 'Tanaka', 'Weber',
+];
+const COMPANY_WORDS = ['Acme', 'Apex', 'Beacon', 'Cobalt', 'Delta', 'Ember', 'Summit', 'Harbor', 'Nova', 'Orbit'];
+const COMPANY_SUFFIXES = ['Labs', 'Group', 'Systems', 'Partners', 'Energy', 'Health', 'Logistics', 'Capital'];
+const INDUSTRIES = ['Technology', 'Finance', 'Healthcare', 'Energy', 'Retail', 'Manufacturing'];
+const REGIONS = ['EMEA', 'North America', 'APAC', 'LATAM'];
+const DEPARTMENTS = ['Sales', 'Engineering', 'Finance', 'Operations', 'Legal', 'Procurement', 'Marketing'];
+
+/** Roughly one C-level per 25 people, widening towards individual contributors */
+const SENIORITY_WEIGHTS: [SeniorityLevel, number][] = [['C_LEVEL', 1], ['VP', 2], ['DIRECTOR', 4], ['MANAGER', 7], ['IC', 11]];
+const SENIORITY_RANK: Record<SeniorityLevel, number> = { IC: 1, MANAGER: 2, DIRECTOR: 3, VP: 4, C_LEVEL: 5 };
+const SENTIMENT_WEIGHTS: [SentimentType, number][] = [['ALLY', 3], ['NEUTRAL', 4], ['OPPONENT', 2], ['UNKNOWN', 2]];
+const RELATION_WEIGHTS: [RelationType, number][] = [
+  ['PEER_OF', 4], ['COLLABORATES_WITH', 5], ['INFLUENCES', 3], ['ADVISES', 2],
+  ['SPONSORS', 1], ['BLOCKS', 1], ['GATEKEEPER_FOR', 1],
+];
+
+const PEOPLE_PER_COMPANY = 25;
+/** Share of relationships that stay inside one company */
+const INTERNAL_SHARE = 0.75;
+const CREATED_AT = '2024-01-01T00:00:00.000Z';
+
+/** Mulberry32: a small seeded PRNG, so the same size and seed always give the same dataset */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Stable UUID-shaped ids; the first group tells the tables apart */
+function syntheticId(table: number, index: number): string {
+  return `5e7d${table.toString(16).padStart(4, '0')}-0000-4000-8000-${index.toString(16).padStart(12, '0')}`;
+}
+
+/** Parses `VITE_SYNTHETIC_DATA`, e.g. "2000x8000" (stakeholders × relationships); null when unset or malformed. */
+export function parseSyntheticSize(value: string | undefined): SyntheticSize | null {
+  const match = value?.trim().match(/^(\d+)\s*[x×:]\s*(\d+)$/);
+  if (!match) return null;
+  const stakeholders = Number(match[1]);
+  if (stakeholders < 2) return null;
+  return { stakeholders, relationships: Number(match[2]) };
+}
+
+/**
+ * A generated dataset for the memory backend: companies (some of them subsidiaries), people
+ * spread unevenly across them, mostly in-company relationships with Reports To lines running
+ * up the seniority ladder, all on the default map with a clustered layout. Deterministic per seed.
+ * Stops short of `size.relationships` only when the people can't hold that many distinct ones.
+ */
+export function generateSyntheticData(size: SyntheticSize, seed = 1): Partial<MemoryTables> {
+  const random = seededRandom(seed);
+  const pick = <T>(items: readonly T[]) => items[Math.floor(random() * items.length)];
+  const weighted = <T>(weights: [T, number][]) => {
+    let r = random() * weights.reduce((sum, [, w]) => sum + w, 0);
+    for (const [value, w] of weights) {
+      r -= w;
+      if (r < 0) return value;
+    }
+    return weights[weights.length - 1][0];
+  };
+  const base = { status: 'active', created_at: CREATED_AT, updated_at: CREATED_AT };
+
+  const companyCount = Math.max(1, Math.round(size.stakeholders / PEOPLE_PER_COMPANY));
+  const companies: Company[] = Array.from({ length: companyCount }, (_, i) => {
+    const round = Math.floor(i / (COMPANY_WORDS.length * COMPANY_SUFFIXES.length));
+    const name = `${COMPANY_WORDS[i % COMPANY_WORDS.length]} ${COMPANY_SUFFIXES[Math.floor(i / COMPANY_WORDS.length) % COMPANY_SUFFIXES.length]}`;
+    return {
+      ...base,
+      id: syntheticId(1, i),
+      name: round > 0 ? `${name} ${round + 1}` : name,
+      industry: pick(INDUSTRIES),
+      region: pick(REGIONS),
+      // About one in five is a subsidiary of an earlier company
+      parent_company_id: i > 0 && random() < 0.2 ? syntheticId(1, Math.floor(random() * i)) : null,
+      tags: [],
+    };
+  });
+
+  // Uneven company sizes: a few large employers, a long tail of small ones
+  const companyWeights: [number, number][] = companies.map((_, i) => [i, 1 / (1 + (i % 10))]);
+  const stakeholders: Omit<Stakeholder, 'companies'>[] = Array.from({ length: size.stakeholders }, (_, i) => {
+    const company = i < companyCount ? i : weighted(companyWeights);
+    const seniority = weighted(SENIORITY_WEIGHTS);
+    return {
+      ...base,
+      id: syntheticId(2, i),
+      company_id: companies[company].id,
+      full_name: `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`,
+      title: null,
+      department: pick(DEPARTMENTS),
+      seniority_level: seniority,
+      influence_score: Math.min(5, Math.max(1, SENIORITY_RANK[seniority] - 1 + Math.floor(random() * 2))),
+      sentiment: weighted(SENTIMENT_WEIGHTS),
+      sentiment_confidence: Math.round(random() * 100) / 100,
+      notes: null,
+      email: null,
+      phone: null,
+      linkedin_url: null,
+    };
+  });
+
+  const byCompany = new Map<string, Omit<Stakeholder, 'companies'>[]>();
+  for (const s of stakeholders) {
+    if (!byCompany.has(s.company_id)) byCompany.set(s.company_id, []);
+    byCompany.get(s.company_id)!.push(s);
+  }
+
+  const relationships: Relationship[] = [];
+  const taken = new Set<string>();
+  for (let attempt = 0; relationships.length < size.relationships && attempt < size.relationships * 20; attempt++) {
+    const from = pick(stakeholders);
+    const colleagues = byCompany.get(from.company_id)!;
+    const to = random() < INTERNAL_SHARE && colleagues.length > 1 ? pick(colleagues) : pick(stakeholders);
+    if (from.id === to.id) continue;
+    const upward = from.company_id === to.company_id
+      && SENIORITY_RANK[from.seniority_level!] < SENIORITY_RANK[to.seniority_level!];
+    const type: RelationType = upward && random() < 0.5 ? 'REPORTS_TO' : weighted(RELATION_WEIGHTS);
+    const key = `${from.id}|${to.id}|${type}`;
+    if (taken.has(key)) continue;
+    taken.add(key);
+    relationships.push({
+      id: syntheticId(3, relationships.length),
+      from_stakeholder_id: from.id,
+      to_stakeholder_id: to.id,
+      relation_type: type,
+      directionality: type === 'PEER_OF' || type === 'COLLABORATES_WITH' ? 'bidirectional' : 'directional',
+      strength: 1 + Math.floor(random() * 5),
+      sentiment_impact: null,
+      confidence: null,
+      last_validated_at: null,
+      notes: null,
+      created_at: CREATED_AT,
+      updated_at: CREATED_AT,
+    });
+  }
+
+  const positions = hybridLayout(stakeholders, relationships, companies);
+  return {
+    companies,
+    stakeholders,
+    relationships,
+    map_stakeholders: stakeholders.map((s) => ({ map_id: DEFAULT_MAP_ID, stakeholder_id: s.id, created_at: CREATED_AT })),
+    map_layouts: stakeholders.map((s, i) => ({
+      id: syntheticId(4, i),
+      map_id: DEFAULT_MAP_ID,
+      stakeholder_id: s.id,
+      x: positions[s.id].x,
+      y: positions[s.id].y,
+      zoom_context: null,
+      saved_by_user_id: null,
+      created_at: CREATED_AT,
+      updated_at: CREATED_AT,
+    })),
+  };
+}
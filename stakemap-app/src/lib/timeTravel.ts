@@ -0,0 +1,81 @@
+import type { AuditEvent, Company, Relationship, Stakeholder } from '../types/database';
+
+type ById<T> = Record<string, T>;
+
+/** The rows a map is drawn from, at one moment. */
+export interface GraphSnapshot {
+  companies: ById<Company>;
+  stakeholders: ById<Omit<Stakeholder, 'companies'>>;
+  relationships: ById<Relationship>;
+  /** Ids of the stakeholders on the map */
+  memberIds: string[];
+}
+
+/** A snapshot in the shape MapPage renders: active stakeholders with their company name. */
+export interface PastGraph {
+  at: number;
+  stakeholders: Stakeholder[];
+  relationships: Relationship[];
+  memberIds: string[];
+}
+
+/** Entity types whose events change what a map shows. */
+export const SNAPSHOT_ENTITY_TYPES = ['company', 'stakeholder', 'relationship', 'map_member'];
+
+const SNAPSHOT_TABLES: Partial<Record<string, 'companies' | 'stakeholders' | 'relationships'>> = {
+  company: 'companies',
+  stakeholder: 'stakeholders',
+  relationship: 'relationships',
+};
+
+/**
+ * The graph as it was at `at` (epoch ms), rebuilt by undoing every later event on top of the
+ * live graph. `events` must be oldest first and run up to the live state. Events without a
+ * recorded prior state (written before the audit trigger existed) cannot be undone and are skipped.
+ */
+export function snapshotAt(live: GraphSnapshot, events: AuditEvent[], mapId: string, at: number): GraphSnapshot {
+  const tables = {
+    companies: { ...live.companies } as ById<unknown>,
+    stakeholders: { ...live.stakeholders } as ById<unknown>,
+    relationships: { ...live.relationships } as ById<unknown>,
+  };
+  const members = new Set(live.memberIds);
+
+  for (let i = events.length - 1; i >= 0; i--) {
+    const event = events[i];
+    if (Date.parse(event.changed_at) <= at) break;
+    const diff = event.diff_json;
+    if (!diff || (!diff.before && Object.keys(diff.changed ?? {}).length === 0)) continue;
+
+    if (event.entity_type === 'map_member') {
+      if (event.entity_id !== mapId) continue;
+      const stakeholderId = String((diff.before ?? diff.after)?.stakeholder_id);
+      if (diff.before) members.add(stakeholderId);
+      else members.delete(stakeholderId);
+      continue;
+    }
+
+    const table = SNAPSHOT_TABLES[event.entity_type];
+    if (!table) continue;
+    if (diff.before) tables[table][event.entity_id] = diff.before;
+    else delete tables[table][event.entity_id];
+  }
+
+  return {
+    companies: tables.companies as GraphSnapshot['companies'],
+    stakeholders: tables.stakeholders as GraphSnapshot['stakeholders'],
+    relationships: tables.relationships as GraphSnapshot['relationships'],
+    memberIds: [...members],
+  };
+}
+
+export function toPastGraph(snapshot: GraphSnapshot, at: number): PastGraph {
+  const stakeholders = Object.values(snapshot.stakeholders)
+    .filter((s) => s.status !== 'archived')
+    .map((s) => {
+      const company = snapshot.companies[s.company_id];
+      return { ...s, companies: company ? { name: company.name } : null };
+    })
+    .sort((a, b) => a.full_name.localeCompare(b.full_name));
+  return { at, stakeholders, relationships: Object.values(snapshot.relationships), memberIds: snapshot.memberIds };
+}
@@ -1,5 +1,8 @@
 import { useEffect, useState, useMemo } from 'react';
-import { supabase } from '../../lib/supabase';
+import { realtime, repo } from '../../lib/repository';
+import { REVERTIBLE_TABLES, actorLabel, describeChange, relativeTime, shownUpdatedAt, withKnownActor } from '../../lib/audit';
+import { RestoreButton } from '../../components/audit/RestoreButton';
+import { useAuthStore, useCanEdit } from '../../store/authStore';
 import type { AuditEvent } from '../../types/database';
 
 const ACTION_BADGE: Record<string, string> = {
@@ -8,47 +11,59 @@ const ACTION_BADGE: Record<string, string> = {
   archive: 'bg-amber-100 text-amber-700',
   restore: 'bg-violet-100 text-violet-700',
   delete: 'bg-red-100 text-red-700',
+  revert: 'bg-slate-200 text-slate-700',
 };
 
 const ENTITY_BADGE: Record<string, string> = {
   stakeholder: 'bg-slate-100 text-slate-600',
   company: 'bg-slate-100 text-slate-600',
   relationship: 'bg-slate-100 text-slate-600',
+  interaction_log: 'bg-slate-100 text-slate-600',
+  map: 'bg-slate-100 text-slate-600',
+  map_member: 'bg-slate-100 text-slate-600',
 };
 
-function relativeTime(iso: string): string {
-  const diff = Date.now() - new Date(iso).getTime();
-  const s = Math.floor(diff / 1000);
-  if (s < 60) return `${s}s ago`;
-  const m = Math.floor(s / 60);
-  if (m < 60) return `${m}m ago`;
-  const h = Math.floor(m / 60);
-  if (h < 24) return `${h}h ago`;
-  return new Date(iso).toLocaleDateString();
-}
+const ENTITY_TYPES = ['stakeholder', 'company', 'relationship', 'interaction_log', 'map', 'map_member'];
 
-const ENTITY_TYPES = ['stakeholder', 'company', 'relationship'];
-const ACTIONS = ['create', 'update', 'archive', 'restore', 'delete'];
+function entityLabel(type: string): string {
+  const label = type.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+const ACTIONS = ['create', 'update', 'archive', 'restore', 'delete', 'revert'];
 
 export function AuditLog() {
   const [events, setEvents] = useState<AuditEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [entityFilter, setEntityFilter] = useState('');
   const [actionFilter, setActionFilter] = useState('');
+  const user = useAuthStore((s) => s.user);
+  const canEdit = useCanEdit();
 
   useEffect(() => {
     async function fetchEvents() {
-      const { data } = await supabase
-        .from('audit_events')
-        .select('*')
-        .order('changed_at', { ascending: false })
-        .limit(300);
-      setEvents((data as AuditEvent[]) || []);
-      setLoading(false);
+      try {
+        setEvents(await repo.audit.list({ limit: 300 }));
+      } catch (e) {
+        console.error('Failed to load audit log:', e);
+      } finally {
+        setLoading(false);
+      }
     }
     fetchEvents();
   }, []);
 
+  // New events arrive live at the top of the list
+  useEffect(
+    () => realtime.subscribe(['audit_events'], (change) => {
+      if (change.table !== 'audit_events' || change.eventType !== 'INSERT' || !change.new) return;
+      const row = change.new;
+      setEvents((prev) => (
+        prev.some((e) => e.id === row.id) ? prev : [withKnownActor(row, prev, user), ...prev].slice(0, 300)
+      ));
+    }),
+    [user]
+  );
+
   const filtered = useMemo(() => {
     let result = events;
     if (entityFilter) result = result.filter((e) => e.entity_type === entityFilter);
@@ -72,7 +87,7 @@ export function AuditLog() {
             className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-1 focus:ring-emerald-400"
           >
             <option value="">All entity types</option>
-            {ENTITY_TYPES.map((t) => <option key={t} value={t}>{t.charAt(0).toUpperCase() + t.slice(1)}</option>)}
+            {ENTITY_TYPES.map((t) => <option key={t} value={t}>{entityLabel(t)}</option>)}
           </select>
           <select
             value={actionFilter}
@@ -88,7 +103,7 @@ export function AuditLog() {
       {filtered.length === 0 ? (
         <div className="glass-card-solid p-8 text-center">
           <p className="text-sm text-slate-500">No audit events found.</p>
-          <p className="mt-1 text-xs text-slate-400">Events are recorded when stakeholders, companies, or relationships are created, edited, or archived.</p>
+          <p className="mt-1 text-xs text-slate-400">Every change to stakeholders, companies, relationships, interactions and maps is recorded here.</p>
         </div>
       ) : (
         <div className="table-container">
@@ -99,15 +114,17 @@ export function AuditLog() {
                 <th>Action</th>
                 <th>Entity ID</th>
                 <th>Details</th>
+                <th>By</th>
                 <th className="text-right">When</th>
+                {canEdit && <th />}
               </tr>
             </thead>
             <tbody>
               {filtered.map((evt) => (
                 <tr key={evt.id} className="table-row">
                   <td>
-                    <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium capitalize ${ENTITY_BADGE[evt.entity_type] || 'bg-gray-100 text-gray-600'}`}>
-                      {evt.entity_type}
+                    <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${ENTITY_BADGE[evt.entity_type] || 'bg-gray-100 text-gray-600'}`}>
+                      {entityLabel(evt.entity_type)}
                     </span>
                   </td>
                   <td>
@@ -118,12 +135,18 @@ export function AuditLog() {
                   <td className="font-mono text-xs text-slate-400" title={evt.entity_id}>
                     {evt.entity_id.slice(0, 8)}…
                   </td>
-                  <td className="max-w-xs truncate text-xs text-slate-500">
-                    {evt.diff_json ? JSON.stringify(evt.diff_json) : '—'}
+                  <td className="max-w-xs truncate text-xs text-slate-500" title={describeChange(evt)}>
+                    {describeChange(evt)}
                   </td>
+                  <td className="text-xs text-slate-500">{actorLabel(evt)}</td>
                   <td className="text-right text-xs text-slate-400" title={evt.changed_at}>
                     {relativeTime(evt.changed_at)}
                   </td>
+                  {canEdit && (
+                    <td className="text-right">
+                      {evt.entity_type in REVERTIBLE_TABLES && evt.diff_json && <RestoreButton event={evt} expectedUpdatedAt={shownUpdatedAt(events, evt)} />}
+                    </td>
+                  )}
                 </tr>
               ))}
             </tbody>
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { dataBackend } from '../../lib/repository';
+import { useAuthStore } from '../../store/authStore';
+import type { AppRole } from '../../types/database';
+
+const ROLES: AppRole[] = ['admin', 'editor', 'viewer'];
+
+export function SignIn() {
+  const status = useAuthStore((s) => s.status);
+  const signIn = useAuthStore((s) => s.signIn);
+  const location = useLocation();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<AppRole>('admin');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isLocal = dataBackend === 'memory';
+
+  const from = (location.state as { from?: string } | null)?.from ?? '/';
+  if (status === 'signedIn') return <Navigate to={from} replace />;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      await signIn({ email: email.trim(), password, role: isLocal ? role : undefined });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to sign in');
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+      <div className="glass-card-solid w-full max-w-sm p-6 fade-in">
+        <div className="mb-6 flex items-center gap-2 text-lg font-bold tracking-tight text-slate-900">
+          <span className="flex h-7 w-7 items-center justify-center rounded-lg bg-emerald-600 text-xs font-bold text-white">
+            SM
+          </span>
+          StakeMap
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">{error}</div>}
+          <div>
+            <label className="label">Email</label>
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Password</label>
+            <input
+              type="password"
+              required={!isLocal}
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="input"
+            />
+          </div>
+          {isLocal && (
+            <div>
+              <label className="label">Role</label>
+              <select value={role} onChange={(e) => setRole(e.target.value as AppRole)} className="input">
+                {ROLES.map((r) => (
+                  <option key={r} value={r}>{r.charAt(0).toUpperCase() + r.slice(1)}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-slate-500">Local mode: any email signs in with the role you pick.</p>
+            </div>
+          )}
+          <button type="submit" disabled={submitting} className="btn-primary w-full disabled:opacity-50">
+            {submitting ? 'Signing in...' : 'Sign in'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
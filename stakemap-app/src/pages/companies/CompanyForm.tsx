@@ -1,16 +1,36 @@
 import { useEffect, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
-import { supabase } from '../../lib/supabase';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import {
+  activeStakeholderCountForCompany,
+  selectActiveCompanies,
+  useGraphStore,
+} from '../../store/graphStore';
+import { useCanEdit } from '../../store/authStore';
+import { EntityHistory } from '../../components/audit/EntityHistory';
 import type { Company } from '../../types/database';
 
+function formFromCompany(c: Company) {
+  return {
+    name: c.name,
+    industry: c.industry || '',
+    region: c.region || '',
+    parent_company_id: c.parent_company_id || '',
+    tags: Array.isArray(c.tags) ? c.tags.join(', ') : '',
+  };
+}
+
 export function CompanyForm() {
   const { id } = useParams();
   const navigate = useNavigate();
   const isEdit = Boolean(id);
+  const readOnly = !useCanEdit();
   const [loading, setLoading] = useState(isEdit);
   const [error, setError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
-  const [allCompanies, setAllCompanies] = useState<Company[]>([]);
+  const allCompanies = useGraphStore(selectActiveCompanies);
+  const loadStore = useGraphStore((s) => s.load);
+  const createCompany = useGraphStore((s) => s.createCompany);
+  const updateCompany = useGraphStore((s) => s.updateCompany);
   const [form, setForm] = useState({
     name: '',
     industry: '',
@@ -19,35 +39,30 @@ export function CompanyForm() {
     tags: '',
   });
 
-  useEffect(() => {
-    async function loadAll() {
-      const { data } = await supabase.from('companies').select('*').eq('status', 'active').order('name');
-      setAllCompanies((data as Company[]) || []);
-    }
-    loadAll();
-  }, []);
-
   useEffect(() => {
     const loadId = id;
-    if (!loadId) return;
-    async function load() {
-      const { data, error: err } = await supabase.from('companies').select('*').eq('id', loadId).single();
-      if (err) {
-        setError(err.message);
+    if (!loadId) {
+      loadStore();
+      return;
+    }
+    async function load(companyId: string) {
+      await loadStore();
+      const { companies, error: loadError } = useGraphStore.getState();
+      const c = companies[companyId];
+      if (!c) {
+        setError(loadError ?? 'Company not found');
         return;
       }
-      const c = data as Company;
-      setForm({
-        name: c.name,
-        industry: c.industry || '',
-        region: c.region || '',
-        parent_company_id: c.parent_company_id || '',
-        tags: Array.isArray(c.tags) ? c.tags.join(', ') : '',
-      });
+      setForm(formFromCompany(c));
       setLoading(false);
     }
-    load();
-  }, [id]);
+    load(loadId);
+  }, [id, loadStore]);
+
+  function refillForm(companyId: string) {
+    const c = useGraphStore.getState().companies[companyId];
+    if (c) setForm(formFromCompany(c));
+  }
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -64,14 +79,12 @@ export function CompanyForm() {
 
     try {
       if (isEdit) {
-        const { error: err } = await supabase.from('companies').update(payload).eq('id', id!);
-        if (err) throw err;
+        await updateCompany(id!, payload);
       } else {
-        const { error: err } = await supabase.from('companies').insert({
+        await createCompany({
           ...payload,
           updated_at: undefined,
         });
-        if (err) throw err;
       }
       navigate('/companies');
     } catch (e) {
@@ -81,20 +94,15 @@ export function CompanyForm() {
 
   async function handleDelete() {
     if (!id) return;
-    const { count } = await supabase
-      .from('stakeholders')
-      .select('id', { count: 'exact', head: true })
-      .eq('company_id', id)
-      .eq('status', 'active');
-    if ((count ?? 0) > 0) {
+    const count = activeStakeholderCountForCompany(useGraphStore.getState(), id);
+    if (count > 0) {
       window.alert(`This company has ${count} active stakeholder${count === 1 ? '' : 's'}. Archive or reassign them before archiving the company.`);
       return;
     }
     if (!window.confirm('Archive this company?')) return;
     setDeleting(true);
     try {
-      const { error: err } = await supabase.from('companies').update({ status: 'archived' }).eq('id', id);
-      if (err) throw err;
+      await updateCompany(id, { status: 'archived' });
       navigate('/companies');
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to archive');
@@ -102,76 +110,84 @@ export function CompanyForm() {
     }
   }
 
+  if (readOnly && !isEdit) return <Navigate to="/companies" replace />;
   if (loading) return <div className="text-slate-500">Loading...</div>;
 
   return (
     <div>
-      <h1 className="mb-6 text-2xl font-semibold text-slate-900">{isEdit ? 'Edit Company' : 'Add Company'}</h1>
+      <h1 className="mb-6 text-2xl font-semibold text-slate-900">{readOnly ? 'Company' : isEdit ? 'Edit Company' : 'Add Company'}</h1>
       <form onSubmit={handleSubmit} className="max-w-md space-y-4">
         {error && <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">{error}</div>}
-        <div>
-          <label className="label">Name *</label>
-          <input
-            type="text"
-            required
-            value={form.name}
-            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
-            className="input"
-          />
-        </div>
-        <div>
-          <label className="label">Industry</label>
-          <input
-            type="text"
-            value={form.industry}
-            onChange={(e) => setForm((f) => ({ ...f, industry: e.target.value }))}
-            className="input"
-          />
-        </div>
-        <div>
-          <label className="label">Region</label>
-          <input
-            type="text"
-            value={form.region}
-            onChange={(e) => setForm((f) => ({ ...f, region: e.target.value }))}
-            className="input"
-          />
-        </div>
-        <div>
-          <label className="label">Parent Company</label>
-          <select
-            value={form.parent_company_id}
-            onChange={(e) => setForm((f) => ({ ...f, parent_company_id: e.target.value }))}
-            className="input"
-          >
-            <option value="">None</option>
-            {allCompanies.filter((c) => c.id !== id).map((c) => (
-              <option key={c.id} value={c.id}>{c.name}</option>
-            ))}
-          </select>
-        </div>
-        <div>
-          <label className="label">Tags (comma-separated)</label>
-          <input
-            type="text"
-            value={form.tags}
-            onChange={(e) => setForm((f) => ({ ...f, tags: e.target.value }))}
-            placeholder="e.g. enterprise, B2B"
-            className="input"
-          />
-        </div>
+        {readOnly && (
+          <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 text-sm text-slate-600">You have view-only access.</div>
+        )}
+        <fieldset disabled={readOnly} className="space-y-4">
+          <div>
+            <label className="label">Name *</label>
+            <input
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Industry</label>
+            <input
+              type="text"
+              value={form.industry}
+              onChange={(e) => setForm((f) => ({ ...f, industry: e.target.value }))}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Region</label>
+            <input
+              type="text"
+              value={form.region}
+              onChange={(e) => setForm((f) => ({ ...f, region: e.target.value }))}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Parent Company</label>
+            <select
+              value={form.parent_company_id}
+              onChange={(e) => setForm((f) => ({ ...f, parent_company_id: e.target.value }))}
+              className="input"
+            >
+              <option value="">None</option>
+              {allCompanies.filter((c) => c.id !== id).map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Tags (comma-separated)</label>
+            <input
+              type="text"
+              value={form.tags}
+              onChange={(e) => setForm((f) => ({ ...f, tags: e.target.value }))}
+              placeholder="e.g. enterprise, B2B"
+              className="input"
+            />
+          </div>
+        </fieldset>
         <div className="flex flex-wrap gap-3 pt-2">
-          <button type="submit" className="btn-primary">
-            {isEdit ? 'Save' : 'Create'}
-          </button>
+          {!readOnly && (
+            <button type="submit" className="btn-primary">
+              {isEdit ? 'Save' : 'Create'}
+            </button>
+          )}
           <button
             type="button"
             onClick={() => navigate('/companies')}
             className="btn-secondary"
           >
-            Cancel
+            {readOnly ? 'Back' : 'Cancel'}
           </button>
-          {isEdit && (
+          {isEdit && !readOnly && (
             <button
               type="button"
               onClick={handleDelete}
@@ -183,6 +199,11 @@ export function CompanyForm() {
           )}
         </div>
       </form>
+      {isEdit && id && (
+        <div className="mt-8 max-w-md">
+          <EntityHistory entityType="company" entityId={id} onRestored={() => refillForm(id)} />
+        </div>
+      )}
     </div>
   );
 }
@@ -1,54 +1,39 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { supabase } from '../../lib/supabase';
-import { logAudit } from '../../lib/audit';
-import type { Company } from '../../types/database';
+import {
+  activeStakeholderCountForCompany,
+  selectActiveCompanies,
+  useGraphStore,
+  useLiveGraph,
+} from '../../store/graphStore';
+import { useCanEdit } from '../../store/authStore';
 
 export function CompanyList() {
-  const [companies, setCompanies] = useState<Company[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const companies = useGraphStore(selectActiveCompanies);
+  const status = useGraphStore((s) => s.status);
+  const error = useGraphStore((s) => s.error);
+  const load = useGraphStore((s) => s.load);
+  const updateCompany = useGraphStore((s) => s.updateCompany);
+  useLiveGraph();
+  const canEdit = useCanEdit();
   const [deletingId, setDeletingId] = useState<string | null>(null);
-
-  async function fetchCompanies() {
-    try {
-      const { data, error: err } = await supabase
-        .from('companies')
-        .select('*')
-        .eq('status', 'active')
-        .order('name');
-      if (err) throw err;
-      setCompanies((data as Company[]) || []);
-    } catch (e) {
-      setError(e instanceof Error ? e.message : 'Failed to load companies');
-    } finally {
-      setLoading(false);
-    }
-  }
+  const loading = status === 'idle' || status === 'loading';
 
   useEffect(() => {
-    fetchCompanies();
-  }, []);
+    load();
+  }, [load]);
 
   async function deleteCompany(id: string) {
     // Guard: check for active stakeholders
-    const { count, error: countErr } = await supabase
-      .from('stakeholders')
-      .select('id', { count: 'exact', head: true })
-      .eq('company_id', id)
-      .eq('status', 'active');
-    if (countErr) { window.alert('Could not verify stakeholders. Try again.'); return; }
-    if ((count ?? 0) > 0) {
+    const count = activeStakeholderCountForCompany(useGraphStore.getState(), id);
+    if (count > 0) {
       window.alert(`This company has ${count} active stakeholder${count === 1 ? '' : 's'}. Archive or reassign them before deleting the company.`);
       return;
     }
     if (!window.confirm('Archive this company? It will be hidden from all views.')) return;
     setDeletingId(id);
     try {
-      const { error: err } = await supabase.from('companies').update({ status: 'archived' }).eq('id', id);
-      if (err) throw err;
-      logAudit('company', id, 'archive');
-      await fetchCompanies();
+      await updateCompany(id, { status: 'archived' });
     } catch (e) {
       window.alert(e instanceof Error ? e.message : 'Failed to archive company');
     } finally {
@@ -63,9 +48,11 @@ export function CompanyList() {
     <div>
       <div className="mb-6 flex items-center justify-between">
         <h1 className="text-2xl font-semibold text-slate-900">Companies</h1>
-        <Link to="/companies/new" className="btn-primary">
-          Add Company
-        </Link>
+        {canEdit && (
+          <Link to="/companies/new" className="btn-primary">
+            Add Company
+          </Link>
+        )}
       </div>
       <div className="table-container">
         <table className="w-full">
@@ -88,16 +75,20 @@ export function CompanyList() {
                     to={`/companies/${c.id}/edit`}
                     className="font-medium text-emerald-600 hover:text-emerald-700"
                   >
-                    Edit
+                    {canEdit ? 'Edit' : 'View'}
                   </Link>
-                  {' · '}
-                  <button
-                    onClick={() => deleteCompany(c.id)}
-                    disabled={deletingId === c.id}
-                    className="font-medium text-red-500 hover:text-red-600 disabled:opacity-50"
-                  >
-                    {deletingId === c.id ? 'Archiving...' : 'Archive'}
-                  </button>
+                  {canEdit && (
+                    <>
+                      {' · '}
+                      <button
+                        onClick={() => deleteCompany(c.id)}
+                        disabled={deletingId === c.id}
+                        className="font-medium text-red-500 hover:text-red-600 disabled:opacity-50"
+                      >
+                        {deletingId === c.id ? 'Archiving...' : 'Archive'}
+                      </button>
+                    </>
+                  )}
                 </td>
               </tr>
             ))}
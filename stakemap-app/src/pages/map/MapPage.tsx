@@ -1,23 +1,54 @@
-import { useEffect, useState, useMemo, useRef } from 'react';
+import { useCallback, useEffect, useState, useMemo, useRef } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { GraphCanvas } from '../../components/graph/GraphCanvas';
 import type { GraphCanvasHandle, LayoutName } from '../../components/graph/GraphCanvas';
+import { EntityHistory } from '../../components/audit/EntityHistory';
 import { CompanyFilter } from '../../components/graph/CompanyFilter';
 import { MapFilters } from '../../components/graph/MapFilters';
 import { AddRelationshipForm } from '../../components/relationships/AddRelationshipForm';
-import { supabase } from '../../lib/supabase';
-import { DEFAULT_MAP_ID } from '../../lib/constants';
+import { MapMembersPicker } from '../../components/maps/MapMembersPicker';
+import { TimeTravelBar } from '../../components/graph/TimeTravelBar';
+import { PowerCentersPanel } from '../../components/graph/PowerCentersPanel';
+import type { NodeColoring, NodeSizing } from '../../components/graph/PowerCentersPanel';
+import { TopInfluencersPanel } from '../../components/graph/TopInfluencersPanel';
+import { OpponentsPanel } from '../../components/graph/OpponentsPanel';
+import { PathFinderPanel } from '../../components/graph/PathFinderPanel';
+import { WhatIfPanel } from '../../components/graph/WhatIfPanel';
 import { exportStakeholdersCsv, exportRelationshipsCsv } from '../../lib/csvTemplate';
-import { logAudit } from '../../lib/audit';
+import { sceneToPdf, sceneToSvg } from '../../lib/mapExport';
+import { archiveConfirmText, effectiveLayouts, selectActiveStakeholders, selectCompanies, selectRelationships, useGraphStore, useLiveGraph } from '../../store/graphStore';
+import { useCanEdit } from '../../store/authStore';
+import { repo } from '../../lib/repository';
+import { DEFAULT_MAP_ID } from '../../lib/constants';
+import type { PastGraph } from '../../lib/timeTravel';
+import { CENTRALITY_METRICS, buildGraph, checkReportingLine, computeCentrality, detectCommunities, findStructuralHoles, metricScores, opponentsNearCompany, orgChartLayout, rankInfluencers } from '../../lib/graph';
+import type { FoundPath, LayoutKind, SentimentValues } from '../../lib/graph';
+import { startLayoutJob } from '../../lib/layoutWorker';
+import type { LayoutQueueStatus } from '../../lib/layoutQueue';
 import type { Stakeholder } from '../../types/database';
 import type { Relationship, RelationType } from '../../types/database';
-import type { MapLayout } from '../../types/database';
 
 const RELATION_TYPES: RelationType[] = [
   'REPORTS_TO', 'PEER_OF', 'INFLUENCES', 'COLLABORATES_WITH',
   'ADVISES', 'BLOCKS', 'SPONSORS', 'GATEKEEPER_FOR',
 ];
 
+const LAYOUT_SAVE_LABELS: Record<LayoutQueueStatus, string> = {
+  saved: 'Positions saved',
+  pending: 'Unsaved positions',
+  saving: 'Saving positions…',
+  retrying: 'Save failed, retrying…',
+  failed: 'Positions not saved',
+};
+
+const SENIORITY_NAMES: Record<string, string> = {
+  C_LEVEL: 'C-Level',
+  VP: 'VP',
+  DIRECTOR: 'Director',
+  MANAGER: 'Manager',
+  IC: 'IC',
+};
+
 const SENTIMENT_BADGE: Record<string, string> = {
   ALLY: 'badge badge-ally',
   NEUTRAL: 'badge badge-neutral',
@@ -25,16 +56,42 @@ const SENTIMENT_BADGE: Record<string, string> = {
   UNKNOWN: 'badge badge-unknown',
 };
 
-export function MapPage() {
-  const [stakeholders, setStakeholders] = useState<Stakeholder[]>([]);
-  const [relationships, setRelationships] = useState<Relationship[]>([]);
-  const [layouts, setLayouts] = useState<MapLayout[]>([]);
-  const [selectedStakeholder, setSelectedStakeholder] = useState<Stakeholder | null>(null);
+interface MapPageProps {
+  mapId: string;
+}
+
+export function MapPage({ mapId }: MapPageProps) {
+  const liveStakeholders = useGraphStore(selectActiveStakeholders);
+  const liveRelationships = useGraphStore(selectRelationships);
+  const companies = useGraphStore(selectCompanies);
+  const liveMemberList = useGraphStore((s) => s.mapMembers[mapId]);
+  const layoutSet = useGraphStore((s) => s.layouts[mapId]);
+  const loadMap = useGraphStore((s) => s.loadMap);
+  const addMapMembers = useGraphStore((s) => s.addMapMembers);
+  const removeMapMembers = useGraphStore((s) => s.removeMapMembers);
+  const setStakeholderStatus = useGraphStore((s) => s.setStakeholderStatus);
+  const updateRelationship = useGraphStore((s) => s.updateRelationship);
+  const removeRelationship = useGraphStore((s) => s.deleteRelationship);
+  const revertToEvent = useGraphStore((s) => s.revertToEvent);
+  const publishLayout = useGraphStore((s) => s.publishLayout);
+  const resetLayout = useGraphStore((s) => s.resetLayout);
+  const layoutSave = useGraphStore((s) => s.layoutSave);
+  const flushLayouts = useGraphStore((s) => s.flushLayouts);
+  const resolveLayoutConflicts = useGraphStore((s) => s.resolveLayoutConflicts);
+  useLiveGraph();
+  // While time travelling the map shows a past state rebuilt from the audit trail
+  const [pastGraph, setPastGraph] = useState<PastGraph | null>(null);
+  const [showTimeTravel, setShowTimeTravel] = useState(false);
+  const allStakeholders = pastGraph?.stakeholders ?? liveStakeholders;
+  const relationships = pastGraph?.relationships ?? liveRelationships;
+  const memberList = pastGraph?.memberIds ?? liveMemberList;
+  const canEdit = useCanEdit() && !pastGraph;
+  const [selectedStakeholderId, setSelectedStakeholderId] = useState<string | null>(null);
   const [showAddRelationship, setShowAddRelationship] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [clustering, setClustering] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [editingRelId, setEditingRelId] = useState<string | null>(null);
+  const [deletedRelationshipId, setDeletedRelationshipId] = useState<string | null>(null);
   const [editRelType, setEditRelType] = useState<RelationType>('COLLABORATES_WITH');
   const [editRelStrength, setEditRelStrength] = useState(3);
   const [editRelNotes, setEditRelNotes] = useState('');
@@ -42,19 +99,67 @@ export function MapPage() {
   const [mapFilters, setMapFilters] = useState({ sentiments: [] as string[], seniorities: [] as string[], minInfluence: 0 });
   const [searchQuery, setSearchQuery] = useState('');
   const [showExportMenu, setShowExportMenu] = useState(false);
+  const [pdfProgress, setPdfProgress] = useState<number | null>(null);
   const [showLayoutMenu, setShowLayoutMenu] = useState(false);
   const [layouting, setLayouting] = useState(false);
+  // Progress of a layout being computed in the worker, 0 … 1
+  const [layoutProgress, setLayoutProgress] = useState<number | null>(null);
+  const cancelLayoutRef = useRef<(() => void) | null>(null);
   const [showPathFinder, setShowPathFinder] = useState(false);
-  const [pathFrom, setPathFrom] = useState('');
-  const [pathTo, setPathTo] = useState('');
-  const [pathNoResult, setPathNoResult] = useState(false);
+  const [highlightedPath, setHighlightedPath] = useState<FoundPath | null>(null);
   const [editRelDirectionality, setEditRelDirectionality] = useState('DIRECTED');
+  const [nodeSizing, setNodeSizing] = useState<NodeSizing>('influence');
+  const [nodeColoring, setNodeColoring] = useState<NodeColoring>('sentiment');
+  // Hulls outline detected communities instead of companies
+  const [showCommunities, setShowCommunities] = useState(false);
+  // Company whose org chart replaces the map, if any
+  const [orgCompanyId, setOrgCompanyId] = useState<string | null>(null);
+  // Insight that spotlights part of the graph
+  const [insight, setInsight] = useState<'influencers' | 'opponents' | 'whatif' | null>(null);
+  const [whatIfOverlay, setWhatIfOverlay] = useState<{ values: SentimentValues; seedIds: string[] } | null>(null);
+  const [influencerLimit, setInfluencerLimit] = useState(5);
+  const [opponentCompanyId, setOpponentCompanyId] = useState('');
+  const [opponentHops, setOpponentHops] = useState(2);
   const [editRelSentimentImpact, setEditRelSentimentImpact] = useState(0);
   const exportMenuRef = useRef<HTMLDivElement>(null);
   const layoutMenuRef = useRef<HTMLDivElement>(null);
   const graphRef = useRef<GraphCanvasHandle>(null);
   const navigate = useNavigate();
 
+  const layouts = effectiveLayouts(layoutSet);
+  const hasOwnLayout = Object.keys(layoutSet?.mine ?? {}).length > 0;
+  const layoutConflicts = layoutSave.conflicts.filter((c) => c.theirs.map_id === mapId);
+  const unsavedLayout = layoutSave.status !== 'saved';
+
+  // Stakeholders that belong to this map
+  const memberIds = useMemo(() => new Set(memberList ?? []), [memberList]);
+  const stakeholders = useMemo(
+    () => allStakeholders.filter((s) => memberIds.has(s.id)),
+    [allStakeholders, memberIds]
+  );
+
+  // Resolved from the store so edits made elsewhere show up in the panel
+  const selectedStakeholder = useMemo(
+    () => stakeholders.find((s) => s.id === selectedStakeholderId) ?? null,
+    [stakeholders, selectedStakeholderId]
+  );
+
+  // Stable so GraphCanvas does not rebuild when the page re-renders
+  const setSelectedStakeholder = useCallback((s: Stakeholder | null) => {
+    setSelectedStakeholderId(s?.id ?? null);
+  }, []);
+
+  const memberCandidates = useMemo(
+    () => allStakeholders
+      .map((s) => ({
+        id: s.id,
+        full_name: s.full_name,
+        company_name: (s as Stakeholder & { companies?: { name: string } }).companies?.name ?? '',
+      }))
+      .sort((a, b) => a.full_name.localeCompare(b.full_name)),
+    [allStakeholders]
+  );
+
   // Build company list with stakeholder counts for the filter
   const companyList = useMemo(() => {
     const map = new Map<string, { name: string; count: number }>();
@@ -141,6 +246,67 @@ export function MapPage() {
     setShowExportMenu(false);
   }
 
+  /** The map as drawn, titled with the map name and the filters that shaped it */
+  async function buildExportScene() {
+    const maps = await repo.maps.list();
+    const summary = [`Showing ${filteredStakeholders.length} of ${stakeholders.length} stakeholders`];
+    if (orgChart) {
+      summary.push(`Org chart: ${companies.find((c) => c.id === orgCompanyId)?.name ?? 'company'}`);
+    }
+    if (selectedCompanies.size > 0 && selectedCompanies.size < companyList.length) {
+      summary.push(`Companies: ${companyList.filter((c) => selectedCompanies.has(c.id)).map((c) => c.name).join(', ')}`);
+    }
+    if (mapFilters.sentiments.length > 0) {
+      summary.push(`Sentiment: ${mapFilters.sentiments.map((s) => s.charAt(0) + s.slice(1).toLowerCase()).join(', ')}`);
+    }
+    if (mapFilters.seniorities.length > 0) {
+      summary.push(`Seniority: ${mapFilters.seniorities.map((s) => SENIORITY_NAMES[s] ?? s).join(', ')}`);
+    }
+    if (mapFilters.minInfluence > 0) summary.push(`Influence ≥ ${mapFilters.minInfluence}`);
+    if (searchQuery.trim()) summary.push(`Search: “${searchQuery.trim()}”`);
+    summary.push(pastGraph
+      ? `As of ${new Date(pastGraph.at).toLocaleString()} · exported ${new Date().toLocaleDateString()}`
+      : `Exported ${new Date().toLocaleString()}`);
+    return graphRef.current?.exportScene({
+      title: maps.find((m) => m.id === mapId)?.name ?? 'Stakeholder map',
+      summary,
+      colorLabel: CENTRALITY_METRICS.find((m) => m.key === nodeColoring)?.label,
+      sizeLabel: sizeLegendLabel,
+    }) ?? null;
+  }
+
+  function download(blob: Blob, extension: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = `stakemap-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  async function exportSvg() {
+    setShowExportMenu(false);
+    try {
+      const scene = await buildExportScene();
+      if (scene) download(new Blob([sceneToSvg(scene)], { type: 'image/svg+xml' }), 'svg');
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to export SVG');
+    }
+  }
+
+  async function exportPdf() {
+    setShowExportMenu(false);
+    setPdfProgress(0);
+    try {
+      const scene = await buildExportScene();
+      if (scene) download(await sceneToPdf(scene, setPdfProgress), 'pdf');
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to export PDF');
+    } finally {
+      setPdfProgress(null);
+    }
+  }
+
   function exportCsvStakeholders() {
     exportStakeholdersCsv(filteredStakeholders as (Stakeholder & { companies?: { name: string } })[]);
     setShowExportMenu(false);
@@ -164,27 +330,74 @@ export function MapPage() {
     setLayouting(true);
     setShowLayoutMenu(false);
     try {
-      graphRef.current?.runLayout(name);
-      // onLayoutChange fires after layoutstop inside GraphCanvas; wait briefly then reload
-      await new Promise((r) => setTimeout(r, 1200));
-      await loadData();
+      await graphRef.current?.runLayout(name);
     } finally {
       setLayouting(false);
     }
   }
 
-  function findPath() {
-    if (!pathFrom || !pathTo) return;
-    setPathNoResult(false);
-    const found = graphRef.current?.highlightPath(pathFrom, pathTo);
-    if (found === false) setPathNoResult(true);
+  /**
+   * Computes a layout of the stakeholders in view in the layout worker, then animates the map
+   * to it and saves it to the user's layout. Cancelling leaves the map as it was.
+   */
+  async function arrange(kind: LayoutKind) {
+    if (filteredStakeholders.length === 0) return;
+    setLayouting(true);
+    setShowLayoutMenu(false);
+    setLayoutProgress(0);
+    const positions = Object.fromEntries(layouts.map((l) => [l.stakeholder_id, { x: l.x, y: l.y }]));
+    const job = startLayoutJob({ kind, stakeholders: filteredStakeholders, relationships, companies, positions }, setLayoutProgress);
+    cancelLayoutRef.current = job.cancel;
+    try {
+      const result = await job.result;
+      setLayoutProgress(null);
+      if (!result) return;
+      await graphRef.current?.applyPositions(result);
+      if (kind === 'community-clusters') setShowCommunities(true);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to arrange the map');
+    } finally {
+      cancelLayoutRef.current = null;
+      setLayoutProgress(null);
+      setLayouting(false);
+    }
   }
 
-  function clearPath() {
-    graphRef.current?.clearHighlight();
-    setPathNoResult(false);
-    setPathFrom('');
-    setPathTo('');
+  // A layout still computing when the page closes is abandoned
+  useEffect(() => () => cancelLayoutRef.current?.(), []);
+
+  // Queued positions are written in the background; warn before the tab closes on them
+  useEffect(() => {
+    if (!unsavedLayout) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [unsavedLayout]);
+
+  function openOrgChart() {
+    setShowLayoutMenu(false);
+    const filtered = selectedCompanies.size < companyList.length ? companyList.find((c) => selectedCompanies.has(c.id)) : undefined;
+    setOrgCompanyId(selectedStakeholder?.company_id ?? filtered?.id ?? companyList[0]?.id ?? null);
+  }
+
+  async function handlePublishLayout() {
+    setShowLayoutMenu(false);
+    if (!window.confirm('Replace the shared layout of this map with your layout? Everyone without their own layout will see it.')) return;
+    try {
+      await publishLayout(mapId);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to publish layout');
+    }
+  }
+
+  async function handleResetLayout() {
+    setShowLayoutMenu(false);
+    if (!window.confirm('Discard your layout of this map and use the shared layout?')) return;
+    try {
+      await resetLayout(mapId);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to reset layout');
+    }
   }
 
   const selectedRelationships = useMemo(() => {
@@ -209,15 +422,26 @@ export function MapPage() {
   async function deleteRelationship(id: string) {
     if (!window.confirm('Delete this relationship?')) return;
     try {
-      const { error } = await supabase.from('relationships').delete().eq('id', id);
-      if (error) throw error;
-      logAudit('relationship', id, 'delete');
-      await loadData();
+      await removeRelationship(id);
+      setDeletedRelationshipId(id);
     } catch (e) {
       console.error('Delete relationship failed:', e);
     }
   }
 
+  /** Bring the last deleted relationship back from its delete event. */
+  async function undoDeleteRelationship() {
+    if (!deletedRelationshipId) return;
+    try {
+      const [event] = await repo.audit.listForEntity('relationship', deletedRelationshipId, { limit: 1 });
+      if (event?.action !== 'delete') throw new Error('The deletion is no longer the latest change to this relationship');
+      await revertToEvent(event, { expectedUpdatedAt: null });
+      setDeletedRelationshipId(null);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to restore relationship');
+    }
+  }
+
   function startEditRelationship(r: Relationship) {
     setEditingRelId(r.id);
     setEditRelType(r.relation_type);
@@ -229,32 +453,36 @@ export function MapPage() {
 
   async function saveRelationship() {
     if (!editingRelId) return;
+    const rel = relationships.find((r) => r.id === editingRelId);
+    if (rel && editRelType === 'REPORTS_TO') {
+      const line = { id: rel.id, from: rel.from_stakeholder_id, to: rel.to_stakeholder_id };
+      const { errors, warnings } = checkReportingLine(line, liveStakeholders, relationships);
+      if (errors.length > 0) {
+        window.alert(errors.join('\n'));
+        return;
+      }
+      if (warnings.length > 0 && !window.confirm(`${warnings.join('\n')}\n\nSave this reporting line anyway?`)) return;
+    }
     try {
-      const { error } = await supabase.from('relationships').update({
+      await updateRelationship(editingRelId, {
         relation_type: editRelType,
         strength: editRelStrength,
         notes: editRelNotes || null,
         directionality: editRelDirectionality,
         sentiment_impact: editRelSentimentImpact,
-      }).eq('id', editingRelId);
-      if (error) throw error;
-      logAudit('relationship', editingRelId, 'update');
+      });
       setEditingRelId(null);
-      await loadData();
     } catch (e) {
       console.error('Update relationship failed:', e);
     }
   }
 
   async function deleteStakeholder(id: string) {
-    if (!window.confirm('Archive this stakeholder? They will be removed from the map.')) return;
+    if (!window.confirm(archiveConfirmText(useGraphStore.getState(), id))) return;
     setDeleting(true);
     try {
-      const { error } = await supabase.from('stakeholders').update({ status: 'archived' }).eq('id', id);
-      if (error) throw error;
-      logAudit('stakeholder', id, 'archive');
+      await setStakeholderStatus(id, 'archived');
       setSelectedStakeholder(null);
-      await loadData();
     } catch (e) {
       console.error('Delete failed:', e);
       window.alert('Failed to delete stakeholder.');
@@ -263,62 +491,29 @@ export function MapPage() {
     }
   }
 
-  async function clusterByCompany() {
-    if (stakeholders.length === 0) return;
-    setClustering(true);
+  async function addMembers(ids: string[]) {
     try {
-      const byCompany = new Map<string, (Stakeholder & { companies?: { name: string } })[]>();
-      for (const s of stakeholders) {
-        const key = s.company_id;
-        if (!byCompany.has(key)) byCompany.set(key, []);
-        byCompany.get(key)!.push(s as Stakeholder & { companies?: { name: string } });
-      }
-      const companies = Array.from(byCompany.keys());
-      const R = 350;
-      const clusterRadius = 80;
-      const layoutsToUpsert: { map_id: string; stakeholder_id: string; x: number; y: number }[] = [];
-      companies.forEach((_companyId, ci) => {
-        const cx = R * Math.cos((2 * Math.PI * ci) / Math.max(1, companies.length));
-        const cy = R * Math.sin((2 * Math.PI * ci) / Math.max(1, companies.length));
-        const members = byCompany.get(companies[ci])!;
-        members.forEach((s, mi) => {
-          const angle = (2 * Math.PI * mi) / Math.max(1, members.length);
-          const r = Math.min(clusterRadius * 0.6, 25 * members.length);
-          layoutsToUpsert.push({
-            map_id: DEFAULT_MAP_ID,
-            stakeholder_id: s.id,
-            x: cx + r * Math.cos(angle),
-            y: cy + r * Math.sin(angle),
-          });
-        });
-      });
-      const { error } = await supabase.from('map_layouts').upsert(layoutsToUpsert, {
-        onConflict: 'map_id,stakeholder_id',
-      });
-      if (error) throw error;
-      await loadData();
+      await addMapMembers(mapId, ids);
     } catch (e) {
-      console.error('Cluster failed:', e);
-    } finally {
-      setClustering(false);
+      window.alert(e instanceof Error ? e.message : 'Failed to add to map');
     }
   }
 
-  async function loadData() {
-    const [stakeholdersRes, relationshipsRes, layoutsRes] = await Promise.all([
-      supabase.from('stakeholders').select('*, companies(name)').eq('status', 'active'),
-      supabase.from('relationships').select('*'),
-      supabase.from('map_layouts').select('*').eq('map_id', DEFAULT_MAP_ID),
-    ]);
-    setStakeholders((stakeholdersRes.data as Stakeholder[]) || []);
-    setRelationships((relationshipsRes.data as Relationship[]) || []);
-    setLayouts((layoutsRes.data as MapLayout[]) || []);
-    setLoading(false);
+  async function removeMembers(ids: string[]) {
+    try {
+      await removeMapMembers(mapId, ids);
+      if (selectedStakeholder && ids.includes(selectedStakeholder.id)) setSelectedStakeholder(null);
+    } catch (e) {
+      window.alert(e instanceof Error ? e.message : 'Failed to remove from map');
+    }
   }
 
+  // Shared entities come from the store; only this map's members and layouts are fetched
   useEffect(() => {
-    loadData();
-  }, []);
+    loadMap(mapId)
+      .catch((e) => console.error('Failed to load map:', e))
+      .finally(() => setLoading(false));
+  }, [mapId, loadMap]);
 
   // Stats dashboard data
   const stats = useMemo(() => {
@@ -356,6 +551,75 @@ export function MapPage() {
     return { allies, opponents, neutral, unknown, total, avgInfluence, mostConnected, orphans };
   }, [stakeholders, relationships]);
 
+  // Centrality over the visible graph, for the Power Centers panel and metric sizing/colouring
+  const graph = useMemo(
+    () => buildGraph(filteredStakeholders.map((s) => s.id), relationships),
+    [filteredStakeholders, relationships]
+  );
+  const centrality = useMemo(() => computeCentrality(graph), [graph]);
+  // Org chart view: the chosen company's people only, laid out from their reporting lines
+  const orgChart = useMemo(
+    () => (orgCompanyId ? orgChartLayout(stakeholders, relationships, orgCompanyId) : null),
+    [orgCompanyId, stakeholders, relationships]
+  );
+  const orgStakeholders = useMemo(
+    () => (orgCompanyId ? stakeholders.filter((s) => s.company_id === orgCompanyId) : null),
+    [orgCompanyId, stakeholders]
+  );
+  const structuralHoles = useMemo(() => findStructuralHoles(graph, centrality), [graph, centrality]);
+  const communities = useMemo(() => (showCommunities ? detectCommunities(graph) : null), [graph, showCommunities]);
+  const sizeScores = useMemo(
+    () => (nodeSizing === 'influence' ? null : metricScores(centrality, nodeSizing)),
+    [centrality, nodeSizing]
+  );
+  const sizeLegendLabel = nodeSizing === 'influence' ? 'Influence' : CENTRALITY_METRICS.find((m) => m.key === nodeSizing)?.label ?? 'Score';
+  const colorScores = useMemo(
+    () => (nodeColoring === 'sentiment' ? null : metricScores(centrality, nodeColoring)),
+    [centrality, nodeColoring]
+  );
+
+  // Top influencers among the stakeholders in view
+  const influencerRanking = useMemo(
+    () => (insight === 'influencers' ? rankInfluencers(filteredStakeholders, centrality) : []),
+    [insight, filteredStakeholders, centrality]
+  );
+
+  // Opponents within reach of a key account
+  const connectedOpponents = useMemo(
+    () => (insight === 'opponents' && opponentCompanyId
+      ? opponentsNearCompany(graph, filteredStakeholders, opponentCompanyId, opponentHops)
+      : []),
+    [insight, graph, filteredStakeholders, opponentCompanyId, opponentHops]
+  );
+
+  // The found path or active insight lights its stakeholders (and paths); the rest of the graph is dimmed
+  const spotlight = useMemo(() => {
+    if (highlightedPath) {
+      return { nodeIds: highlightedPath.nodeIds, edgeIds: highlightedPath.edges.map((e) => e.id) };
+    }
+    if (insight === 'influencers') {
+      return { nodeIds: influencerRanking.slice(0, influencerLimit).map((r) => r.stakeholder.id) };
+    }
+    if (insight === 'opponents' && opponentCompanyId) {
+      const nodeIds = filteredStakeholders.filter((s) => s.company_id === opponentCompanyId).map((s) => s.id);
+      const edgeIds: string[] = [];
+      for (const o of connectedOpponents) {
+        nodeIds.push(o.stakeholder.id);
+        for (const step of o.steps) {
+          nodeIds.push(step.id);
+          edgeIds.push(step.edge.id);
+        }
+      }
+      return { nodeIds, edgeIds };
+    }
+    return null;
+  }, [highlightedPath, insight, influencerRanking, influencerLimit, opponentCompanyId, filteredStakeholders, connectedOpponents]);
+
+  function toggleInsight(next: 'influencers' | 'opponents' | 'whatif') {
+    setInsight((current) => (current === next ? null : next));
+    setShowPathFinder(false);
+  }
+
   // Context menu handler
   function handleContextAction(action: string, target: { stakeholder?: Stakeholder; edgeId?: string }) {
     if (action === 'edit' && target.stakeholder) {
@@ -365,6 +629,8 @@ export function MapPage() {
       setShowAddRelationship(true);
     } else if (action === 'focus' && target.stakeholder) {
       setSelectedStakeholder(target.stakeholder);
+    } else if (action === 'remove-from-map' && target.stakeholder) {
+      removeMembers([target.stakeholder.id]);
     } else if (action === 'archive' && target.stakeholder) {
       deleteStakeholder(target.stakeholder.id);
     } else if (action === 'edit-edge' && target.edgeId) {
@@ -413,22 +679,31 @@ export function MapPage() {
             <CompanyFilter companies={companyList} selected={selectedCompanies} onChange={setSelectedCompanies} />
           )}
           <MapFilters filters={mapFilters} onChange={setMapFilters} />
+          {/* Everyone is on the default map, so its members aren't picked */}
+          {canEdit && mapId !== DEFAULT_MAP_ID && (
+            <MapMembersPicker
+              candidates={memberCandidates}
+              members={memberIds}
+              onAdd={addMembers}
+              onRemove={removeMembers}
+            />
+          )}
 
           {/* --- Divider --- */}
           <span className="h-5 w-px shrink-0 bg-gray-200" />
 
           {/* --- Action group --- */}
-          {/* Arrange dropdown (includes Cluster by Company) */}
+          {/* Arrange dropdown (includes Cluster by Company/Community); positions are saved to the user's own layout */}
           <div ref={layoutMenuRef} className="relative">
             <button
               onClick={() => setShowLayoutMenu((v) => !v)}
-              disabled={(layouting || clustering) || stakeholders.length === 0}
+              disabled={layouting || stakeholders.length === 0 || !!pastGraph || !!orgChart}
               className="flex items-center gap-1.5 rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-600 shadow-sm transition hover:bg-gray-50 disabled:opacity-50"
             >
               <svg className="h-3.5 w-3.5 text-slate-400" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 6A2.25 2.25 0 016 3.75h2.25A2.25 2.25 0 0110.5 6v2.25a2.25 2.25 0 01-2.25 2.25H6a2.25 2.25 0 01-2.25-2.25V6zM3.75 15.75A2.25 2.25 0 016 13.5h2.25a2.25 2.25 0 012.25 2.25V18a2.25 2.25 0 01-2.25 2.25H6A2.25 2.25 0 013.75 18v-2.25zM13.5 6a2.25 2.25 0 012.25-2.25H18A2.25 2.25 0 0120.25 6v2.25A2.25 2.25 0 0118 10.5h-2.25a2.25 2.25 0 01-2.25-2.25V6zM13.5 15.75a2.25 2.25 0 012.25-2.25H18a2.25 2.25 0 012.25 2.25V18A2.25 2.25 0 0118 20.25h-2.25A2.25 2.25 0 0113.5 18v-2.25z" />
               </svg>
-              {layouting ? 'Arranging…' : clustering ? 'Clustering…' : 'Arrange'}
+              {layoutProgress !== null ? `Arranging… ${Math.round(layoutProgress * 100)}%` : layouting ? 'Arranging…' : 'Arrange'}
               <svg className="h-3 w-3 text-slate-400" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
               </svg>
@@ -436,19 +711,50 @@ export function MapPage() {
             {showLayoutMenu && (
               <div className="absolute left-0 top-full z-50 mt-1.5 w-48 rounded-xl border border-gray-200 bg-white py-1 shadow-lg fade-in">
                 <p className="px-3 py-1 text-[10px] font-semibold uppercase tracking-wider text-slate-400">Auto-layout</p>
-                <button onClick={() => runLayout('cose')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">Force-directed</button>
-                <button onClick={() => runLayout('breadthfirst')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">Org Hierarchy</button>
+                <button onClick={() => arrange('force')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">Force-directed</button>
+                <button onClick={() => arrange('hierarchy')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">Hierarchy (reporting lines)</button>
+                <button onClick={openOrgChart} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">Org Hierarchy…</button>
                 <button onClick={() => runLayout('circle')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">Circle</button>
+                <button onClick={() => arrange('hybrid')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">Hybrid (company clusters)</button>
                 <div className="my-1 border-t border-gray-100" />
                 <p className="px-3 py-1 text-[10px] font-semibold uppercase tracking-wider text-slate-400">Group</p>
-                <button onClick={clusterByCompany} disabled={clustering} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50 disabled:opacity-50">Cluster by Company</button>
+                <button onClick={() => arrange('company-clusters')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">Cluster by Company</button>
+                <button onClick={() => arrange('community-clusters')} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">Cluster by Community</button>
+                <button onClick={() => setShowCommunities((v) => !v)} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50">{showCommunities ? 'Outline companies' : 'Outline communities'}</button>
+                <div className="my-1 border-t border-gray-100" />
+                <p className="px-3 py-1 text-[10px] font-semibold uppercase tracking-wider text-slate-400">Saved layout</p>
+                <p className="px-3 pb-1 text-[11px] text-slate-500">{hasOwnLayout ? 'Showing your layout' : 'Showing the shared layout'}</p>
+                {canEdit && (
+                  <button onClick={handlePublishLayout} disabled={!hasOwnLayout} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50 disabled:opacity-50">Publish as shared layout</button>
+                )}
+                <button onClick={handleResetLayout} disabled={!hasOwnLayout} className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-slate-700 hover:bg-gray-50 disabled:opacity-50">Reset to shared layout</button>
               </div>
             )}
           </div>
 
+          {layoutProgress !== null && (
+            <button
+              onClick={() => cancelLayoutRef.current?.()}
+              className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-600 shadow-sm transition hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          )}
+
+          {/* Layout save status */}
+          <span
+            title={layoutSave.error ?? undefined}
+            className={`shrink-0 text-[11px] ${layoutSave.status === 'failed' ? 'text-red-600' : layoutSave.status === 'retrying' ? 'text-amber-600' : 'text-slate-400'}`}
+          >
+            {LAYOUT_SAVE_LABELS[layoutSave.status]}
+          </span>
+          {layoutSave.status === 'failed' && (
+            <button onClick={() => flushLayouts()} className="shrink-0 text-[11px] font-medium text-emerald-600 hover:text-emerald-700">Retry</button>
+          )}
+
           {/* Find Path toggle */}
           <button
-            onClick={() => { setShowPathFinder((v) => !v); if (showPathFinder) clearPath(); }}
+            onClick={() => { setShowPathFinder((v) => !v); setInsight(null); }}
             disabled={stakeholders.length === 0}
             className={`flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-medium shadow-sm transition disabled:opacity-50 ${showPathFinder ? 'border-emerald-400 bg-emerald-50 text-emerald-700' : 'border-gray-200 bg-white text-slate-600 hover:bg-gray-50'}`}
           >
@@ -458,17 +764,64 @@ export function MapPage() {
             Find Path
           </button>
 
+          {/* Top influencers toggle */}
+          <button
+            onClick={() => toggleInsight('influencers')}
+            disabled={filteredStakeholders.length === 0}
+            className={`flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-medium shadow-sm transition disabled:opacity-50 ${insight === 'influencers' ? 'border-amber-400 bg-amber-50 text-amber-700' : 'border-gray-200 bg-white text-slate-600 hover:bg-gray-50'}`}
+          >
+            <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.499a.562.562 0 011.04 0l2.125 5.111a.563.563 0 00.475.345l5.518.442c.499.04.701.663.321.988l-4.204 3.602a.563.563 0 00-.182.557l1.285 5.385a.562.562 0 01-.84.61l-4.725-2.885a.563.563 0 00-.586 0L6.982 20.54a.562.562 0 01-.84-.61l1.285-5.386a.562.562 0 00-.182-.557l-4.204-3.602a.563.563 0 01.321-.988l5.518-.442a.563.563 0 00.475-.345L11.48 3.5z" />
+            </svg>
+            Top Influencers
+          </button>
+
+          {/* Opponents near an account toggle */}
+          <button
+            onClick={() => toggleInsight('opponents')}
+            disabled={filteredStakeholders.length === 0}
+            className={`flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-medium shadow-sm transition disabled:opacity-50 ${insight === 'opponents' ? 'border-red-400 bg-red-50 text-red-700' : 'border-gray-200 bg-white text-slate-600 hover:bg-gray-50'}`}
+          >
+            <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z" />
+            </svg>
+            Opponents
+          </button>
+
+          {/* Influence what-if toggle */}
+          <button
+            onClick={() => toggleInsight('whatif')}
+            disabled={filteredStakeholders.length === 0}
+            className={`flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-medium shadow-sm transition disabled:opacity-50 ${insight === 'whatif' ? 'border-amber-400 bg-amber-50 text-amber-700' : 'border-gray-200 bg-white text-slate-600 hover:bg-gray-50'}`}
+          >
+            <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 13.5l10.5-11.25L12 10.5h8.25L9.75 21.75 12 13.5H3.75z" />
+            </svg>
+            What-if
+          </button>
+
+          {/* Time travel toggle */}
+          <button
+            onClick={() => setShowTimeTravel((v) => !v)}
+            className={`flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-medium shadow-sm transition ${showTimeTravel ? 'border-violet-400 bg-violet-50 text-violet-700' : 'border-gray-200 bg-white text-slate-600 hover:bg-gray-50'}`}
+          >
+            <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            History
+          </button>
+
           {/* Export dropdown */}
           <div ref={exportMenuRef} className="relative ml-auto">
             <button
               onClick={() => setShowExportMenu((v) => !v)}
-              disabled={stakeholders.length === 0}
+              disabled={stakeholders.length === 0 || pdfProgress !== null}
               className="flex items-center gap-1.5 rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-600 shadow-sm transition hover:bg-gray-50 disabled:opacity-50"
             >
               <svg className="h-3.5 w-3.5 text-slate-400" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
               </svg>
-              Export
+              {pdfProgress !== null ? `Exporting PDF ${Math.round(pdfProgress * 100)}%` : 'Export'}
               <svg className="h-3 w-3 text-slate-400" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
               </svg>
@@ -478,6 +831,12 @@ export function MapPage() {
                 <button onClick={exportPng} className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs text-slate-700 hover:bg-gray-50">
                   <span className="w-8 rounded bg-gray-100 px-1 py-0.5 text-center font-mono text-[10px] text-slate-500">PNG</span> Map snapshot
                 </button>
+                <button onClick={exportSvg} className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs text-slate-700 hover:bg-gray-50">
+                  <span className="w-8 rounded bg-gray-100 px-1 py-0.5 text-center font-mono text-[10px] text-slate-500">SVG</span> Vector map
+                </button>
+                <button onClick={exportPdf} className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs text-slate-700 hover:bg-gray-50">
+                  <span className="w-8 rounded bg-gray-100 px-1 py-0.5 text-center font-mono text-[10px] text-slate-500">PDF</span> Print (A4, paginated)
+                </button>
                 <button onClick={exportCsvStakeholders} className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs text-slate-700 hover:bg-gray-50">
                   <span className="w-8 rounded bg-gray-100 px-1 py-0.5 text-center font-mono text-[10px] text-slate-500">CSV</span> Stakeholders
                 </button>
@@ -488,44 +847,95 @@ export function MapPage() {
             )}
           </div>
         </div>
-        {/* Path finder panel */}
-        {showPathFinder && (
-          <div className="mb-3 flex flex-wrap items-center gap-2 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 fade-in">
-            <span className="text-xs font-medium text-emerald-700">Find path from</span>
-            <select
-              value={pathFrom}
-              onChange={(e) => { setPathFrom(e.target.value); setPathNoResult(false); }}
-              className="rounded border border-gray-200 bg-white px-2 py-1 text-xs text-slate-700 focus:outline-none focus:ring-1 focus:ring-emerald-400"
-            >
-              <option value="">Select stakeholder…</option>
-              {filteredStakeholders.map((s) => <option key={s.id} value={s.id}>{s.full_name}</option>)}
-            </select>
-            <span className="text-xs font-medium text-emerald-700">to</span>
+        {showTimeTravel && (
+          <TimeTravelBar mapId={mapId} onChange={setPastGraph} onClose={() => setShowTimeTravel(false)} />
+        )}
+        {orgChart && (
+          <div className="mb-3 flex flex-wrap items-center gap-2 rounded-lg border border-sky-200 bg-sky-50 px-3 py-2 fade-in">
+            <span className="text-xs font-medium text-sky-800">Org chart of</span>
             <select
-              value={pathTo}
-              onChange={(e) => { setPathTo(e.target.value); setPathNoResult(false); }}
-              className="rounded border border-gray-200 bg-white px-2 py-1 text-xs text-slate-700 focus:outline-none focus:ring-1 focus:ring-emerald-400"
+              value={orgChart.companyId}
+              onChange={(e) => setOrgCompanyId(e.target.value)}
+              className="rounded border border-sky-200 bg-white px-2 py-1 text-xs text-slate-700"
             >
-              <option value="">Select stakeholder…</option>
-              {filteredStakeholders.filter((s) => s.id !== pathFrom).map((s) => <option key={s.id} value={s.id}>{s.full_name}</option>)}
+              {companyList.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
             </select>
-            <button onClick={findPath} disabled={!pathFrom || !pathTo} className="btn-primary py-1 text-xs disabled:opacity-50">Highlight</button>
-            <button onClick={clearPath} className="btn-secondary py-1 text-xs">Clear</button>
-            {pathNoResult && <span className="text-xs text-red-500">No path found between these stakeholders.</span>}
+            <span className="text-xs text-sky-700">
+              {orgChart.unattached.length > 0 && `${orgChart.unattached.length} without a reporting line (left lane) · `}
+              Click a company on the right to open its chart
+            </span>
+            <button onClick={() => setOrgCompanyId(null)} className="ml-auto text-xs font-medium text-sky-700 hover:text-sky-900">Back to map</button>
+          </div>
+        )}
+        {/* What-if panel */}
+        {insight === 'whatif' && (
+          <WhatIfPanel graph={graph} stakeholders={filteredStakeholders} onOverlay={setWhatIfOverlay} onSelect={setSelectedStakeholder} />
+        )}
+        {/* Path finder panel */}
+        {showPathFinder && (
+          <PathFinderPanel graph={graph} stakeholders={filteredStakeholders} onHighlight={setHighlightedPath} />
+        )}
+        {deletedRelationshipId && (
+          <div className="mb-3 flex items-center gap-3 rounded-lg border border-gray-200 bg-white px-3 py-2 text-xs text-slate-600 shadow-sm fade-in">
+            <span>Relationship deleted.</span>
+            <button onClick={undoDeleteRelationship} className="font-medium text-emerald-600 hover:text-emerald-700">Undo</button>
+            <button onClick={() => setDeletedRelationshipId(null)} className="ml-auto text-slate-400 hover:text-slate-600">Dismiss</button>
+          </div>
+        )}
+        {layoutConflicts.length > 0 && (
+          <div className="mb-3 flex items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 shadow-sm fade-in">
+            <span>
+              {layoutConflicts.length} position{layoutConflicts.length > 1 ? 's you moved were' : ' you moved was'} changed since you loaded the map, in another tab or by a newly published shared layout.
+            </span>
+            <button onClick={() => resolveLayoutConflicts('mine')} className="ml-auto font-medium text-amber-900 hover:text-amber-950">Keep mine</button>
+            <button onClick={() => resolveLayoutConflicts('theirs')} className="font-medium text-amber-900 hover:text-amber-950">Use saved</button>
           </div>
         )}
         <GraphCanvas
           ref={graphRef}
-          stakeholders={filteredStakeholders}
+          mapId={mapId}
+          stakeholders={orgStakeholders ?? filteredStakeholders}
           relationships={relationships}
           layouts={layouts}
           onNodeClick={setSelectedStakeholder}
-          onLayoutChange={loadData}
           onContextAction={handleContextAction}
+          readOnly={!canEdit}
+          locked={!!pastGraph}
+          sizeScores={sizeScores}
+          colorScores={colorScores}
+          spotlight={spotlight}
+          sentimentOverlay={whatIfOverlay}
+          communities={communities?.byId ?? null}
+          orgChart={orgChart}
+          onCompanyStubClick={setOrgCompanyId}
         />
       </div>
 
       <aside className="w-80 shrink-0 space-y-4">
+        {insight === 'influencers' && !selectedStakeholder && !showAddRelationship && (
+          <TopInfluencersPanel
+            ranking={influencerRanking}
+            limit={influencerLimit}
+            onLimitChange={setInfluencerLimit}
+            onSelect={setSelectedStakeholder}
+            onClose={() => setInsight(null)}
+          />
+        )}
+
+        {insight === 'opponents' && !selectedStakeholder && !showAddRelationship && (
+          <OpponentsPanel
+            companies={companyList}
+            stakeholders={filteredStakeholders}
+            companyId={opponentCompanyId}
+            hops={opponentHops}
+            opponents={connectedOpponents}
+            onCompanyChange={setOpponentCompanyId}
+            onHopsChange={setOpponentHops}
+            onSelect={setSelectedStakeholder}
+            onClose={() => setInsight(null)}
+          />
+        )}
+
         {/* Stats dashboard (when nothing selected) */}
         {!selectedStakeholder && !showAddRelationship && stakeholders.length > 0 && (
           <div className="glass-card-solid divide-y divide-gray-100 fade-in">
@@ -621,6 +1031,79 @@ export function MapPage() {
               </div>
             )}
 
+            {/* Brokers across structural holes */}
+            {structuralHoles.brokers.length > 0 && (
+              <div className="p-5">
+                <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-indigo-500">Brokers</p>
+                <p className="mb-2 text-xs text-slate-500">Bridge groups that otherwise barely talk (high betweenness, low constraint):</p>
+                <div className="flex flex-wrap gap-1">
+                  {structuralHoles.brokers.slice(0, 5).map((b) => {
+                    const s = filteredStakeholders.find((x) => x.id === b.id)!;
+                    return (
+                      <button
+                        key={b.id}
+                        onClick={() => setSelectedStakeholder(s)}
+                        title={`Betweenness ${b.betweenness.toFixed(2)} · constraint ${b.constraint.toFixed(2)}`}
+                        className="rounded-full bg-indigo-50 px-2 py-0.5 text-xs font-medium text-indigo-700 transition-colors hover:bg-indigo-100"
+                      >
+                        {s.full_name}
+                      </button>
+                    );
+                  })}
+                  {structuralHoles.brokers.length > 5 && (
+                    <span className="px-1 py-0.5 text-xs text-slate-400">+{structuralHoles.brokers.length - 5} more</span>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Single points of failure */}
+            {(structuralHoles.articulationPoints.length > 0 || structuralHoles.bridges.length > 0) && (
+              <div className="p-5">
+                <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-red-500">Single Points of Failure</p>
+                {structuralHoles.articulationPoints.length > 0 && (
+                  <>
+                    <p className="mb-2 text-xs text-slate-500">{structuralHoles.articulationPoints.length} stakeholder{structuralHoles.articulationPoints.length > 1 ? 's' : ''} whose absence would split the network:</p>
+                    <div className="mb-2 flex flex-wrap gap-1">
+                      {structuralHoles.articulationPoints.slice(0, 5).map((id) => {
+                        const s = filteredStakeholders.find((x) => x.id === id)!;
+                        return (
+                          <button
+                            key={id}
+                            onClick={() => setSelectedStakeholder(s)}
+                            className="rounded-full bg-red-50 px-2 py-0.5 text-xs font-medium text-red-700 transition-colors hover:bg-red-100"
+                          >
+                            {s.full_name}
+                          </button>
+                        );
+                      })}
+                      {structuralHoles.articulationPoints.length > 5 && (
+                        <span className="px-1 py-0.5 text-xs text-slate-400">+{structuralHoles.articulationPoints.length - 5} more</span>
+                      )}
+                    </div>
+                  </>
+                )}
+                {structuralHoles.bridges.length > 0 && (
+                  <>
+                    <p className="mb-1 text-xs text-slate-500">{structuralHoles.bridges.length} relationship{structuralHoles.bridges.length > 1 ? 's are' : ' is'} the only link between two parts:</p>
+                    <ul className="space-y-0.5">
+                      {structuralHoles.bridges.slice(0, 5).map((edge) => (
+                        <li key={edge.id} className="text-xs text-slate-600">
+                          {filteredStakeholders.find((x) => x.id === edge.from)?.full_name}
+                          <span className="mx-1 text-slate-400">–</span>
+                          {filteredStakeholders.find((x) => x.id === edge.to)?.full_name}
+                          <span className="ml-1 text-[10px] text-slate-400">{edge.type.replace(/_/g, ' ')}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    {structuralHoles.bridges.length > 5 && (
+                      <p className="mt-0.5 text-xs text-slate-400">+{structuralHoles.bridges.length - 5} more</p>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Tip */}
             <div className="p-4 text-center">
               <p className="text-xs text-slate-400">Click a node to view details · Right-click for quick actions · <kbd className="rounded bg-gray-100 px-1 text-[10px] font-medium text-slate-500">Shift</kbd> + drag canvas to multi-select, then drag any selected node to move them all</p>
@@ -628,6 +1111,18 @@ export function MapPage() {
           </div>
         )}
 
+        {!selectedStakeholder && !showAddRelationship && filteredStakeholders.length > 0 && (
+          <PowerCentersPanel
+            stakeholders={filteredStakeholders}
+            centrality={centrality}
+            sizing={nodeSizing}
+            coloring={nodeColoring}
+            onSizingChange={setNodeSizing}
+            onColoringChange={setNodeColoring}
+            onSelect={setSelectedStakeholder}
+          />
+        )}
+
         {/* Empty data state */}
         {!selectedStakeholder && !showAddRelationship && stakeholders.length === 0 && !loading && (
           <div className="glass-card-solid p-6 text-center fade-in">
@@ -636,8 +1131,12 @@ export function MapPage() {
                 <path strokeLinecap="round" strokeLinejoin="round" d="M18 18.72a9.094 9.094 0 003.741-.479 3 3 0 00-4.682-2.72m.94 3.198l.001.031c0 .225-.012.447-.037.666A11.944 11.944 0 0112 21c-2.17 0-4.207-.576-5.963-1.584A6.062 6.062 0 016 18.719m12 0a5.971 5.971 0 00-.941-3.197m0 0A5.995 5.995 0 0012 12.75a5.995 5.995 0 00-5.058 2.772m0 0a3 3 0 00-4.681 2.72 8.986 8.986 0 003.74.477m.94-3.197a5.971 5.971 0 00-.94 3.197M15 6.75a3 3 0 11-6 0 3 3 0 016 0zm6 3a2.25 2.25 0 11-4.5 0 2.25 2.25 0 014.5 0zm-13.5 0a2.25 2.25 0 11-4.5 0 2.25 2.25 0 014.5 0z" />
               </svg>
             </div>
-            <p className="text-sm font-medium text-slate-700">No stakeholders yet</p>
-            <p className="mt-1 text-xs text-slate-500">Add companies and stakeholders first.</p>
+            <p className="text-sm font-medium text-slate-700">No stakeholders on this map</p>
+            <p className="mt-1 text-xs text-slate-500">
+              {allStakeholders.length === 0
+                ? 'Add companies and stakeholders first.'
+                : 'Use "On map" in the toolbar to add stakeholders.'}
+            </p>
           </div>
         )}
 
@@ -658,7 +1157,6 @@ export function MapPage() {
             <AddRelationshipForm
               fromStakeholderId={selectedStakeholder?.id}
               onAdded={() => {
-                loadData();
                 setShowAddRelationship(false);
               }}
             />
@@ -737,21 +1235,25 @@ export function MapPage() {
                   to={`/stakeholders/${selectedStakeholder.id}/edit`}
                   className="btn-secondary py-1.5 text-xs"
                 >
-                  Edit
+                  {canEdit ? 'Edit' : 'View'}
                 </Link>
-                <button
-                  onClick={() => setShowAddRelationship(true)}
-                  className="btn-secondary py-1.5 text-xs"
-                >
-                  Add Relationship
-                </button>
-                <button
-                  onClick={() => deleteStakeholder(selectedStakeholder.id)}
-                  disabled={deleting}
-                  className="btn-danger py-1.5 text-xs disabled:opacity-50"
-                >
-                  {deleting ? 'Archiving...' : 'Archive'}
-                </button>
+                {canEdit && (
+                  <>
+                    <button
+                      onClick={() => setShowAddRelationship(true)}
+                      className="btn-secondary py-1.5 text-xs"
+                    >
+                      Add Relationship
+                    </button>
+                    <button
+                      onClick={() => deleteStakeholder(selectedStakeholder.id)}
+                      disabled={deleting}
+                      className="btn-danger py-1.5 text-xs disabled:opacity-50"
+                    >
+                      {deleting ? 'Archiving...' : 'Archive'}
+                    </button>
+                  </>
+                )}
               </div>
             </div>
 
@@ -777,28 +1279,32 @@ export function MapPage() {
                           <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-slate-500">
                             {r.relation_type.replace(/_/g, ' ')}
                           </span>
-                          <button
-                            onClick={() => isEditing ? setEditingRelId(null) : startEditRelationship(r)}
-                            className="flex h-5 w-5 items-center justify-center rounded text-slate-300 hover:bg-gray-200 hover:text-slate-600"
-                            title={isEditing ? 'Cancel' : 'Edit'}
-                          >
-                            <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
-                              {isEditing ? (
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                              ) : (
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L6.832 19.82a4.5 4.5 0 01-1.897 1.13l-2.685.8.8-2.685a4.5 4.5 0 011.13-1.897L16.863 4.487z" />
-                              )}
-                            </svg>
-                          </button>
-                          <button
-                            onClick={() => deleteRelationship(r.id)}
-                            className="flex h-5 w-5 items-center justify-center rounded text-slate-300 hover:bg-red-50 hover:text-red-500"
-                            title="Delete"
-                          >
-                            <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
-                            </svg>
-                          </button>
+                          {canEdit && (
+                            <>
+                              <button
+                                onClick={() => isEditing ? setEditingRelId(null) : startEditRelationship(r)}
+                                className="flex h-5 w-5 items-center justify-center rounded text-slate-300 hover:bg-gray-200 hover:text-slate-600"
+                                title={isEditing ? 'Cancel' : 'Edit'}
+                              >
+                                <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+                                  {isEditing ? (
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                                  ) : (
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L6.832 19.82a4.5 4.5 0 01-1.897 1.13l-2.685.8.8-2.685a4.5 4.5 0 011.13-1.897L16.863 4.487z" />
+                                  )}
+                                </svg>
+                              </button>
+                              <button
+                                onClick={() => deleteRelationship(r.id)}
+                                className="flex h-5 w-5 items-center justify-center rounded text-slate-300 hover:bg-red-50 hover:text-red-500"
+                                title="Delete"
+                              >
+                                <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+                                </svg>
+                              </button>
+                            </>
+                          )}
                         </div>
                         {/* Inline edit form */}
                         {isEditing && (
@@ -866,6 +1372,7 @@ export function MapPage() {
                             <button onClick={saveRelationship} className="btn-primary w-full py-1 text-xs">
                               Save Changes
                             </button>
+                            <EntityHistory entityType="relationship" entityId={r.id} />
                           </div>
                         )}
                       </li>
@@ -915,28 +1422,36 @@ export function MapPage() {
         <div className="glass-card-solid p-4">
           <p className="mb-3 text-xs font-semibold uppercase tracking-wider text-slate-400">Legend</p>
 
-          {/* Sentiment colors */}
-          <div className="mb-3">
-            <p className="mb-1.5 text-xs font-medium text-slate-500">Sentiment (node color)</p>
-            <div className="grid grid-cols-2 gap-1.5">
-              <div className="flex items-center gap-2">
-                <span className="h-3 w-3 rounded-full bg-[#059669]" />
-                <span className="text-xs text-slate-600">Ally</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <span className="h-3 w-3 rounded-full bg-[#dc2626]" />
-                <span className="text-xs text-slate-600">Opponent</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <span className="h-3 w-3 rounded-full bg-[#64748b]" />
-                <span className="text-xs text-slate-600">Neutral</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <span className="h-3 w-3 rounded-full bg-[#d97706]" />
-                <span className="text-xs text-slate-600">Unknown</span>
+          {/* Sentiment colors, or the metric ramp */}
+          {nodeColoring !== 'sentiment' ? (
+            <div className="mb-3">
+              <p className="mb-1.5 text-xs font-medium text-slate-500">{CENTRALITY_METRICS.find((m) => m.key === nodeColoring)?.label} (node color)</p>
+              <div className="h-2 rounded-full bg-gradient-to-r from-[rgb(224,231,255)] to-[rgb(55,48,163)]" />
+              <div className="mt-1 flex justify-between text-[10px] text-slate-400"><span>Low</span><span>High</span></div>
+            </div>
+          ) : (
+            <div className="mb-3">
+              <p className="mb-1.5 text-xs font-medium text-slate-500">Sentiment (node color)</p>
+              <div className="grid grid-cols-2 gap-1.5">
+                <div className="flex items-center gap-2">
+                  <span className="h-3 w-3 rounded-full bg-[#059669]" />
+                  <span className="text-xs text-slate-600">Ally</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="h-3 w-3 rounded-full bg-[#dc2626]" />
+                  <span className="text-xs text-slate-600">Opponent</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="h-3 w-3 rounded-full bg-[#64748b]" />
+                  <span className="text-xs text-slate-600">Neutral</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="h-3 w-3 rounded-full bg-[#d97706]" />
+                  <span className="text-xs text-slate-600">Unknown</span>
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Seniority shapes */}
           <div className="mb-3">
@@ -1016,12 +1531,20 @@ export function MapPage() {
                 <span className="h-3 w-3 rounded-full border-[3px] border-blue-500 bg-transparent" />
                 <span className="text-xs text-slate-600">Border = company</span>
               </div>
+              <div className="flex items-center gap-2">
+                <span className="h-3 w-3 rounded-full border border-dashed border-slate-400 bg-slate-100" />
+                <span className="text-xs text-slate-600">
+                  {communities
+                    ? `Outline = community (${communities.groups.filter((g) => g.length > 1).length} found, modularity ${communities.modularity.toFixed(2)})`
+                    : 'Outline = company'}
+                </span>
+              </div>
               <div className="flex items-center gap-2">
                 <div className="flex items-end gap-0.5">
                   <span className="h-2 w-2 rounded-full bg-slate-400" />
                   <span className="h-3.5 w-3.5 rounded-full bg-slate-400" />
                 </div>
-                <span className="text-xs text-slate-600">Size = influence</span>
+                <span className="text-xs text-slate-600">Size = {nodeSizing === 'influence' ? 'influence' : sizeLegendLabel}</span>
               </div>
               <div className="flex items-center gap-2">
                 <span className="inline-block h-0.5 w-3.5 bg-slate-300" />
@@ -0,0 +1,78 @@
+import { useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { selectActiveStakeholders, selectRelationships, useGraphStore, useLiveGraph } from '../../store/graphStore';
+import { REPORTING_ISSUE_KINDS, findReportingIssues } from '../../lib/graph';
+
+/** Data quality report: reporting lines that can't be right, or probably aren't. */
+export function DataQuality() {
+  const stakeholders = useGraphStore(selectActiveStakeholders);
+  const relationships = useGraphStore(selectRelationships);
+  const status = useGraphStore((s) => s.status);
+  const error = useGraphStore((s) => s.error);
+  const load = useGraphStore((s) => s.load);
+  useLiveGraph();
+  const loading = status === 'idle' || status === 'loading';
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const issues = useMemo(() => findReportingIssues(stakeholders, relationships), [stakeholders, relationships]);
+  const byId = new Map(stakeholders.map((s) => [s.id, s]));
+
+  if (loading) return <div className="text-slate-500">Loading data quality report...</div>;
+  if (error) return <div className="text-red-600">{error}</div>;
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-slate-900">Data Quality</h1>
+        <p className="mt-1 text-sm text-slate-500">
+          Reports To lines that form loops, give someone several managers, cross companies or run from senior to junior.
+        </p>
+      </div>
+
+      {issues.length === 0 && (
+        <p className="mt-6 text-center text-slate-500">No reporting-line problems found.</p>
+      )}
+
+      <div className="space-y-4">
+        {REPORTING_ISSUE_KINDS.map(({ kind, label, description }) => {
+          const ofKind = issues.filter((i) => i.kind === kind);
+          if (ofKind.length === 0) return null;
+          return (
+            <section key={kind} className="glass-card-solid p-5 fade-in">
+              <div className="mb-3 flex items-baseline justify-between">
+                <div>
+                  <h2 className="text-sm font-semibold text-slate-900">{label}</h2>
+                  <p className="text-xs text-slate-500">{description}</p>
+                </div>
+                <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${kind === 'cycle' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'}`}>
+                  {ofKind.length}
+                </span>
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {ofKind.map((issue) => (
+                  <li key={issue.relationshipIds.join(',')} className="flex items-center gap-3 py-2">
+                    <span className="flex-1 text-sm text-slate-700">{issue.message}</span>
+                    <span className="flex flex-wrap justify-end gap-1">
+                      {[...new Set(issue.stakeholderIds)].map((id) => (
+                        <Link
+                          key={id}
+                          to={`/stakeholders/${id}/edit`}
+                          className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-slate-600 transition-colors hover:bg-gray-200"
+                        >
+                          {byId.get(id)?.full_name ?? 'Unknown'}
+                        </Link>
+                      ))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
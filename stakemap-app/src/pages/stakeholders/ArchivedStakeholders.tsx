@@ -1,8 +1,7 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { supabase } from '../../lib/supabase';
-import { logAudit } from '../../lib/audit';
-import type { Stakeholder } from '../../types/database';
+import { selectArchivedStakeholders, useGraphStore, useLiveGraph } from '../../store/graphStore';
+import { useCanEdit } from '../../store/authStore';
 
 const SENTIMENT_BADGE: Record<string, string> = {
   ALLY: 'badge badge-ally',
@@ -12,39 +11,25 @@ const SENTIMENT_BADGE: Record<string, string> = {
 };
 
 export function ArchivedStakeholders() {
-  const [stakeholders, setStakeholders] = useState<(Stakeholder & { companies: { name: string } })[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const stakeholders = useGraphStore(selectArchivedStakeholders);
+  const status = useGraphStore((s) => s.status);
+  const error = useGraphStore((s) => s.error);
+  const load = useGraphStore((s) => s.load);
+  const setStakeholderStatus = useGraphStore((s) => s.setStakeholderStatus);
+  useLiveGraph();
+  const canEdit = useCanEdit();
   const [restoringId, setRestoringId] = useState<string | null>(null);
-
-  async function fetchArchived() {
-    try {
-      const { data, error: err } = await supabase
-        .from('stakeholders')
-        .select('*, companies(name)')
-        .eq('status', 'archived')
-        .order('full_name');
-      if (err) throw err;
-      setStakeholders((data as (Stakeholder & { companies: { name: string } })[]) || []);
-    } catch (e) {
-      setError(e instanceof Error ? e.message : 'Failed to load archived stakeholders');
-    } finally {
-      setLoading(false);
-    }
-  }
+  const loading = status === 'idle' || status === 'loading';
 
   useEffect(() => {
-    fetchArchived();
-  }, []);
+    load();
+  }, [load]);
 
   async function restore(id: string) {
     if (!window.confirm('Restore this stakeholder? They will reappear on the map.')) return;
     setRestoringId(id);
     try {
-      const { error: err } = await supabase.from('stakeholders').update({ status: 'active' }).eq('id', id);
-      if (err) throw err;
-      logAudit('stakeholder', id, 'restore');
-      await fetchArchived();
+      await setStakeholderStatus(id, 'active');
     } catch (e) {
       window.alert(e instanceof Error ? e.message : 'Failed to restore');
     } finally {
@@ -93,13 +78,15 @@ export function ArchivedStakeholders() {
                     </span>
                   </td>
                   <td className="text-right">
-                    <button
-                      onClick={() => restore(s.id)}
-                      disabled={restoringId === s.id}
-                      className="font-medium text-emerald-600 hover:text-emerald-700 disabled:opacity-50"
-                    >
-                      {restoringId === s.id ? 'Restoring...' : 'Restore'}
-                    </button>
+                    {canEdit && (
+                      <button
+                        onClick={() => restore(s.id)}
+                        disabled={restoringId === s.id}
+                        className="font-medium text-emerald-600 hover:text-emerald-700 disabled:opacity-50"
+                      >
+                        {restoringId === s.id ? 'Restoring...' : 'Restore'}
+                      </button>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -1,21 +1,43 @@
 import { useEffect, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
-import { supabase } from '../../lib/supabase';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
 import { InteractionLogSection } from '../../components/stakeholders/InteractionLogSection';
-import { logAudit } from '../../lib/audit';
-import type { Stakeholder } from '../../types/database';
-import type { Company } from '../../types/database';
+import { EntityHistory } from '../../components/audit/EntityHistory';
+import { archiveConfirmText, selectCompanies, useGraphStore } from '../../store/graphStore';
+import type { StakeholderRow } from '../../store/graphStore';
+import { useCanEdit } from '../../store/authStore';
 import type { SentimentType, SeniorityLevel } from '../../types/database';
 
 const SENTIMENT_OPTIONS: SentimentType[] = ['ALLY', 'NEUTRAL', 'OPPONENT', 'UNKNOWN'];
 const SENIORITY_OPTIONS: SeniorityLevel[] = ['C_LEVEL', 'VP', 'DIRECTOR', 'MANAGER', 'IC'];
 
+function formFromStakeholder(s: StakeholderRow) {
+  return {
+    full_name: s.full_name,
+    title: s.title || '',
+    company_id: s.company_id,
+    department: s.department || '',
+    seniority_level: s.seniority_level || ('' as const),
+    influence_score: s.influence_score ?? 3,
+    sentiment: s.sentiment,
+    sentiment_confidence: s.sentiment_confidence ?? 3,
+    notes: s.notes || '',
+    email: s.email || '',
+    phone: s.phone || '',
+    linkedin_url: s.linkedin_url || '',
+  };
+}
+
 export function StakeholderForm() {
   const { id } = useParams();
   const navigate = useNavigate();
   const isEdit = Boolean(id);
+  const readOnly = !useCanEdit();
   const [loading, setLoading] = useState(isEdit);
-  const [companies, setCompanies] = useState<Company[]>([]);
+  const companies = useGraphStore(selectCompanies);
+  const loadStore = useGraphStore((s) => s.load);
+  const createStakeholder = useGraphStore((s) => s.createStakeholder);
+  const updateStakeholder = useGraphStore((s) => s.updateStakeholder);
+  const setStakeholderStatus = useGraphStore((s) => s.setStakeholderStatus);
   const [error, setError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
   const [form, setForm] = useState({
@@ -33,42 +55,30 @@ export function StakeholderForm() {
     linkedin_url: '',
   });
 
-  useEffect(() => {
-    async function loadCompanies() {
-      const { data } = await supabase.from('companies').select('*').order('name');
-      setCompanies((data as Company[]) || []);
-    }
-    loadCompanies();
-  }, []);
-
   useEffect(() => {
     const loadId = id;
-    if (!loadId) return;
-    async function load() {
-      const { data, error: err } = await supabase.from('stakeholders').select('*').eq('id', loadId).single();
-      if (err) {
-        setError(err.message);
+    if (!loadId) {
+      loadStore();
+      return;
+    }
+    async function load(stakeholderId: string) {
+      await loadStore();
+      const { stakeholders, error: loadError } = useGraphStore.getState();
+      const s = stakeholders[stakeholderId];
+      if (!s) {
+        setError(loadError ?? 'Stakeholder not found');
         return;
       }
-      const s = data as Stakeholder;
-      setForm({
-        full_name: s.full_name,
-        title: s.title || '',
-        company_id: s.company_id,
-        department: s.department || '',
-        seniority_level: s.seniority_level || '',
-        influence_score: s.influence_score ?? 3,
-        sentiment: s.sentiment,
-        sentiment_confidence: s.sentiment_confidence ?? 3,
-        notes: s.notes || '',
-        email: s.email || '',
-        phone: s.phone || '',
-        linkedin_url: s.linkedin_url || '',
-      });
+      setForm(formFromStakeholder(s));
       setLoading(false);
     }
-    load();
-  }, [id]);
+    load(loadId);
+  }, [id, loadStore]);
+
+  function refillForm(stakeholderId: string) {
+    const s = useGraphStore.getState().stakeholders[stakeholderId];
+    if (s) setForm(formFromStakeholder(s));
+  }
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -91,16 +101,12 @@ export function StakeholderForm() {
 
     try {
       if (isEdit) {
-        const { error: err } = await supabase.from('stakeholders').update(payload).eq('id', id!);
-        if (err) throw err;
-        logAudit('stakeholder', id!, 'update', { name: payload.full_name });
+        await updateStakeholder(id!, payload);
       } else {
-        const { data: inserted, error: err } = await supabase.from('stakeholders').insert({
+        await createStakeholder({
           ...payload,
           updated_at: undefined,
-        }).select('id').single();
-        if (err) throw err;
-        if (inserted) logAudit('stakeholder', (inserted as { id: string }).id, 'create', { name: payload.full_name });
+        });
       }
       navigate('/stakeholders');
     } catch (e) {
@@ -110,12 +116,10 @@ export function StakeholderForm() {
 
   async function handleDelete() {
     if (!id) return;
-    if (!window.confirm('Archive this stakeholder? They will be removed from the map.')) return;
+    if (!window.confirm(archiveConfirmText(useGraphStore.getState(), id))) return;
     setDeleting(true);
     try {
-      const { error: err } = await supabase.from('stakeholders').update({ status: 'archived' }).eq('id', id);
-      if (err) throw err;
-      logAudit('stakeholder', id, 'archive');
+      await setStakeholderStatus(id, 'archived');
       navigate('/stakeholders');
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to delete');
@@ -123,156 +127,164 @@ export function StakeholderForm() {
     }
   }
 
+  if (readOnly && !isEdit) return <Navigate to="/stakeholders" replace />;
   if (loading) return <div className="text-slate-500">Loading...</div>;
 
   return (
     <div>
-      <h1 className="mb-6 text-2xl font-semibold text-slate-900">{isEdit ? 'Edit Stakeholder' : 'Add Stakeholder'}</h1>
+      <h1 className="mb-6 text-2xl font-semibold text-slate-900">{readOnly ? 'Stakeholder' : isEdit ? 'Edit Stakeholder' : 'Add Stakeholder'}</h1>
       <form onSubmit={handleSubmit} className="max-w-md space-y-4">
         {error && <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">{error}</div>}
-        <div>
-          <label className="label">Full Name *</label>
-          <input
-            type="text"
-            required
-            value={form.full_name}
-            onChange={(e) => setForm((f) => ({ ...f, full_name: e.target.value }))}
-            className="input"
-          />
-        </div>
-        <div>
-          <label className="label">Company *</label>
-          <select
-            required
-            value={form.company_id}
-            onChange={(e) => setForm((f) => ({ ...f, company_id: e.target.value }))}
-            className="input"
-          >
-            <option value="">Select company</option>
-            {companies.map((c) => (
-              <option key={c.id} value={c.id}>
-                {c.name}
-              </option>
-            ))}
-          </select>
-        </div>
-        <div>
-          <label className="label">Job Title</label>
-          <input
-            type="text"
-            value={form.title}
-            onChange={(e) => setForm((f) => ({ ...f, title: e.target.value }))}
-            className="input"
-          />
-        </div>
-        <div>
-          <label className="label">Department</label>
-          <input
-            type="text"
-            value={form.department}
-            onChange={(e) => setForm((f) => ({ ...f, department: e.target.value }))}
-            className="input"
-          />
-        </div>
-        <div>
-          <label className="label">Seniority</label>
-          <select
-            value={form.seniority_level}
-            onChange={(e) => setForm((f) => ({ ...f, seniority_level: e.target.value as SeniorityLevel }))}
-            className="input"
-          >
-            <option value="">--</option>
-            {SENIORITY_OPTIONS.map((o) => (
-              <option key={o} value={o}>
-                {o.replace('_', ' ')}
-              </option>
-            ))}
-          </select>
-        </div>
-        <div>
-          <label className="label">Influence Score (1-5)</label>
-          <input
-            type="number"
-            min={1}
-            max={5}
-            value={form.influence_score}
-            onChange={(e) => setForm((f) => ({ ...f, influence_score: +e.target.value }))}
-            className="input"
-          />
-        </div>
-        <div>
-          <label className="label">Sentiment</label>
-          <select
-            value={form.sentiment}
-            onChange={(e) => setForm((f) => ({ ...f, sentiment: e.target.value as SentimentType }))}
-            className="input"
-          >
-            {SENTIMENT_OPTIONS.map((o) => (
-              <option key={o} value={o}>
-                {o}
-              </option>
-            ))}
-          </select>
-        </div>
-        <div>
-          <label className="label">Sentiment Confidence (1-5)</label>
-          <input
-            type="number"
-            min={1}
-            max={5}
-            value={form.sentiment_confidence}
-            onChange={(e) => setForm((f) => ({ ...f, sentiment_confidence: +e.target.value }))}
-            className="input"
-          />
-        </div>
-        <div>
-          <label className="label">Notes</label>
-          <textarea
-            value={form.notes}
-            onChange={(e) => setForm((f) => ({ ...f, notes: e.target.value }))}
-            rows={3}
-            placeholder="Context, background, observations…"
-            className="input resize-none"
-          />
-        </div>
-        <div>
-          <p className="label mb-2">Contact (optional)</p>
-          <div className="space-y-2">
+        {readOnly && (
+          <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 text-sm text-slate-600">You have view-only access.</div>
+        )}
+        <fieldset disabled={readOnly} className="space-y-4">
+          <div>
+            <label className="label">Full Name *</label>
+            <input
+              type="text"
+              required
+              value={form.full_name}
+              onChange={(e) => setForm((f) => ({ ...f, full_name: e.target.value }))}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Company *</label>
+            <select
+              required
+              value={form.company_id}
+              onChange={(e) => setForm((f) => ({ ...f, company_id: e.target.value }))}
+              className="input"
+            >
+              <option value="">Select company</option>
+              {companies.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Job Title</label>
             <input
-              type="email"
-              value={form.email}
-              onChange={(e) => setForm((f) => ({ ...f, email: e.target.value }))}
-              placeholder="Email"
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm((f) => ({ ...f, title: e.target.value }))}
               className="input"
             />
+          </div>
+          <div>
+            <label className="label">Department</label>
             <input
-              type="tel"
-              value={form.phone}
-              onChange={(e) => setForm((f) => ({ ...f, phone: e.target.value }))}
-              placeholder="Phone"
+              type="text"
+              value={form.department}
+              onChange={(e) => setForm((f) => ({ ...f, department: e.target.value }))}
               className="input"
             />
+          </div>
+          <div>
+            <label className="label">Seniority</label>
+            <select
+              value={form.seniority_level}
+              onChange={(e) => setForm((f) => ({ ...f, seniority_level: e.target.value as SeniorityLevel }))}
+              className="input"
+            >
+              <option value="">--</option>
+              {SENIORITY_OPTIONS.map((o) => (
+                <option key={o} value={o}>
+                  {o.replace('_', ' ')}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Influence Score (1-5)</label>
             <input
-              type="url"
-              value={form.linkedin_url}
-              onChange={(e) => setForm((f) => ({ ...f, linkedin_url: e.target.value }))}
-              placeholder="LinkedIn URL"
+              type="number"
+              min={1}
+              max={5}
+              value={form.influence_score}
+              onChange={(e) => setForm((f) => ({ ...f, influence_score: +e.target.value }))}
               className="input"
             />
           </div>
-        </div>
+          <div>
+            <label className="label">Sentiment</label>
+            <select
+              value={form.sentiment}
+              onChange={(e) => setForm((f) => ({ ...f, sentiment: e.target.value as SentimentType }))}
+              className="input"
+            >
+              {SENTIMENT_OPTIONS.map((o) => (
+                <option key={o} value={o}>
+                  {o}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Sentiment Confidence (1-5)</label>
+            <input
+              type="number"
+              min={1}
+              max={5}
+              value={form.sentiment_confidence}
+              onChange={(e) => setForm((f) => ({ ...f, sentiment_confidence: +e.target.value }))}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label">Notes</label>
+            <textarea
+              value={form.notes}
+              onChange={(e) => setForm((f) => ({ ...f, notes: e.target.value }))}
+              rows={3}
+              placeholder="Context, background, observations…"
+              className="input resize-none"
+            />
+          </div>
+          <div>
+            <p className="label mb-2">Contact (optional)</p>
+            <div className="space-y-2">
+              <input
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm((f) => ({ ...f, email: e.target.value }))}
+                placeholder="Email"
+                className="input"
+              />
+              <input
+                type="tel"
+                value={form.phone}
+                onChange={(e) => setForm((f) => ({ ...f, phone: e.target.value }))}
+                placeholder="Phone"
+                className="input"
+              />
+              <input
+                type="url"
+                value={form.linkedin_url}
+                onChange={(e) => setForm((f) => ({ ...f, linkedin_url: e.target.value }))}
+                placeholder="LinkedIn URL"
+                className="input"
+              />
+            </div>
+          </div>
+        </fieldset>
         <div className="flex flex-wrap gap-3 pt-2">
-          <button type="submit" className="btn-primary">
-            {isEdit ? 'Save' : 'Create'}
-          </button>
+          {!readOnly && (
+            <button type="submit" className="btn-primary">
+              {isEdit ? 'Save' : 'Create'}
+            </button>
+          )}
           <button
             type="button"
             onClick={() => navigate('/stakeholders')}
             className="btn-secondary"
           >
-            Cancel
+            {readOnly ? 'Back' : 'Cancel'}
           </button>
-          {isEdit && (
+          {isEdit && !readOnly && (
             <button
               type="button"
               onClick={handleDelete}
@@ -287,6 +299,7 @@ export function StakeholderForm() {
       {isEdit && id && (
         <div className="mt-8 max-w-md">
           <InteractionLogSection stakeholderId={id} />
+          <EntityHistory entityType="stakeholder" entityId={id} onRestored={() => refillForm(id)} />
         </div>
       )}
     </div>
@@ -1,8 +1,8 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { supabase } from '../../lib/supabase';
 import { CsvImport } from '../../components/stakeholders/CsvImport';
-import type { Stakeholder } from '../../types/database';
+import { archiveConfirmText, selectActiveStakeholders, useGraphStore, useLiveGraph } from '../../store/graphStore';
+import { useCanEdit } from '../../store/authStore';
 
 const SENTIMENT_BADGE: Record<string, string> = {
   ALLY: 'badge badge-ally',
@@ -12,19 +12,21 @@ const SENTIMENT_BADGE: Record<string, string> = {
 };
 
 export function StakeholderList() {
-  const [stakeholders, setStakeholders] = useState<(Stakeholder & { companies: { name: string } })[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [refreshKey, setRefreshKey] = useState(0);
+  const stakeholders = useGraphStore(selectActiveStakeholders);
+  const status = useGraphStore((s) => s.status);
+  const error = useGraphStore((s) => s.error);
+  const load = useGraphStore((s) => s.load);
+  const setStakeholderStatus = useGraphStore((s) => s.setStakeholderStatus);
+  useLiveGraph();
+  const canEdit = useCanEdit();
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const loading = status === 'idle' || status === 'loading';
 
   async function deleteStakeholder(id: string) {
-    if (!window.confirm('Archive this stakeholder? They will be removed from the map.')) return;
+    if (!window.confirm(archiveConfirmText(useGraphStore.getState(), id))) return;
     setDeletingId(id);
     try {
-      const { error } = await supabase.from('stakeholders').update({ status: 'archived' }).eq('id', id);
-      if (error) throw error;
-      setRefreshKey((k) => k + 1);
+      await setStakeholderStatus(id, 'archived');
     } catch (e) {
       window.alert(e instanceof Error ? e.message : 'Failed to delete');
     } finally {
@@ -32,25 +34,9 @@ export function StakeholderList() {
     }
   }
 
-  async function fetchStakeholders() {
-      try {
-        const { data, error: err } = await supabase
-          .from('stakeholders')
-          .select('*, companies(name)')
-          .eq('status', 'active')
-          .order('full_name');
-        if (err) throw err;
-        setStakeholders((data as (Stakeholder & { companies: { name: string } })[]) || []);
-      } catch (e) {
-        setError(e instanceof Error ? e.message : 'Failed to load stakeholders');
-      } finally {
-        setLoading(false);
-      }
-  }
-
   useEffect(() => {
-    fetchStakeholders();
-  }, [refreshKey]);
+    load();
+  }, [load]);
 
   if (loading) return <div className="text-slate-500">Loading stakeholders...</div>;
   if (error) return <div className="text-red-600">{error}</div>;
@@ -63,15 +49,19 @@ export function StakeholderList() {
           <Link to="/stakeholders/archived" className="text-sm text-slate-500 hover:text-slate-700">
             View archived
           </Link>
-          <Link to="/stakeholders/new" className="btn-primary">
-            Add Stakeholder
-          </Link>
+          {canEdit && (
+            <Link to="/stakeholders/new" className="btn-primary">
+              Add Stakeholder
+            </Link>
+          )}
         </div>
       </div>
-      <div className="glass-card-solid mb-6 p-5">
-        <h3 className="mb-3 text-sm font-semibold text-slate-900">Import from CSV</h3>
-        <CsvImport onImportComplete={() => setRefreshKey((k) => k + 1)} />
-      </div>
+      {canEdit && (
+        <div className="glass-card-solid mb-6 p-5">
+          <h3 className="mb-3 text-sm font-semibold text-slate-900">Import from CSV</h3>
+          <CsvImport />
+        </div>
+      )}
       <div className="table-container">
         <table className="w-full">
           <thead className="table-header">
@@ -99,16 +89,20 @@ export function StakeholderList() {
                     to={`/stakeholders/${s.id}/edit`}
                     className="font-medium text-emerald-600 hover:text-emerald-700"
                   >
-                    Edit
+                    {canEdit ? 'Edit' : 'View'}
                   </Link>
-                  {' · '}
-                  <button
-                    onClick={() => deleteStakeholder(s.id)}
-                    disabled={deletingId === s.id}
-                    className="font-medium text-red-500 hover:text-red-600 disabled:opacity-50"
-                  >
-                    {deletingId === s.id ? 'Deleting...' : 'Delete'}
-                  </button>
+                  {canEdit && (
+                    <>
+                      {' · '}
+                      <button
+                        onClick={() => deleteStakeholder(s.id)}
+                        disabled={deletingId === s.id}
+                        className="font-medium text-red-500 hover:text-red-600 disabled:opacity-50"
+                      >
+                        {deletingId === s.id ? 'Deleting...' : 'Delete'}
+                      </button>
+                    </>
+                  )}
                 </td>
               </tr>
             ))}
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import { auth, canEdit } from '../lib/auth';
+import type { AuthUser, SignInCredentials } from '../lib/auth';
+
+export interface AuthState {
+  user: AuthUser | null;
+  status: 'loading' | 'signedIn' | 'signedOut';
+
+  /** Restore the session and follow sign-in/out; returns the unsubscribe function. */
+  init: () => () => void;
+  signIn: (credentials: SignInCredentials) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+function statusFor(user: AuthUser | null): AuthState['status'] {
+  return user ? 'signedIn' : 'signedOut';
+}
+
+export const useAuthStore = create<AuthState>()((set) => ({
+  user: null,
+  status: 'loading',
+
+  init: () => {
+    auth.getUser()
+      .then((user) => set({ user, status: statusFor(user) }))
+      .catch((e) => {
+        console.error('Failed to restore session:', e);
+        set({ user: null, status: 'signedOut' });
+      });
+    return auth.onChange((user) => set({ user, status: statusFor(user) }));
+  },
+
+  signIn: async (credentials) => {
+    const user = await auth.signIn(credentials);
+    set({ user, status: 'signedIn' });
+  },
+
+  signOut: async () => {
+    await auth.signOut();
+    set({ user: null, status: 'signedOut' });
+  },
+}));
+
+/** Whether the signed-in user may change data (admins and editors). */
+export function useCanEdit(): boolean {
+  return useAuthStore((s) => canEdit(s.user));
+}
@@ -0,0 +1,551 @@
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { realtime, repo } from '../lib/repository';
+import { addToMap, listMapMembers, removeFromMap } from '../lib/maps';
+import { DEFAULT_MAP_ID } from '../lib/constants';
+import { REVERTIBLE_TABLES } from '../lib/audit';
+import { createLayoutQueue } from '../lib/layoutQueue';
+import { archiveSplitWarning, buildGraph } from '../lib/graph';
+import { useAuthStore } from './authStore';
+import type { RecordStatus } from '../lib/repository';
+import type { RealtimeTable, RowChange } from '../lib/realtime';
+import type { LayoutConflict, LayoutQueueState } from '../lib/layoutQueue';
+import type {
+  AuditEvent,
+  Company,
+  MapLayout,
+  Relationship,
+  Stakeholder,
+  TableInsert,
+  TableUpdate,
+} from '../types/database';
+
+type ById<T> = Record<string, T>;
+
+/** Stakeholder row as stored; the joined company name is derived by selectors. */
+export type StakeholderRow = Omit<Stakeholder, 'companies'>;
+
+/** A map's saved positions by stakeholder id: the shared layout and the user's private overrides. */
+export interface MapLayoutSet {
+  shared: ById<MapLayout>;
+  mine: ById<MapLayout>;
+}
+
+/** Progress of the background layout writes, plus the moves that lost to another tab's or a newly published shared layout. */
+export interface LayoutSaveState extends LayoutQueueState {
+  conflicts: LayoutConflict[];
+}
+
+export interface GraphState {
+  companies: ById<Company>;
+  stakeholders: ById<StakeholderRow>;
+  relationships: ById<Relationship>;
+  /** stakeholder id → ids of relationships leaving it */
+  outgoing: ById<string[]>;
+  /** stakeholder id → ids of relationships arriving at it */
+  incoming: ById<string[]>;
+  /** map id → stakeholder ids on that map */
+  mapMembers: ById<string[]>;
+  /** map id → saved positions (shared and the signed-in user's own) */
+  layouts: ById<MapLayoutSet>;
+  layoutSave: LayoutSaveState;
+  status: 'idle' | 'loading' | 'ready' | 'error';
+  error: string | null;
+
+  /** Load companies, stakeholders and relationships (once, unless `force`). */
+  load: (options?: { force?: boolean }) => Promise<void>;
+  /** Load members and layouts of one map (plus the shared entities if needed). */
+  loadMap: (mapId: string) => Promise<void>;
+
+  createCompany: (input: TableInsert<'companies'>) => Promise<Company>;
+  updateCompany: (id: string, patch: TableUpdate<'companies'>) => Promise<Company>;
+
+  createStakeholder: (input: TableInsert<'stakeholders'>) => Promise<StakeholderRow>;
+  updateStakeholder: (id: string, patch: TableUpdate<'stakeholders'>) => Promise<StakeholderRow>;
+  setStakeholderStatus: (id: string, status: RecordStatus) => Promise<void>;
+
+  createRelationship: (input: TableInsert<'relationships'>) => Promise<Relationship>;
+  updateRelationship: (id: string, patch: TableUpdate<'relationships'>) => Promise<Relationship>;
+  deleteRelationship: (id: string) => Promise<void>;
+
+  addMapMembers: (mapId: string, stakeholderIds: string[]) => Promise<void>;
+  removeMapMembers: (mapId: string, stakeholderIds: string[]) => Promise<void>;
+  /**
+   * Save positions as the signed-in user's private layout. Writes are debounced, batched and
+   * retried in the background; a position changed since it was loaded (in another tab or session,
+   * or by someone publishing a shared layout) is not overwritten but lands in `layoutSave.conflicts`.
+   */
+  queueLayouts: (rows: TableInsert<'map_layouts'>[]) => void;
+  /** Write queued positions now; resolves once written or given up (see `layoutSave`). */
+  flushLayouts: () => Promise<void>;
+  /** Settle `layoutSave.conflicts`: write the user's positions anyway, or take the stored ones. */
+  resolveLayoutConflicts: (keep: 'mine' | 'theirs') => void;
+  /** Make the user's private layout of a map the shared one (editors only). */
+  publishLayout: (mapId: string) => Promise<void>;
+  /** Drop the user's private layout of a map, falling back to the shared one. */
+  resetLayout: (mapId: string) => Promise<void>;
+
+  /**
+   * Restore a stakeholder, company or relationship to its version at an audit event (or bring
+   * a deleted one back). `expectedUpdatedAt` is the version the user was shown (see
+   * `shownUpdatedAt`); throws ConflictError when the row changed since, unless `force`.
+   */
+  revertToEvent: (event: AuditEvent, options: { expectedUpdatedAt: string | null; force?: boolean }) => Promise<void>;
+
+  /** Merge a row change made elsewhere (see `useLiveGraph`). */
+  applyChange: (change: RowChange) => void;
+}
+
+function toById<T extends { id: string }>(rows: T[]): ById<T> {
+  const out: ById<T> = {};
+  for (const row of rows) out[row.id] = row;
+  return out;
+}
+
+function stripJoin(s: Stakeholder): StakeholderRow {
+  const { companies: _companies, ...row } = s;
+  void _companies;
+  return row;
+}
+
+function buildAdjacency(relationships: ById<Relationship>) {
+  const outgoing: ById<string[]> = {};
+  const incoming: ById<string[]> = {};
+  for (const r of Object.values(relationships)) {
+    (outgoing[r.from_stakeholder_id] ??= []).push(r.id);
+    (incoming[r.to_stakeholder_id] ??= []).push(r.id);
+  }
+  return { outgoing, incoming };
+}
+
+function withoutId(ids: string[] | undefined, id: string): string[] {
+  return (ids ?? []).filter((x) => x !== id);
+}
+
+/** Put (or replace) a relationship and keep the adjacency indexes in step. */
+function putRelationship(state: GraphState, r: Relationship): Partial<GraphState> {
+  const prev = state.relationships[r.id];
+  const outgoing = { ...state.outgoing };
+  const incoming = { ...state.incoming };
+  if (prev) {
+    outgoing[prev.from_stakeholder_id] = withoutId(outgoing[prev.from_stakeholder_id], prev.id);
+    incoming[prev.to_stakeholder_id] = withoutId(incoming[prev.to_stakeholder_id], prev.id);
+  }
+  outgoing[r.from_stakeholder_id] = [...(outgoing[r.from_stakeholder_id] ?? []), r.id];
+  incoming[r.to_stakeholder_id] = [...(incoming[r.to_stakeholder_id] ?? []), r.id];
+  return { relationships: { ...state.relationships, [r.id]: r }, outgoing, incoming };
+}
+
+function dropRelationship(state: GraphState, id: string): Partial<GraphState> {
+  const prev = state.relationships[id];
+  if (!prev) return {};
+  const relationships = { ...state.relationships };
+  delete relationships[id];
+  return {
+    relationships,
+    outgoing: { ...state.outgoing, [prev.from_stakeholder_id]: withoutId(state.outgoing[prev.from_stakeholder_id], id) },
+    incoming: { ...state.incoming, [prev.to_stakeholder_id]: withoutId(state.incoming[prev.to_stakeholder_id], id) },
+  };
+}
+
+/** Realtime echoes our own writes back; skip rows we already hold unchanged. */
+function sameRow(a: object | undefined, b: object): boolean {
+  return a !== undefined && JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Which half of a map's layout a row belongs to; other users' private rows are not ours to show. */
+function layoutSlot(row: Pick<MapLayout, 'saved_by_user_id'>): keyof MapLayoutSet | null {
+  if (row.saved_by_user_id === null) return 'shared';
+  return row.saved_by_user_id === useAuthStore.getState().user?.id ? 'mine' : null;
+}
+
+function putLayout(state: GraphState, row: MapLayout): Partial<GraphState> {
+  // Only maps that have been opened are tracked
+  const layoutSet = state.layouts[row.map_id];
+  const slot = layoutSlot(row);
+  if (!layoutSet || !slot || sameRow(layoutSet[slot][row.stakeholder_id], row)) return {};
+  return {
+    layouts: {
+      ...state.layouts,
+      [row.map_id]: { ...layoutSet, [slot]: { ...layoutSet[slot], [row.stakeholder_id]: row } },
+    },
+  };
+}
+
+/** putLayout for many rows, copying each touched half of a map's layout once. */
+function putLayouts(state: GraphState, rows: MapLayout[]): Partial<GraphState> {
+  const layouts = { ...state.layouts };
+  const copied = new Set<string>();
+  for (const row of rows) {
+    const layoutSet = layouts[row.map_id];
+    const slot = layoutSlot(row);
+    if (!layoutSet || !slot) continue;
+    if (!copied.has(`${row.map_id}:${slot}`)) {
+      layouts[row.map_id] = { ...layoutSet, [slot]: { ...layoutSet[slot] } };
+      copied.add(`${row.map_id}:${slot}`);
+    }
+    layouts[row.map_id][slot][row.stakeholder_id] = row;
+  }
+  return copied.size > 0 ? { layouts } : {};
+}
+
+function dropLayout(state: GraphState, old: Partial<MapLayout>): Partial<GraphState> {
+  // Deletes may carry only the id, so look the row up
+  for (const [mapId, layoutSet] of Object.entries(state.layouts)) {
+    for (const slot of ['shared', 'mine'] as const) {
+      const hit = Object.values(layoutSet[slot]).find((l) => l.id === old.id);
+      if (!hit) continue;
+      const next = { ...layoutSet[slot] };
+      delete next[hit.stakeholder_id];
+      return { layouts: { ...state.layouts, [mapId]: { ...layoutSet, [slot]: next } } };
+    }
+  }
+  return {};
+}
+
+function applyRowChange(state: GraphState, change: RowChange): Partial<GraphState> {
+  switch (change.table) {
+    case 'companies': {
+      if (change.new) {
+        if (sameRow(state.companies[change.new.id], change.new)) return {};
+        return { companies: { ...state.companies, [change.new.id]: change.new } };
+      }
+      if (!change.old?.id) return {};
+      const companies = { ...state.companies };
+      delete companies[change.old.id];
+      return { companies };
+    }
+    case 'stakeholders': {
+      if (change.new) {
+        const row = change.new;
+        if (sameRow(state.stakeholders[row.id], row)) return {};
+        const update: Partial<GraphState> = { stakeholders: { ...state.stakeholders, [row.id]: row } };
+        // Mirrors trg_stakeholders_default_map
+        const defaultMembers = state.mapMembers[DEFAULT_MAP_ID];
+        if (change.eventType === 'INSERT' && defaultMembers && !defaultMembers.includes(row.id)) {
+          update.mapMembers = { ...state.mapMembers, [DEFAULT_MAP_ID]: [...defaultMembers, row.id] };
+        }
+        return update;
+      }
+      if (!change.old?.id) return {};
+      const stakeholders = { ...state.stakeholders };
+      delete stakeholders[change.old.id];
+      return { stakeholders };
+    }
+    case 'relationships':
+      if (change.new) {
+        return sameRow(state.relationships[change.new.id], change.new) ? {} : putRelationship(state, change.new);
+      }
+      return change.old?.id ? dropRelationship(state, change.old.id) : {};
+    case 'map_layouts':
+      if (change.new) return putLayout(state, change.new);
+      return change.old ? dropLayout(state, change.old) : {};
+    default:
+      return {};
+  }
+}
+
+let inflightLoad: Promise<void> | null = null;
+
+const layoutQueue = createLayoutQueue({
+  save: (rows) => repo.layouts.save(rows),
+  onSaved: (rows) => useGraphStore.setState((state) => putLayouts(state, rows)),
+  onConflicts: (conflicts) =>
+    useGraphStore.setState((state) => {
+      // One entry per node: a newer conflict replaces an older one
+      const nodes = new Set(conflicts.map((c) => `${c.theirs.map_id}|${c.theirs.stakeholder_id}`));
+      const kept = state.layoutSave.conflicts.filter((c) => !nodes.has(`${c.theirs.map_id}|${c.theirs.stakeholder_id}`));
+      return { layoutSave: { ...state.layoutSave, conflicts: [...kept, ...conflicts] } };
+    }),
+  onStateChange: (queueState) => useGraphStore.setState((state) => ({ layoutSave: { ...state.layoutSave, ...queueState } })),
+});
+
+export const useGraphStore = create<GraphState>()((set, get) => ({
+  companies: {},
+  stakeholders: {},
+  relationships: {},
+  outgoing: {},
+  incoming: {},
+  mapMembers: {},
+  layouts: {},
+  layoutSave: { ...layoutQueue.state(), conflicts: [] },
+  status: 'idle',
+  error: null,
+
+  load: async (options) => {
+    if (!options?.force && get().status === 'ready') return;
+    if (inflightLoad) return inflightLoad;
+    set({ status: 'loading', error: null });
+    inflightLoad = (async () => {
+      try {
+        const [companies, stakeholders, relationships] = await Promise.all([
+          repo.companies.list(),
+          repo.stakeholders.list(),
+          repo.relationships.list(),
+        ]);
+        const relationshipsById = toById(relationships);
+        set({
+          companies: toById(companies),
+          stakeholders: toById(stakeholders.map(stripJoin)),
+          relationships: relationshipsById,
+          ...buildAdjacency(relationshipsById),
+          status: 'ready',
+        });
+      } catch (e) {
+        set({ status: 'error', error: e instanceof Error ? e.message : 'Failed to load data' });
+      } finally {
+        inflightLoad = null;
+      }
+    })();
+    return inflightLoad;
+  },
+
+  loadMap: async (mapId) => {
+    const [members, layouts] = await Promise.all([
+      listMapMembers(mapId),
+      repo.layouts.listForMap(mapId, useAuthStore.getState().user?.id),
+      get().load(),
+    ]);
+    const layoutSet: MapLayoutSet = { shared: {}, mine: {} };
+    for (const l of layouts) {
+      const slot = layoutSlot(l);
+      if (slot) layoutSet[slot][l.stakeholder_id] = l;
+    }
+    set((state) => ({
+      mapMembers: { ...state.mapMembers, [mapId]: members },
+      layouts: { ...state.layouts, [mapId]: layoutSet },
+    }));
+  },
+
+  createCompany: async (input) => {
+    const company = await repo.companies.create(input);
+    set((state) => ({ companies: { ...state.companies, [company.id]: company } }));
+    return company;
+  },
+
+  updateCompany: async (id, patch) => {
+    const company = await repo.companies.update(id, patch);
+    set((state) => ({ companies: { ...state.companies, [company.id]: company } }));
+    return company;
+  },
+
+  createStakeholder: async (input) => {
+    const stakeholder = stripJoin(await repo.stakeholders.create(input));
+    set((state) => ({ stakeholders: { ...state.stakeholders, [stakeholder.id]: stakeholder } }));
+    return stakeholder;
+  },
+
+  updateStakeholder: async (id, patch) => {
+    const stakeholder = stripJoin(await repo.stakeholders.update(id, patch));
+    set((state) => ({ stakeholders: { ...state.stakeholders, [stakeholder.id]: stakeholder } }));
+    return stakeholder;
+  },
+
+  setStakeholderStatus: async (id, status) => {
+    await get().updateStakeholder(id, { status });
+  },
+
+  createRelationship: async (input) => {
+    const relationship = await repo.relationships.create(input);
+    set((state) => putRelationship(state, relationship));
+    return relationship;
+  },
+
+  updateRelationship: async (id, patch) => {
+    const relationship = await repo.relationships.update(id, patch);
+    set((state) => putRelationship(state, relationship));
+    return relationship;
+  },
+
+  deleteRelationship: async (id) => {
+    await repo.relationships.remove(id);
+    set((state) => dropRelationship(state, id));
+  },
+
+  addMapMembers: async (mapId, stakeholderIds) => {
+    await addToMap(mapId, stakeholderIds);
+    set((state) => {
+      const current = state.mapMembers[mapId] ?? [];
+      const known = new Set(current);
+      return {
+        mapMembers: { ...state.mapMembers, [mapId]: [...current, ...stakeholderIds.filter((id) => !known.has(id))] },
+      };
+    });
+  },
+
+  removeMapMembers: async (mapId, stakeholderIds) => {
+    await removeFromMap(mapId, stakeholderIds);
+    const removed = new Set(stakeholderIds);
+    set((state) => {
+      const shared = { ...state.layouts[mapId]?.shared };
+      const mine = { ...state.layouts[mapId]?.mine };
+      for (const id of stakeholderIds) {
+        delete shared[id];
+        delete mine[id];
+      }
+      return {
+        mapMembers: { ...state.mapMembers, [mapId]: (state.mapMembers[mapId] ?? []).filter((id) => !removed.has(id)) },
+        layouts: { ...state.layouts, [mapId]: { shared, mine } },
+      };
+    });
+  },
+
+  queueLayouts: (input) => {
+    const userId = useAuthStore.getState().user?.id ?? null;
+    const slot = userId ? 'mine' : 'shared';
+    const { layouts } = get();
+    layoutQueue.enqueue(input.map((row) => {
+      const seen = layouts[row.map_id];
+      const own = seen?.[slot][row.stakeholder_id];
+      return {
+        ...row,
+        saved_by_user_id: userId,
+        expected_updated_at: own?.updated_at ?? null,
+        // A first private position replaces the shared one on screen
+        ...(userId && !own ? { expected_shared_updated_at: seen?.shared[row.stakeholder_id]?.updated_at ?? null } : {}),
+      };
+    }));
+  },
+
+  flushLayouts: () => layoutQueue.flush(),
+
+  resolveLayoutConflicts: (keep) => {
+    const { conflicts } = get().layoutSave;
+    set((state) => ({
+      ...(keep === 'theirs' ? putLayouts(state, conflicts.map((c) => c.theirs)) : {}),
+      layoutSave: { ...state.layoutSave, conflicts: [] },
+    }));
+    if (keep === 'mine') {
+      layoutQueue.enqueue(conflicts.map((c) => (c.theirs.saved_by_user_id === null && c.mine.saved_by_user_id !== null
+        ? { ...c.mine, expected_shared_updated_at: c.theirs.updated_at }
+        : { ...c.mine, expected_updated_at: c.theirs.updated_at })));
+    }
+  },
+
+  publishLayout: async (mapId) => {
+    const userId = useAuthStore.getState().user?.id;
+    if (!userId) throw new Error('Sign in to publish a layout');
+    await layoutQueue.flush();
+    await repo.layouts.publish(mapId, userId);
+    set((state) => {
+      const layoutSet = state.layouts[mapId];
+      if (!layoutSet) return {};
+      const shared = { ...layoutSet.shared };
+      for (const row of Object.values(layoutSet.mine)) {
+        shared[row.stakeholder_id] = { ...shared[row.stakeholder_id], ...row, saved_by_user_id: null };
+      }
+      return { layouts: { ...state.layouts, [mapId]: { shared, mine: {} } } };
+    });
+  },
+
+  resetLayout: async (mapId) => {
+    const userId = useAuthStore.getState().user?.id;
+    if (!userId) return;
+    await layoutQueue.flush();
+    await repo.layouts.removeForUser(mapId, userId);
+    set((state) => {
+      const layoutSet = state.layouts[mapId];
+      if (!layoutSet) return {};
+      return { layouts: { ...state.layouts, [mapId]: { ...layoutSet, mine: {} } } };
+    });
+  },
+
+  revertToEvent: async (event, options) => {
+    const table = REVERTIBLE_TABLES[event.entity_type];
+    if (!table) throw new Error(`${event.entity_type} changes cannot be restored`);
+    await get().load();
+    const current = get()[table][event.entity_id];
+    const reverted = await repo.audit.revert(event.id, options);
+    // A deleted row comes back as an insert, so a restored stakeholder rejoins the default map
+    const eventType = current ? 'UPDATE' : 'INSERT';
+    // `row` belongs to `table`; TypeScript can't pair the two fields of a union on its own
+    const change = { table: reverted.table, eventType, new: reverted.row, old: null } as RowChange;
+    set((state) => applyRowChange(state, change));
+  },
+
+  applyChange: (change) => {
+    set((state) => applyRowChange(state, change));
+  },
+}));
+
+const GRAPH_TABLES: RealtimeTable[] = ['companies', 'stakeholders', 'relationships', 'map_layouts'];
+
+/** Keep the store in step with changes made by other users while the calling page is mounted. */
+export function useLiveGraph() {
+  useEffect(
+    () => realtime.subscribe(GRAPH_TABLES, (change) => useGraphStore.getState().applyChange(change)),
+    []
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Derived selectors. Each caches its last result so components re-render only
+// when the underlying slices change.
+// ---------------------------------------------------------------------------
+
+function memoize<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+  let lastArgs: A | null = null;
+  let lastResult: R;
+  return (...args: A) => {
+    if (lastArgs && args.length === lastArgs.length && args.every((a, i) => a === lastArgs![i])) {
+      return lastResult;
+    }
+    lastArgs = args;
+    lastResult = fn(...args);
+    return lastResult;
+  };
+}
+
+const joinStakeholders = memoize(
+  (stakeholders: ById<StakeholderRow>, companies: ById<Company>): Stakeholder[] =>
+    Object.values(stakeholders)
+      .map((s) => {
+        const company = companies[s.company_id];
+        return { ...s, companies: company ? { name: company.name } : null };
+      })
+      .sort((a, b) => a.full_name.localeCompare(b.full_name))
+);
+
+/** Every stakeholder (any status) with its company name joined, ordered by name. */
+export const selectAllStakeholders = (state: GraphState) =>
+  joinStakeholders(state.stakeholders, state.companies);
+
+const filterActive = memoize((all: Stakeholder[]) => all.filter((s) => s.status === 'active'));
+const filterArchived = memoize((all: Stakeholder[]) => all.filter((s) => s.status === 'archived'));
+
+export const selectActiveStakeholders = (state: GraphState) => filterActive(selectAllStakeholders(state));
+export const selectArchivedStakeholders = (state: GraphState) => filterArchived(selectAllStakeholders(state));
+
+const listRelationships = memoize((relationships: ById<Relationship>) => Object.values(relationships));
+
+export const selectRelationships = (state: GraphState) => listRelationships(state.relationships);
+
+const listCompanies = memoize((companies: ById<Company>) =>
+  Object.values(companies).sort((a, b) => a.name.localeCompare(b.name))
+);
+const filterActiveCompanies = memoize((all: Company[]) => all.filter((c) => c.status === 'active'));
+
+export const selectCompanies = (state: GraphState) => listCompanies(state.companies);
+export const selectActiveCompanies = (state: GraphState) => filterActiveCompanies(selectCompanies(state));
+
+/** Positions the user sees on a map: their own where saved, the shared layout elsewhere. */
+export const effectiveLayouts = memoize((layoutSet: MapLayoutSet | undefined): MapLayout[] =>
+  Object.values({ ...layoutSet?.shared, ...layoutSet?.mine })
+);
+
+/** Relationships touching a stakeholder, resolved through the adjacency indexes. */
+export function relationshipsFor(state: GraphState, stakeholderId: string): Relationship[] {
+  const ids = [...(state.outgoing[stakeholderId] ?? []), ...(state.incoming[stakeholderId] ?? [])];
+  return ids.map((id) => state.relationships[id]).filter(Boolean);
+}
+
+/** Confirmation for archiving a stakeholder, warning when that splits the active network in two. */
+export function archiveConfirmText(state: GraphState, stakeholderId: string): string {
+  const graph = buildGraph(selectActiveStakeholders(state).map((s) => s.id), selectRelationships(state));
+  const warning = archiveSplitWarning(graph, stakeholderId);
+  return `Archive this stakeholder? They will be removed from the map.${warning ? `\n\n${warning}` : ''}`;
+}
+
+export function activeStakeholderCountForCompany(state: GraphState, companyId: string): number {
+  return Object.values(state.stakeholders).filter((s) => s.company_id === companyId && s.status === 'active').length;
+}
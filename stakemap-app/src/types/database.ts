@@ -9,6 +9,7 @@ export type RelationType =
   | 'BLOCKS'
   | 'SPONSORS'
   | 'GATEKEEPER_FOR';
+export type AppRole = 'admin' | 'editor' | 'viewer';
 
 export interface Company {
   id: string;
@@ -39,7 +40,8 @@ export interface Stakeholder {
   status: string;
   created_at: string;
   updated_at: string;
-  companies?: Company;
+  /** Joined company, present when loaded with `companies(name)` */
+  companies?: { name: string } | null;
 }
 
 export interface InteractionLog {
@@ -88,23 +90,121 @@ export interface Map {
   updated_at: string;
 }
 
+export interface MapStakeholder {
+  map_id: string;
+  stakeholder_id: string;
+  created_at: string;
+}
+
+export interface Profile {
+  id: string;
+  email: string | null;
+  display_name: string | null;
+  role: AppRole;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A column's value before and after a change; null on the side where the row did not exist. */
+export interface FieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+/** `audit_events.diff_json` as written by the audit trigger. */
+export interface AuditDiff {
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  /** Only the columns that differ, bookkeeping columns (id, timestamps) left out. */
+  changed: Record<string, FieldChange>;
+  /** Set on 'revert' events: the event whose version was restored. */
+  reverted_event_id?: string;
+}
+
 export interface AuditEvent {
   id: string;
   entity_type: string;
   entity_id: string;
   action: string;
-  diff_json: Record<string, unknown> | null;
+  diff_json: AuditDiff | null;
+  /** Profile id of the user who made the change; null for system changes. */
+  changed_by: string | null;
   changed_at: string;
+  /** Joined actor, present when loaded with `profiles(email)` */
+  profiles?: { email: string | null } | null;
+}
+
+/** Mapped copy of an interface; supabase-js needs index-compatible row types, which interfaces are not. */
+type Row<T> = { [K in keyof T]: T[K] };
+
+/** Insert shape: the listed columns are required, every other column has a default or is nullable. */
+type Insertable<T, Required extends keyof T> = Row<Pick<T, Required> & Partial<Omit<T, Required>>>;
+
+interface Table<T, Required extends keyof T, Rel extends TableRelationship[] = []> {
+  Row: Row<T>;
+  Insert: Insertable<T, Required>;
+  Update: Row<Partial<T>>;
+  Relationships: Rel;
+}
+
+interface TableRelationship {
+  foreignKeyName: string;
+  columns: string[];
+  isOneToOne?: boolean;
+  referencedRelation: string;
+  referencedColumns: string[];
 }
 
 export interface Database {
   public: {
     Tables: {
-      companies: { Row: Company; Insert: Omit<Company, 'created_at' | 'updated_at'> & Partial<{ created_at: string; updated_at: string }>; Update: Partial<Company> };
-      stakeholders: { Row: Stakeholder; Insert: Omit<Stakeholder, 'created_at' | 'updated_at'> & Partial<{ created_at: string; updated_at: string }>; Update: Partial<Stakeholder> };
-      relationships: { Row: Relationship; Insert: Omit<Relationship, 'created_at' | 'updated_at'> & Partial<{ created_at: string; updated_at: string }>; Update: Partial<Relationship> };
-      maps: { Row: Map; Insert: Map; Update: Partial<Map> };
-      map_layouts: { Row: MapLayout; Insert: Omit<MapLayout, 'created_at' | 'updated_at'> & Partial<{ created_at: string; updated_at: string }>; Update: Partial<MapLayout> };
+      companies: Table<Company, 'name', [
+        { foreignKeyName: 'companies_parent_company_id_fkey'; columns: ['parent_company_id']; isOneToOne: false; referencedRelation: 'companies'; referencedColumns: ['id'] },
+      ]>;
+      stakeholders: Table<Omit<Stakeholder, 'companies'>, 'company_id' | 'full_name', [
+        { foreignKeyName: 'stakeholders_company_id_fkey'; columns: ['company_id']; isOneToOne: false; referencedRelation: 'companies'; referencedColumns: ['id'] },
+      ]>;
+      relationships: Table<Relationship, 'from_stakeholder_id' | 'to_stakeholder_id' | 'relation_type'>;
+      interaction_logs: Table<InteractionLog, 'stakeholder_id' | 'interaction_date' | 'summary'>;
+      maps: Table<Map, never>;
+      map_stakeholders: Table<MapStakeholder, 'map_id' | 'stakeholder_id'>;
+      map_layouts: Table<MapLayout, 'map_id' | 'stakeholder_id' | 'x' | 'y'>;
+      audit_events: Table<Omit<AuditEvent, 'profiles'>, 'entity_type' | 'entity_id' | 'action', [
+        { foreignKeyName: 'audit_events_changed_by_fkey'; columns: ['changed_by']; isOneToOne: false; referencedRelation: 'profiles'; referencedColumns: ['id'] },
+      ]>;
+      profiles: Table<Profile, 'id'>;
     };
+    Views: { [_ in never]: never };
+    Functions: {
+      publish_map_layout: { Args: { p_map_id: string }; Returns: undefined };
+      save_map_layouts: {
+        Args: {
+          p_rows: (Insertable<MapLayout, 'map_id' | 'stakeholder_id' | 'x' | 'y'> & {
+            expected_updated_at: string | null;
+            expected_shared_updated_at?: string | null;
+          })[];
+        };
+        Returns: { saved: MapLayout[]; conflicts: MapLayout[] };
+      };
+      revert_audit_event: {
+        Args: { p_event_id: string; p_expected_updated_at: string | null; p_force?: boolean };
+        Returns:
+          | { table: 'companies'; row: Company }
+          | { table: 'stakeholders'; row: Omit<Stakeholder, 'companies'> }
+          | { table: 'relationships'; row: Relationship };
+      };
+    };
+    Enums: {
+      seniority_level: SeniorityLevel;
+      sentiment_type: SentimentType;
+      relation_type: RelationType;
+      app_role: AppRole;
+    };
+    CompositeTypes: { [_ in never]: never };
   };
 }
+
+export type TableName = keyof Database['public']['Tables'];
+export type TableRow<T extends TableName> = Database['public']['Tables'][T]['Row'];
+export type TableInsert<T extends TableName> = Database['public']['Tables'][T]['Insert'];
+export type TableUpdate<T extends TableName> = Database['public']['Tables'][T]['Update'];
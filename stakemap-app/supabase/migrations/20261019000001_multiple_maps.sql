@@ -0,0 +1,32 @@
+-- Multiple named maps
+-- Each map owns a subset of stakeholders (map_stakeholders) and its own map_layouts rows.
+
+-- Map membership (which stakeholders appear on which map)
+CREATE TABLE map_stakeholders (
+  map_id UUID NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+  stakeholder_id UUID NOT NULL REFERENCES stakeholders(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (map_id, stakeholder_id)
+);
+
+CREATE INDEX idx_map_stakeholders_stakeholder ON map_stakeholders(stakeholder_id);
+
+-- Existing stakeholders all belong to the default map
+INSERT INTO map_stakeholders (map_id, stakeholder_id)
+SELECT '00000000-0000-0000-0000-000000000001', id FROM stakeholders
+ON CONFLICT DO NOTHING;
+
+-- New stakeholders land on the default map so it keeps showing everyone
+CREATE OR REPLACE FUNCTION add_stakeholder_to_default_map()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO map_stakeholders (map_id, stakeholder_id)
+  VALUES ('00000000-0000-0000-0000-000000000001', NEW.id)
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_stakeholders_default_map
+AFTER INSERT ON stakeholders
+FOR EACH ROW EXECUTE FUNCTION add_stakeholder_to_default_map();
@@ -0,0 +1,18 @@
+-- Live updates
+-- Publish row changes on the tables the app subscribes to through Supabase Realtime.
+-- Tables that are not present in this database (or already published) are skipped.
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['stakeholders', 'relationships', 'companies', 'map_layouts', 'audit_events'] LOOP
+    IF to_regclass('public.' || t) IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END;
+$$;
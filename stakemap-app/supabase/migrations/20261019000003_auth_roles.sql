@@ -0,0 +1,90 @@
+-- Authentication and roles
+-- Every Supabase Auth user gets a profile carrying their role:
+--   admin  – full control, manages other users' roles
+--   editor – creates and edits stakeholders, companies, relationships and maps
+--   viewer – read-only
+-- The first admin is the earliest user in auth.users: on an existing deployment the backfill below
+-- makes that user admin and everyone else who already had an account editor (they could all edit
+-- before); on a fresh one the first user to sign up becomes admin. Everyone after starts as viewer.
+
+CREATE TYPE app_role AS ENUM ('admin', 'editor', 'viewer');
+
+CREATE TABLE profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  display_name TEXT,
+  role app_role NOT NULL DEFAULT 'viewer',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    CASE WHEN EXISTS (SELECT 1 FROM public.profiles) THEN 'viewer'::app_role ELSE 'admin'::app_role END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trg_auth_users_profile
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Users who signed up before this migration keep editing; the earliest of them administers
+INSERT INTO profiles (id, email, role)
+SELECT
+  id,
+  email,
+  CASE WHEN row_number() OVER (ORDER BY created_at, id) = 1 THEN 'admin'::app_role ELSE 'editor'::app_role END
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Role helpers for policies (SECURITY DEFINER so they can read profiles under RLS)
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS app_role AS $$
+  SELECT role FROM public.profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(current_app_role() IN ('admin', 'editor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Profiles: everyone signed in can see who is who; only admins change roles
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY profiles_read ON profiles FOR SELECT TO authenticated USING (true);
+CREATE POLICY profiles_admin_update ON profiles FOR UPDATE TO authenticated
+  USING (current_app_role() = 'admin') WITH CHECK (current_app_role() = 'admin');
+
+-- Data tables: signed-in users read, editors and admins write
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'companies', 'stakeholders', 'relationships', 'interaction_logs',
+    'maps', 'map_stakeholders', 'map_layouts', 'audit_events'
+  ] LOOP
+    IF to_regclass('public.' || t) IS NULL THEN
+      CONTINUE;
+    END IF;
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('CREATE POLICY %I ON public.%I FOR SELECT TO authenticated USING (true)', t || '_read', t);
+    EXECUTE format('CREATE POLICY %I ON public.%I FOR INSERT TO authenticated WITH CHECK (can_edit())', t || '_insert', t);
+    EXECUTE format('CREATE POLICY %I ON public.%I FOR UPDATE TO authenticated USING (can_edit()) WITH CHECK (can_edit())', t || '_update', t);
+    EXECUTE format('CREATE POLICY %I ON public.%I FOR DELETE TO authenticated USING (can_edit())', t || '_delete', t);
+  END LOOP;
+END;
+$$;
+
+-- Layout rows record who saved them
+ALTER TABLE map_layouts
+  ALTER COLUMN saved_by_user_id SET DEFAULT auth.uid(),
+  ADD CONSTRAINT map_layouts_saved_by_user_id_fkey
+    FOREIGN KEY (saved_by_user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
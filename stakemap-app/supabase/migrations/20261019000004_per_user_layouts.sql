@@ -0,0 +1,53 @@
+-- Per-user layouts
+-- A map_layouts row with saved_by_user_id NULL is the map's shared layout; a row with a
+-- user id is that user's private position for the stakeholder, which overrides the shared one
+-- in their view only. Editors can publish their private layout as the shared default.
+
+-- Existing positions become the shared layout
+UPDATE map_layouts SET saved_by_user_id = NULL;
+
+ALTER TABLE map_layouts
+  ALTER COLUMN saved_by_user_id DROP DEFAULT,
+  DROP CONSTRAINT map_layouts_map_id_stakeholder_id_key,
+  ADD CONSTRAINT map_layouts_map_stakeholder_user_key
+    UNIQUE NULLS NOT DISTINCT (map_id, stakeholder_id, saved_by_user_id);
+
+CREATE INDEX idx_map_layouts_user ON map_layouts(saved_by_user_id) WHERE saved_by_user_id IS NOT NULL;
+
+-- Everyone signed in sees the shared layout and their own; anyone may keep a private layout,
+-- only editors and admins change the shared one
+DROP POLICY map_layouts_read ON map_layouts;
+DROP POLICY map_layouts_insert ON map_layouts;
+DROP POLICY map_layouts_update ON map_layouts;
+DROP POLICY map_layouts_delete ON map_layouts;
+
+CREATE POLICY map_layouts_read ON map_layouts FOR SELECT TO authenticated
+  USING (saved_by_user_id IS NULL OR saved_by_user_id = auth.uid());
+CREATE POLICY map_layouts_insert ON map_layouts FOR INSERT TO authenticated
+  WITH CHECK (saved_by_user_id = auth.uid() OR (saved_by_user_id IS NULL AND can_edit()));
+CREATE POLICY map_layouts_update ON map_layouts FOR UPDATE TO authenticated
+  USING (saved_by_user_id = auth.uid() OR (saved_by_user_id IS NULL AND can_edit()))
+  WITH CHECK (saved_by_user_id = auth.uid() OR (saved_by_user_id IS NULL AND can_edit()));
+-- Removing a stakeholder from a map drops every user's position for it
+CREATE POLICY map_layouts_delete ON map_layouts FOR DELETE TO authenticated
+  USING (saved_by_user_id = auth.uid() OR can_edit());
+
+-- Copy the caller's private positions for a map into the shared layout, then drop them
+-- so the caller follows the shared layout again. Runs as the caller, so RLS applies.
+CREATE OR REPLACE FUNCTION publish_map_layout(p_map_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT can_edit() THEN
+    RAISE EXCEPTION 'Only editors can publish the shared layout' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO map_layouts (map_id, stakeholder_id, x, y, zoom_context, saved_by_user_id, updated_at)
+  SELECT map_id, stakeholder_id, x, y, zoom_context, NULL, now()
+  FROM map_layouts
+  WHERE map_id = p_map_id AND saved_by_user_id = auth.uid()
+  ON CONFLICT (map_id, stakeholder_id, saved_by_user_id) DO UPDATE
+    SET x = EXCLUDED.x, y = EXCLUDED.y, zoom_context = EXCLUDED.zoom_context, updated_at = now();
+
+  DELETE FROM map_layouts WHERE map_id = p_map_id AND saved_by_user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql;
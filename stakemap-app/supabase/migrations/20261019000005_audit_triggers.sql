@@ -0,0 +1,120 @@
+-- Database-side audit trail
+-- Every insert, update and delete on the data tables writes an audit_events row from a trigger,
+-- so the trail is complete whichever client path made the change. diff_json holds
+--   { "before": <row or null>, "after": <row or null>, "changed": { "<column>": { "old": …, "new": … } } }
+-- and changed_by the signed-in user (auth.uid()). Layout positions are not audited: they change
+-- on every drag and are per-user view state.
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL,
+  entity_id UUID NOT NULL,
+  action TEXT NOT NULL,
+  diff_json JSONB,
+  changed_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE audit_events
+  ADD COLUMN IF NOT EXISTS changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(entity_type, entity_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_changed_at ON audit_events(changed_at DESC);
+
+-- Older client-written events only carried a partial snapshot ({ name }); keep it as "after"
+UPDATE audit_events
+SET diff_json = jsonb_build_object('before', NULL, 'after', diff_json, 'changed', '{}'::jsonb)
+WHERE diff_json IS NOT NULL AND NOT diff_json ? 'changed';
+
+-- Only the triggers write the trail; signed-in users read it
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS audit_events_read ON audit_events;
+DROP POLICY IF EXISTS audit_events_insert ON audit_events;
+DROP POLICY IF EXISTS audit_events_update ON audit_events;
+DROP POLICY IF EXISTS audit_events_delete ON audit_events;
+CREATE POLICY audit_events_read ON audit_events FOR SELECT TO authenticated USING (true);
+
+-- TG_ARGV[0]: entity_type recorded on the event; TG_ARGV[1]: column holding the entity id.
+-- Runs as owner so it can write audit_events past RLS; auth.uid() still names the caller.
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  before_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  after_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  changed JSONB := '{}'::jsonb;
+  col TEXT;
+  act TEXT;
+BEGIN
+  -- Bookkeeping columns move on every write and say nothing about the edit
+  FOR col IN
+    SELECT k FROM jsonb_object_keys(COALESCE(after_row, before_row)) AS k
+    WHERE k NOT IN ('id', 'created_at', 'updated_at')
+  LOOP
+    IF COALESCE(before_row -> col, 'null') IS DISTINCT FROM COALESCE(after_row -> col, 'null') THEN
+      changed := changed || jsonb_build_object(
+        col, jsonb_build_object('old', COALESCE(before_row -> col, 'null'), 'new', COALESCE(after_row -> col, 'null'))
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'INSERT' THEN
+    act := 'create';
+  ELSIF TG_OP = 'DELETE' THEN
+    act := 'delete';
+  ELSIF changed = '{}'::jsonb THEN
+    RETURN NULL; -- touched updated_at only
+  ELSIF changed ? 'status' AND after_row ->> 'status' = 'archived' THEN
+    act := 'archive';
+  ELSIF changed ? 'status' AND after_row ->> 'status' = 'active' THEN
+    act := 'restore';
+  ELSE
+    act := 'update';
+  END IF;
+
+  INSERT INTO public.audit_events (entity_type, entity_id, action, diff_json, changed_by)
+  VALUES (
+    TG_ARGV[0],
+    (COALESCE(after_row, before_row) ->> TG_ARGV[1])::uuid,
+    act,
+    jsonb_build_object('before', before_row, 'after', after_row, 'changed', changed),
+    auth.uid()
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Map membership is filed under the map; tables missing from this database are skipped
+DO $$
+DECLARE
+  spec TEXT[];
+BEGIN
+  FOREACH spec SLICE 1 IN ARRAY ARRAY[
+    ARRAY['companies', 'company', 'id'],
+    ARRAY['stakeholders', 'stakeholder', 'id'],
+    ARRAY['relationships', 'relationship', 'id'],
+    ARRAY['interaction_logs', 'interaction_log', 'id'],
+    ARRAY['maps', 'map', 'id'],
+    ARRAY['map_stakeholders', 'map_member', 'map_id']
+  ] LOOP
+    IF to_regclass('public.' || spec[1]) IS NULL THEN
+      CONTINUE;
+    END IF;
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON public.%I', 'trg_' || spec[1] || '_audit', spec[1]);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON public.%I FOR EACH ROW EXECUTE FUNCTION audit_row_change(%L, %L)',
+      'trg_' || spec[1] || '_audit', spec[1], spec[2], spec[3]
+    );
+  END LOOP;
+END;
+$$;
+
+-- Live audit log, in case the table was only created above
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'audit_events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.audit_events;
+  END IF;
+END;
+$$;
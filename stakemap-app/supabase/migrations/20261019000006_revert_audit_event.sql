@@ -0,0 +1,164 @@
+-- Revert an entity to a version from the audit trail
+-- revert_audit_event(event, expected_updated_at) puts a stakeholder, company or relationship
+-- back into the state it had right after the given audit event; for a delete event it brings
+-- the deleted row back. The write is audited as action 'revert' with the event it restored.
+
+-- audit_row_change learns to record the action and source event set by revert_audit_event
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  before_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  after_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  changed JSONB := '{}'::jsonb;
+  diff JSONB;
+  reverted_event TEXT := NULLIF(current_setting('stakemap.reverted_event_id', true), '');
+  col TEXT;
+  act TEXT;
+BEGIN
+  -- Bookkeeping columns move on every write and say nothing about the edit
+  FOR col IN
+    SELECT k FROM jsonb_object_keys(COALESCE(after_row, before_row)) AS k
+    WHERE k NOT IN ('id', 'created_at', 'updated_at')
+  LOOP
+    IF COALESCE(before_row -> col, 'null') IS DISTINCT FROM COALESCE(after_row -> col, 'null') THEN
+      changed := changed || jsonb_build_object(
+        col, jsonb_build_object('old', COALESCE(before_row -> col, 'null'), 'new', COALESCE(after_row -> col, 'null'))
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' AND changed = '{}'::jsonb THEN
+    RETURN NULL; -- touched updated_at only
+  ELSIF reverted_event IS NOT NULL THEN
+    act := 'revert';
+  ELSIF TG_OP = 'INSERT' THEN
+    act := 'create';
+  ELSIF TG_OP = 'DELETE' THEN
+    act := 'delete';
+  ELSIF changed ? 'status' AND after_row ->> 'status' = 'archived' THEN
+    act := 'archive';
+  ELSIF changed ? 'status' AND after_row ->> 'status' = 'active' THEN
+    act := 'restore';
+  ELSE
+    act := 'update';
+  END IF;
+
+  diff := jsonb_build_object('before', before_row, 'after', after_row, 'changed', changed);
+  IF reverted_event IS NOT NULL THEN
+    diff := diff || jsonb_build_object('reverted_event_id', reverted_event);
+  END IF;
+
+  INSERT INTO public.audit_events (entity_type, entity_id, action, diff_json, changed_by)
+  VALUES (
+    TG_ARGV[0],
+    (COALESCE(after_row, before_row) ->> TG_ARGV[1])::uuid,
+    act,
+    diff,
+    auth.uid()
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The conflict check below needs updated_at to move on every write, whichever client made it
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_companies_updated_at ON companies;
+CREATE TRIGGER trg_companies_updated_at
+  BEFORE UPDATE ON companies
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_stakeholders_updated_at ON stakeholders;
+CREATE TRIGGER trg_stakeholders_updated_at
+  BEFORE UPDATE ON stakeholders
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_relationships_updated_at ON relationships;
+CREATE TRIGGER trg_relationships_updated_at
+  BEFORE UPDATE ON relationships
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- p_expected_updated_at is the entity's updated_at as the caller last saw it (NULL if the caller
+-- saw it deleted). When the row has moved on since, the function raises PT409 (HTTP 409) unless
+-- p_force is set. Returns { table, row } with the restored row. Runs as the caller, so the usual
+-- RLS write rules apply.
+CREATE OR REPLACE FUNCTION revert_audit_event(
+  p_event_id UUID,
+  p_expected_updated_at TIMESTAMPTZ,
+  p_force BOOLEAN DEFAULT false
+)
+RETURNS JSONB AS $$
+DECLARE
+  evt audit_events%ROWTYPE;
+  tbl TEXT;
+  target JSONB;
+  current_row JSONB;
+  cols TEXT[];
+  restored JSONB;
+BEGIN
+  IF NOT can_edit() THEN
+    RAISE EXCEPTION 'Only editors can restore previous versions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO evt FROM audit_events WHERE id = p_event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Audit event % not found', p_event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  tbl := CASE evt.entity_type
+    WHEN 'stakeholder' THEN 'stakeholders'
+    WHEN 'company' THEN 'companies'
+    WHEN 'relationship' THEN 'relationships'
+  END;
+  IF tbl IS NULL THEN
+    RAISE EXCEPTION '% changes cannot be restored', evt.entity_type USING ERRCODE = '22023';
+  END IF;
+
+  -- The state right after the event; for a delete, the row as it was before
+  target := COALESCE(evt.diff_json -> 'after', evt.diff_json -> 'before');
+  IF target IS NULL OR target = 'null'::jsonb THEN
+    RAISE EXCEPTION 'This event has no recorded values to restore' USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE t.id = $1 FOR UPDATE', tbl)
+    INTO current_row USING evt.entity_id;
+
+  IF NOT p_force AND (current_row ->> 'updated_at')::timestamptz IS DISTINCT FROM p_expected_updated_at THEN
+    RAISE EXCEPTION 'This record was changed by someone else since you loaded it'
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  -- Only columns that still exist; the schema may have grown or shrunk since the event
+  SELECT array_agg(c.column_name::text) INTO cols
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public' AND c.table_name = tbl
+    AND c.column_name NOT IN ('id', 'created_at', 'updated_at')
+    AND target ? c.column_name;
+
+  PERFORM set_config('stakemap.reverted_event_id', p_event_id::text, true);
+
+  IF current_row IS NULL THEN
+    EXECUTE format(
+      'INSERT INTO public.%1$I (id, created_at, updated_at, %2$s) SELECT r.id, r.created_at, now(), %3$s FROM jsonb_populate_record(NULL::public.%1$I, $1) r RETURNING to_jsonb(%1$I)',
+      tbl,
+      (SELECT string_agg(format('%I', c), ', ') FROM unnest(cols) c),
+      (SELECT string_agg(format('r.%I', c), ', ') FROM unnest(cols) c)
+    ) INTO restored USING target;
+  ELSE
+    EXECUTE format(
+      'UPDATE public.%1$I t SET %2$s, updated_at = now() FROM jsonb_populate_record(NULL::public.%1$I, $1) r WHERE t.id = $2 RETURNING to_jsonb(t)',
+      tbl,
+      (SELECT string_agg(format('%I = r.%I', c, c), ', ') FROM unnest(cols) c)
+    ) INTO restored USING target, evt.entity_id;
+  END IF;
+
+  PERFORM set_config('stakemap.reverted_event_id', '', true);
+  RETURN jsonb_build_object('table', tbl, 'row', restored);
+END;
+$$ LANGUAGE plpgsql;
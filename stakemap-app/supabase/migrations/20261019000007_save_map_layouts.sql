@@ -0,0 +1,68 @@
+-- Checked layout saves
+-- save_map_layouts(rows) upserts positions like the plain upsert, but every row carries the
+-- updated_at its writer last saw (expected_updated_at, NULL when there was no row). A row that has
+-- moved on since is left alone and returned under "conflicts"; the others are written with
+-- updated_at = now() and returned under "saved". Rows are per user, so that catches the same user
+-- moving the node in another tab or session. Another user's moves reach the caller through the
+-- shared layout: a user's first private row for a node carries expected_shared_updated_at, the
+-- shared row as the user saw it, and a shared row published since is returned as the conflict.
+-- Runs as the caller, so the usual RLS rules on map_layouts apply.
+
+CREATE OR REPLACE FUNCTION save_map_layouts(p_rows JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  r JSONB;
+  current_row map_layouts%ROWTYPE;
+  shared_row map_layouts%ROWTYPE;
+  written map_layouts%ROWTYPE;
+  saved JSONB := '[]'::jsonb;
+  conflicts JSONB := '[]'::jsonb;
+BEGIN
+  FOR r IN SELECT value FROM jsonb_array_elements(p_rows) LOOP
+    SELECT * INTO current_row FROM map_layouts
+    WHERE map_id = (r ->> 'map_id')::uuid
+      AND stakeholder_id = (r ->> 'stakeholder_id')::uuid
+      AND saved_by_user_id IS NOT DISTINCT FROM (r ->> 'saved_by_user_id')::uuid
+    FOR UPDATE;
+
+    IF FOUND THEN
+      IF current_row.updated_at IS DISTINCT FROM (r ->> 'expected_updated_at')::timestamptz THEN
+        conflicts := conflicts || jsonb_build_array(to_jsonb(current_row));
+        CONTINUE;
+      END IF;
+    ELSIF r ? 'expected_shared_updated_at' AND (r ->> 'saved_by_user_id') IS NOT NULL THEN
+      -- No private row yet: check the shared position the node was moved from
+      SELECT * INTO shared_row FROM map_layouts
+      WHERE map_id = (r ->> 'map_id')::uuid
+        AND stakeholder_id = (r ->> 'stakeholder_id')::uuid
+        AND saved_by_user_id IS NULL
+      FOR UPDATE;
+      IF FOUND AND shared_row.updated_at IS DISTINCT FROM (r ->> 'expected_shared_updated_at')::timestamptz THEN
+        conflicts := conflicts || jsonb_build_array(to_jsonb(shared_row));
+        CONTINUE;
+      END IF;
+    END IF;
+
+    INSERT INTO map_layouts (map_id, stakeholder_id, x, y, zoom_context, saved_by_user_id, updated_at)
+    VALUES (
+      (r ->> 'map_id')::uuid,
+      (r ->> 'stakeholder_id')::uuid,
+      (r ->> 'x')::double precision,
+      (r ->> 'y')::double precision,
+      (r ->> 'zoom_context')::double precision,
+      (r ->> 'saved_by_user_id')::uuid,
+      now()
+    )
+    ON CONFLICT (map_id, stakeholder_id, saved_by_user_id) DO UPDATE
+      SET x = EXCLUDED.x,
+          y = EXCLUDED.y,
+          -- A row without zoom_context keeps the stored one, as with the plain upsert
+          zoom_context = CASE WHEN r ? 'zoom_context' THEN EXCLUDED.zoom_context ELSE map_layouts.zoom_context END,
+          updated_at = now()
+    RETURNING * INTO written;
+    saved := saved || jsonb_build_array(to_jsonb(written));
+  END LOOP;
+
+  RETURN jsonb_build_object('saved', saved, 'conflicts', conflicts);
+END;
+$$ LANGUAGE plpgsql;